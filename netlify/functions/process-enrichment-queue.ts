@@ -0,0 +1,29 @@
+/**
+ * Scheduled function (see netlify.toml) that works through the background enrichment queue
+ * Page requests only queue items, so jobs keep moving when no request happens to start processing
+ * Needs the supabase queue backend (the default with SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY set) -
+ * each invocation has its own memory
+ */
+import { getEnrichmentQueueBackend, processEnrichmentQueue } from '../../src/lib/enrichment-queue'
+
+export default async function handler(): Promise<Response> {
+  const backend = getEnrichmentQueueBackend()
+  if (backend !== 'supabase') {
+    console.error(
+      `process-enrichment-queue is running with the "${backend}" queue backend, which is empty in every ` +
+        'invocation, so queued items are never processed here. Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, ' +
+        'or ENRICHMENT_QUEUE_BACKEND=supabase'
+    )
+  }
+
+  try {
+    // Runs within the default 25s time budget, under the 30s limit for scheduled functions
+    return Response.json(await processEnrichmentQueue())
+  } catch (error) {
+    console.error('Error processing enrichment queue:', error)
+    return Response.json(
+      { error: 'Failed to process enrichment queue', message: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,241 @@
+/**
+ * Golden-dataset evaluation for product name cleaning
+ * Runs the names in scripts/fixtures/name-cleaning-golden.json through the regex parser, the AI cleaner
+ * and the combined enrichInventoryItem path, then reports field-level accuracy and regressions
+ * against scripts/fixtures/name-cleaning-baseline.json
+ *
+ *   npm run eval:names                        compare with the baseline (exits 1 on regressions)
+ *   npm run eval:names -- --update-baseline   accept the current results as the new baseline
+ *   npm run eval:names -- --verbose           list every mismatch and keep cleaner logs
+ *
+ * The AI cleaner replays recorded responses (NAME_CLEANER_PROVIDER=fixture) unless another provider is set
+ */
+import { readFile, writeFile } from 'node:fs/promises'
+
+const GOLDEN_PATH = new URL('./fixtures/name-cleaning-golden.json', import.meta.url)
+const BASELINE_PATH = new URL('./fixtures/name-cleaning-baseline.json', import.meta.url)
+
+const FIELDS = ['brand', 'model', 'colorway', 'size', 'variant'] as const
+
+type Field = (typeof FIELDS)[number]
+type FieldValues = Partial<Record<Field, string>>
+
+interface GoldenEntry {
+  name: string
+  expected: FieldValues // Missing fields are expected to be empty
+}
+
+interface Pipeline {
+  name: string
+  fields: Field[] // Fields the pipeline produces; the rest aren't scored
+  run: (name: string) => Promise<FieldValues>
+}
+
+interface Mismatch {
+  pipeline: string
+  name: string
+  field: Field
+  expected: string
+  actual: string
+}
+
+// Pipeline -> name -> field -> matched (the baseline file has the same shape)
+type Results = Record<string, Record<string, Partial<Record<Field, boolean>>>>
+
+const args = new Set(process.argv.slice(2))
+const updateBaseline = args.has('--update-baseline')
+const verbose = args.has('--verbose')
+
+// Replay recorded AI responses by default, and keep catalog lookups (which don't affect the scored fields) offline
+process.env.NAME_CLEANER_PROVIDER ||= 'fixture'
+process.env.KICKSDB_API_KEY = ''
+
+const { parseShoeName } = await import('../src/lib/shoe-parser')
+const { parseSize } = await import('../src/lib/sizes')
+const { getProductNameCleaner } = await import('../src/lib/product-name-cleaner')
+const { enrichInventoryItem } = await import('../src/lib/inventory-service')
+
+const print = (line: string = '') => process.stdout.write(`${line}\n`)
+
+const pipelines: Pipeline[] = [
+  {
+    name: 'regex',
+    fields: ['brand', 'model', 'size'],
+    run: async (name) => {
+      const parsed = parseShoeName(name)
+      return { brand: parsed.brand, model: parsed.model, size: parsed.size }
+    },
+  },
+  {
+    name: 'ai',
+    fields: ['brand', 'model', 'colorway', 'size', 'variant'],
+    run: async (name) => (await getProductNameCleaner().cleanName(name)) ?? {},
+  },
+  {
+    name: 'enrich',
+    fields: ['brand', 'model', 'colorway', 'size', 'variant'],
+    run: async (name) => {
+      const item = await enrichInventoryItem({ id: `golden:${name}`, name })
+      return { brand: item.brand, model: item.model, colorway: item.colorway, size: item.size, variant: item.variant }
+    },
+  },
+]
+
+/**
+ * Compare values loosely: case, punctuation and size notation ("10M" vs "10") don't count
+ */
+function normalizeValue(field: Field, value: string | undefined): string {
+  if (!value) return ''
+  if (field === 'size') return parseSize(value)?.label ?? value.trim().toUpperCase()
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9']+/g, ' ')
+    .trim()
+}
+
+async function readJson<T>(path: URL): Promise<T | null> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+/**
+ * Run every golden name through every pipeline
+ */
+async function evaluate(golden: GoldenEntry[]): Promise<{ results: Results; mismatches: Mismatch[] }> {
+  const results: Results = {}
+  const mismatches: Mismatch[] = []
+
+  for (const pipeline of pipelines) {
+    results[pipeline.name] = {}
+    for (const { name, expected } of golden) {
+      const actual = await pipeline.run(name)
+      const matched: Partial<Record<Field, boolean>> = {}
+      for (const field of pipeline.fields) {
+        matched[field] = normalizeValue(field, expected[field]) === normalizeValue(field, actual[field])
+        if (!matched[field]) {
+          mismatches.push({
+            pipeline: pipeline.name,
+            name,
+            field,
+            expected: expected[field] || '',
+            actual: actual[field] || '',
+          })
+        }
+      }
+      results[pipeline.name][name] = matched
+    }
+  }
+
+  return { results, mismatches }
+}
+
+function formatAccuracy(results: Results, pipeline: Pipeline, field: Field): string {
+  if (!pipeline.fields.includes(field)) return '-'
+  const scores = Object.values(results[pipeline.name]).map((matched) => matched[field])
+  const correct = scores.filter(Boolean).length
+  return `${correct}/${scores.length} (${Math.round((correct / scores.length) * 100)}%)`
+}
+
+function formatMismatch(mismatch: Mismatch): string {
+  return `  ${mismatch.pipeline.padEnd(8)} ${mismatch.field.padEnd(9)} "${mismatch.name}": expected "${mismatch.expected}", got "${mismatch.actual}"`
+}
+
+/**
+ * Field results that changed since the baseline
+ */
+function compareWithBaseline(results: Results, baseline: Results) {
+  const regressions: { pipeline: string; name: string; field: Field }[] = []
+  const improvements: { pipeline: string; name: string; field: Field }[] = []
+
+  for (const [pipeline, names] of Object.entries(results)) {
+    for (const [name, matched] of Object.entries(names)) {
+      for (const field of FIELDS) {
+        const before = baseline[pipeline]?.[name]?.[field]
+        const now = matched[field]
+        if (before === undefined || now === undefined || before === now) continue
+        ;(now ? improvements : regressions).push({ pipeline, name, field })
+      }
+    }
+  }
+
+  return { regressions, improvements }
+}
+
+async function main(): Promise<number> {
+  const golden = await readJson<GoldenEntry[]>(GOLDEN_PATH)
+  if (!golden || golden.length === 0) {
+    print(`No golden dataset at ${GOLDEN_PATH.pathname}`)
+    return 1
+  }
+
+  // Cleaner and catalog logs would drown out the report
+  const quiet = () => {}
+  const originalConsole = { log: console.log, info: console.info, warn: console.warn }
+  if (!verbose) {
+    console.log = quiet
+    console.info = quiet
+    console.warn = quiet
+  }
+  const { results, mismatches } = await evaluate(golden)
+  Object.assign(console, originalConsole)
+
+  print(`Name cleaning evaluation: ${golden.length} names, cleaner provider "${getProductNameCleaner().provider}"`)
+  print()
+  print(['pipeline'.padEnd(8), ...FIELDS.map((field) => field.padEnd(14))].join(' ').trimEnd())
+  for (const pipeline of pipelines) {
+    print(
+      [pipeline.name.padEnd(8), ...FIELDS.map((field) => formatAccuracy(results, pipeline, field).padEnd(14))]
+        .join(' ')
+        .trimEnd()
+    )
+  }
+
+  if (verbose && mismatches.length > 0) {
+    print()
+    print(`Mismatches (${mismatches.length}):`)
+    mismatches.forEach((mismatch) => print(formatMismatch(mismatch)))
+  }
+
+  if (updateBaseline) {
+    await writeFile(BASELINE_PATH, `${JSON.stringify(results, null, 2)}\n`)
+    print()
+    print(`Baseline updated: ${BASELINE_PATH.pathname}`)
+    return 0
+  }
+
+  const baseline = await readJson<Results>(BASELINE_PATH)
+  if (!baseline) {
+    print()
+    print('No baseline yet. Run with --update-baseline to record one.')
+    return 0
+  }
+
+  const { regressions, improvements } = compareWithBaseline(results, baseline)
+  const mismatchFor = (change: { pipeline: string; name: string; field: Field }) =>
+    mismatches.find(
+      (mismatch) =>
+        mismatch.pipeline === change.pipeline && mismatch.name === change.name && mismatch.field === change.field
+    )
+
+  print()
+  print(`Regressions vs baseline: ${regressions.length}`)
+  regressions.forEach((regression) => {
+    const mismatch = mismatchFor(regression)
+    if (mismatch) print(formatMismatch(mismatch))
+  })
+  print(`Improvements vs baseline: ${improvements.length}`)
+  improvements.forEach((improvement) =>
+    print(`  ${improvement.pipeline.padEnd(8)} ${improvement.field.padEnd(9)} "${improvement.name}"`)
+  )
+  if (improvements.length > 0 && regressions.length === 0) {
+    print('Run with --update-baseline to keep these results.')
+  }
+
+  return regressions.length > 0 ? 1 : 0
+}
+
+process.exit(await main())
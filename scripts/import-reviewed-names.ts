@@ -0,0 +1,71 @@
+/**
+ * Add names reviewed in the admin review queue to the golden dataset
+ * Accepted and edited names become entries in scripts/fixtures/name-cleaning-golden.json, and the AI suggestion
+ * the reviewer saw is recorded in scripts/fixtures/name-cleaner-responses.json so fixture replays cover it
+ * Names already in the dataset are left as they are
+ *
+ *   npm run golden:import              needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY
+ *   npm run golden:import -- --dry-run list what would be added without writing
+ *
+ * Run npm run eval:names -- --update-baseline afterwards to score the new names
+ */
+import { readFile, writeFile } from 'node:fs/promises'
+
+const GOLDEN_PATH = new URL('./fixtures/name-cleaning-golden.json', import.meta.url)
+const RESPONSES_PATH = new URL('./fixtures/name-cleaner-responses.json', import.meta.url)
+
+interface GoldenEntry {
+  name: string
+  expected: Partial<Record<'brand' | 'model' | 'colorway' | 'size' | 'variant', string>>
+}
+
+const dryRun = process.argv.slice(2).includes('--dry-run')
+
+const { listNameOverrides } = await import('../src/lib/name-overrides')
+const { parseCleanedProductData, toCleanedProductOutput } = await import('../src/lib/ai-product-cleaner')
+
+const print = (line: string = '') => process.stdout.write(`${line}\n`)
+
+async function main(): Promise<number> {
+  const golden = JSON.parse(await readFile(GOLDEN_PATH, 'utf8')) as GoldenEntry[]
+  const responses = JSON.parse(await readFile(RESPONSES_PATH, 'utf8')) as Record<string, unknown>
+  const goldenNames = new Set(golden.map((entry) => entry.name))
+
+  const reviewed = (await listNameOverrides()).filter((override) => override.fields !== null)
+  let added = 0
+
+  for (const { originalName, fields, suggestion } of reviewed) {
+    if (!fields || goldenNames.has(originalName)) continue
+
+    // Empty fields are left out, matching the hand-written entries
+    const expected = Object.fromEntries(
+      Object.entries({
+        brand: fields.brand,
+        model: fields.model,
+        colorway: fields.colorway,
+        size: fields.size,
+        variant: fields.variant,
+      }).filter(([, value]) => value)
+    )
+    golden.push({ name: originalName, expected })
+    goldenNames.add(originalName)
+    // Suggestions saved before they were validated may not match the cleaner's schema
+    const recorded = parseCleanedProductData(suggestion)
+    if (recorded && responses[originalName] === undefined) {
+      responses[originalName] = toCleanedProductOutput(recorded)
+    }
+
+    added++
+    print(`  + ${originalName}`)
+  }
+
+  print(`${added} reviewed name(s) ${dryRun ? 'would be added' : 'added'} to the golden dataset (${reviewed.length} reviewed)`)
+  if (dryRun || added === 0) return 0
+
+  await writeFile(GOLDEN_PATH, `${JSON.stringify(golden, null, 2)}\n`)
+  await writeFile(RESPONSES_PATH, `${JSON.stringify(responses, null, 2)}\n`)
+  print('Run npm run eval:names -- --update-baseline to score them.')
+  return 0
+}
+
+process.exit(await main())
@@ -0,0 +1,70 @@
+/**
+ * Local stand-in for the KicksDB catalog API, backed by scripts/fixtures/kicksdb-products.json
+ * Lets catalog enrichment run offline: start it, then set KICKSDB_API_URL=http://localhost:4010
+ */
+import { createServer } from 'node:http'
+import { readFileSync } from 'node:fs'
+
+const PORT = Number(process.env.KICKSDB_MOCK_PORT) || 4010
+const products = JSON.parse(
+  readFileSync(new URL('./fixtures/kicksdb-products.json', import.meta.url), 'utf8')
+)
+
+/**
+ * Lowercase word tokens, splitting letter/digit boundaries ("aj1" -> "aj", "1")
+ */
+function tokenize(text) {
+  return text
+    .toLowerCase()
+    .replace(/([a-z])(\d)/g, '$1 $2')
+    .replace(/(\d)([a-z])/g, '$1 $2')
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+}
+
+/**
+ * Rank fixtures by how many query words they contain (like a catalog full-text search)
+ */
+function searchProducts(query, limit) {
+  const queryTokens = tokenize(query)
+  return products
+    .map((product) => {
+      const productTokens = new Set(tokenize(`${product.title} ${product.brand} ${product.model} ${product.sku || ''}`))
+      const hits = queryTokens.filter((token) => productTokens.has(token)).length
+      return { product, hits }
+    })
+    .filter(({ hits }) => hits > 0)
+    .sort((a, b) => b.hits - a.hits)
+    .slice(0, limit)
+    .map(({ product }) => product)
+}
+
+const server = createServer((request, response) => {
+  const url = new URL(request.url || '/', `http://localhost:${PORT}`)
+
+  if (request.method === 'GET' && url.pathname === '/stockx/products') {
+    const query = url.searchParams.get('query') || ''
+    const limit = Math.min(Number(url.searchParams.get('limit')) || 10, 50)
+    const data = searchProducts(query, limit)
+    response.writeHead(200, { 'Content-Type': 'application/json' })
+    response.end(JSON.stringify({ data, meta: { total: data.length, query } }))
+    return
+  }
+
+  const productMatch = url.pathname.match(/^\/stockx\/products\/([^/]+)$/)
+  if (request.method === 'GET' && productMatch) {
+    const product = products.find((candidate) => candidate.id === decodeURIComponent(productMatch[1]))
+    if (product) {
+      response.writeHead(200, { 'Content-Type': 'application/json' })
+      response.end(JSON.stringify({ data: product }))
+      return
+    }
+  }
+
+  response.writeHead(404, { 'Content-Type': 'application/json' })
+  response.end(JSON.stringify({ error: 'Not found' }))
+})
+
+server.listen(PORT, () => {
+  console.log(`KicksDB stand-in serving ${products.length} fixture products on http://localhost:${PORT}`)
+})
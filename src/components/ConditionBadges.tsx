@@ -0,0 +1,41 @@
+import { CONDITION_LABELS, PACKAGING_LABELS } from '../lib/condition'
+import type { ItemCondition, Packaging } from '../types/inventory'
+
+interface ConditionBadgesProps {
+  condition?: ItemCondition
+  packaging?: Packaging
+  className?: string
+}
+
+/**
+ * Condition ("VNDS", "Used 8/10") and packaging ("No Box") badges
+ * Renders nothing when neither is known
+ */
+export default function ConditionBadges({ condition, packaging, className = '' }: ConditionBadgesProps) {
+  if (!condition && !packaging) return null
+
+  const conditionColor =
+    condition?.type === 'DS'
+      ? 'bg-green-500/20 text-green-400 border-green-500/40'
+      : condition?.type === 'VNDS'
+        ? 'bg-blue-500/20 text-blue-400 border-blue-500/40'
+        : 'bg-orange-500/20 text-orange-400 border-orange-500/40'
+
+  return (
+    <div className={`flex flex-wrap gap-1 ${className}`}>
+      {condition && (
+        <span
+          title={CONDITION_LABELS[condition.type]}
+          className={`text-xs font-bold px-2 py-0.5 rounded border ${conditionColor}`}
+        >
+          {condition.label}
+        </span>
+      )}
+      {packaging && (
+        <span className="text-xs font-medium px-2 py-0.5 rounded border border-gray-700 bg-gray-800 text-gray-300">
+          {PACKAGING_LABELS[packaging]}
+        </span>
+      )}
+    </div>
+  )
+}
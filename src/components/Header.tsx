@@ -1,15 +1,19 @@
-import { Link } from '@tanstack/react-router';
+import { Link, useNavigate } from '@tanstack/react-router';
 import { useQuery } from '@tanstack/react-query';
 import { useMemo, useState } from 'react';
 import type { EnrichedInventoryItem } from '../types/inventory';
 
 import ClerkHeader from '../integrations/clerk/header-user.tsx';
 import CartIcon from './CartIcon';
+import SearchTypeahead from './SearchTypeahead';
+import { getBrandOrder, getCanonicalBrand, isKnownBrand } from '../lib/brands';
 
 import { Home, ShoppingBag, ChevronDown } from 'lucide-react';
 
 export default function Header() {
   const [isShopHovered, setIsShopHovered] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const navigate = useNavigate();
 
   // Fetch metadata for brands list (lightweight)
   const { data: metadata } = useQuery<{ brands: string[] }>({
@@ -23,72 +27,14 @@ export default function Header() {
     },
   })
 
-  // Whitelist of legitimate shoe manufacturers
-  const validBrands = [
-    'Nike',
-    'Adidas',
-    'Jordan',
-    'Air Jordan',
-    'New Balance',
-    'Puma',
-    'Reebok',
-    'Vans',
-    'Converse',
-    'Asics',
-    'Bape',
-    'A Bathing Ape',
-    'Supreme',
-    'Vlone',
-  ]
-
-  // Map model names and variations to their parent brands
-  const brandNormalization: Record<string, string> = {
-    'af1': 'Nike',
-    'air force': 'Nike',
-    'air force 1': 'Nike',
-    'dunk': 'Nike',
-    'sb dunk': 'Nike',
-    'lebron': 'Nike',
-    'jumpman': 'Jordan',
-    'yeezy': 'Adidas',
-    'bapestas': 'Bape',
-    'bapesta': 'Bape',
-  }
-
-  // Normalize brand name
-  const normalizeBrand = (brand: string): string => {
-    const lowerBrand = brand.toLowerCase().trim()
-    // Check if it's a model name that should map to a parent brand
-    if (brandNormalization[lowerBrand]) {
-      return brandNormalization[lowerBrand]
-    }
-    // Return as-is if it's already a valid brand
-    return brand
-  }
-
-  // Get unique manufacturers (filtered to only valid brands)
+  // Known manufacturers in stock (model lines like "Dunk" count as their brand), in registry order
   const manufacturers = useMemo(() => {
     if (!metadata?.brands) return []
-    const normalizedBrands = metadata.brands
-      .map((brand) => normalizeBrand(brand))
-      .filter((brand): brand is string => {
-        if (!brand) return false
-        // Check if normalized brand matches any valid brand (case-insensitive)
-        return validBrands.some(
-          (validBrand) => validBrand.toLowerCase() === brand.toLowerCase()
-        )
-      })
-    
-    const uniqueBrands = new Set(normalizedBrands)
-    return Array.from(uniqueBrands).sort((a, b) => {
-      // Sort by the order in validBrands list, then alphabetically
-      const indexA = validBrands.findIndex((vb) => vb.toLowerCase() === a.toLowerCase())
-      const indexB = validBrands.findIndex((vb) => vb.toLowerCase() === b.toLowerCase())
-      if (indexA !== -1 && indexB !== -1) return indexA - indexB
-      if (indexA !== -1) return -1
-      if (indexB !== -1) return 1
-      return a.localeCompare(b)
-    })
+    const knownBrands = metadata.brands
+      .filter((brand) => brand && isKnownBrand(brand))
+      .map((brand) => getCanonicalBrand(brand))
+
+    return Array.from(new Set(knownBrands)).sort((a, b) => getBrandOrder(a) - getBrandOrder(b))
   }, [metadata])
 
   return (
@@ -158,6 +104,18 @@ export default function Header() {
         </div>
       </div>
       <div className="flex items-center gap-4">
+        <SearchTypeahead
+          value={searchQuery}
+          onChange={setSearchQuery}
+          onSubmit={(value) => {
+            if (!value) return
+            navigate({ to: '/shop', search: { q: value } })
+            setSearchQuery('')
+          }}
+          placeholder="Search sneakers..."
+          className="hidden md:block w-72"
+          inputClassName="py-2 text-sm"
+        />
         <CartIcon />
         <ClerkHeader />
       </div>
@@ -0,0 +1,173 @@
+import { Link } from '@tanstack/react-router'
+import { useQuery, keepPreviousData } from '@tanstack/react-query'
+import { useState, useEffect, useRef } from 'react'
+import { Search, Loader2 } from 'lucide-react'
+
+interface SuggestionProduct {
+  id: string
+  name: string
+  brand: string
+  model: string
+  size?: string
+  price?: number
+  imageUrl?: string
+}
+
+interface SuggestResponse {
+  query: string
+  completions: { type: 'brand' | 'model' | 'colorway'; value: string; count: number }[]
+  products: SuggestionProduct[]
+}
+
+interface SearchTypeaheadProps {
+  value: string
+  onChange: (value: string) => void
+  /** Called when the shopper presses Enter or picks a completion */
+  onSubmit?: (value: string) => void
+  placeholder?: string
+  className?: string
+  inputClassName?: string
+}
+
+const COMPLETION_LABELS: Record<SuggestResponse['completions'][number]['type'], string> = {
+  brand: 'Brand',
+  model: 'Model',
+  colorway: 'Colorway',
+}
+
+/**
+ * Search box with a typeahead dropdown of brand/model/colorway completions and top products
+ * Suggestions come from /api/inventory/suggest (cached catalog only)
+ */
+export default function SearchTypeahead({
+  value,
+  onChange,
+  onSubmit,
+  placeholder = 'Search by name, brand, or model...',
+  className = '',
+  inputClassName = '',
+}: SearchTypeaheadProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [debouncedValue, setDebouncedValue] = useState(value.trim())
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Shorter debounce than the results query so suggestions feel instant
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedValue(value.trim()), 150)
+    return () => clearTimeout(timeout)
+  }, [value])
+
+  // Close the dropdown when clicking outside
+  useEffect(() => {
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [])
+
+  const { data: suggestions, isFetching } = useQuery<SuggestResponse>({
+    queryKey: ['inventory-suggest', debouncedValue],
+    queryFn: async () => {
+      const response = await fetch(`/api/inventory/suggest?q=${encodeURIComponent(debouncedValue)}`)
+      if (!response.ok) {
+        throw new Error('Failed to fetch suggestions')
+      }
+      return response.json()
+    },
+    enabled: debouncedValue.length >= 2,
+    staleTime: 30 * 1000,
+    placeholderData: keepPreviousData,
+  })
+
+  const submit = (nextValue: string) => {
+    onChange(nextValue)
+    onSubmit?.(nextValue)
+    setIsOpen(false)
+  }
+
+  const hasSuggestions =
+    !!suggestions && (suggestions.completions.length > 0 || suggestions.products.length > 0)
+  const showDropdown = isOpen && value.trim().length >= 2 && hasSuggestions
+
+  return (
+    <div ref={containerRef} className={`relative ${className}`}>
+      <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+      <input
+        type="text"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value)
+          setIsOpen(true)
+        }}
+        onFocus={() => setIsOpen(true)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            submit(value.trim())
+          } else if (e.key === 'Escape') {
+            setIsOpen(false)
+          }
+        }}
+        className={`w-full pl-12 pr-10 bg-gray-900 border border-gray-800 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-gray-600 transition-colors ${inputClassName}`}
+      />
+      {isFetching && isOpen && (
+        <Loader2 className="absolute right-4 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-500 animate-spin" />
+      )}
+
+      {showDropdown && (
+        <div className="absolute top-full left-0 right-0 mt-2 bg-gray-900 border border-gray-800 rounded-lg shadow-2xl overflow-hidden z-50">
+          {suggestions.completions.length > 0 && (
+            <div className="py-2">
+              {suggestions.completions.map((completion) => (
+                <button
+                  key={`${completion.type}:${completion.value}`}
+                  type="button"
+                  onClick={() => submit(completion.value)}
+                  className="w-full flex items-center justify-between px-4 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 hover:text-white transition-colors"
+                >
+                  <span>{completion.value}</span>
+                  <span className="text-xs text-gray-500">
+                    {COMPLETION_LABELS[completion.type]} · {completion.count}
+                  </span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {suggestions.products.length > 0 && (
+            <div className="py-2 border-t border-gray-800">
+              {suggestions.products.map((product) => (
+                <Link
+                  key={product.id}
+                  to="/shop/$id"
+                  params={{ id: product.id }}
+                  onClick={() => setIsOpen(false)}
+                  className="flex items-center gap-3 px-4 py-2 hover:bg-gray-800 transition-colors"
+                >
+                  {product.imageUrl ? (
+                    <img src={product.imageUrl} alt={product.name} className="w-10 h-10 object-cover rounded" />
+                  ) : (
+                    <div className="w-10 h-10 bg-gray-800 rounded" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white truncate">{product.name}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {product.brand}
+                      {product.size ? ` · Size ${product.size}` : ''}
+                    </p>
+                  </div>
+                  {product.price !== undefined && (
+                    <span className="text-sm font-bold text-white">${(product.price / 100).toFixed(2)}</span>
+                  )}
+                </Link>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+import { useStore } from '@tanstack/react-store'
+import { useEffect } from 'react'
+import { sizePreferenceStore, getStoredSizeSystem, setPreferredSizeSystem } from '../lib/size-preference-store'
+
+/**
+ * React hook for the shopper's preferred size system (US, UK, EU or CM)
+ */
+export function useSizePreference() {
+  const { system } = useStore(sizePreferenceStore)
+
+  // Restore the stored preference after hydration
+  useEffect(() => {
+    const stored = getStoredSizeSystem()
+    if (stored && stored !== sizePreferenceStore.state.system) {
+      sizePreferenceStore.setState({ system: stored })
+    }
+  }, [])
+
+  return {
+    sizeSystem: system,
+    setSizeSystem: setPreferredSizeSystem,
+  }
+}
@@ -0,0 +1,102 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createMemoryCacheStore, setCacheStore } from './cache-store'
+import { getCleaningStats, parseCleanedProductData, parseCleanedProductResponse } from './ai-product-cleaner'
+
+const output = (fields: Record<string, unknown>) => ({
+  cleanedName: 'Nike Dunk Low Panda',
+  brand: 'Nike',
+  model: 'Dunk Low',
+  confidence: 'high',
+  ...fields,
+})
+
+describe('parseCleanedProductData sizes', () => {
+  it('keeps a sneaker size over a variant whatever the model is called', () => {
+    const cleaned = parseCleanedProductData(output({ size: '10.5M', variant: 'Panda' }))
+
+    expect(cleaned?.size).toBe('10.5')
+    expect(cleaned?.variant).toBeUndefined()
+  })
+
+  it('keeps the variant of items without a sneaker size', () => {
+    const cleaned = parseCleanedProductData(
+      output({ cleanedName: 'Pop Mart Labubu Macaron', brand: 'Pop Mart', model: 'Labubu', size: 'M', variant: 'Macaron' })
+    )
+
+    expect(cleaned?.size).toBeUndefined()
+    expect(cleaned?.variant).toBe('Macaron')
+  })
+
+  it('keeps apparel letter sizes for clothing', () => {
+    const cleaned = parseCleanedProductData(
+      output({ cleanedName: 'Essentials Hoodie Black', brand: 'Essentials', model: 'Hoodie', size: 'XL', variant: 'Black' })
+    )
+
+    expect(cleaned?.size).toBe('XL')
+    expect(cleaned?.variant).toBeUndefined()
+  })
+})
+
+describe('parseCleanedProductResponse', () => {
+  beforeEach(() => {
+    setCacheStore(createMemoryCacheStore())
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  // Stats are kept since the server started, so compare against the counts before each call
+  async function parseCounted(content: unknown) {
+    const before = getCleaningStats()
+    const cleaned = await parseCleanedProductResponse('dunk low panda 10', content)
+    const after = getCleaningStats()
+    const rejected = Object.entries(after.rejected)
+      .filter(([reason, count]) => count > before.rejected[reason as keyof typeof before.rejected])
+      .map(([reason]) => reason)
+    return { cleaned, accepted: after.accepted - before.accepted, rejected }
+  }
+
+  it('accepts a response that matches the schema', async () => {
+    const content = JSON.stringify({
+      ...output({ size: '10', variant: null }),
+      colorway: 'Panda',
+      styleCode: null,
+      condition: 'DS',
+      packaging: null,
+    })
+
+    const { cleaned, accepted, rejected } = await parseCounted(content)
+    expect(cleaned).toMatchObject({ cleanedName: 'Nike Dunk Low Panda', size: '10', colorway: 'Panda' })
+    expect(accepted).toBe(1)
+    expect(rejected).toEqual([])
+  })
+
+  it('rejects text that is not JSON', async () => {
+    expect(await parseCounted('Nike Dunk Low Panda')).toEqual({ cleaned: null, accepted: 0, rejected: ['invalid_json'] })
+  })
+
+  it('rejects JSON that does not match the schema', async () => {
+    const content = JSON.stringify(output({ confidence: 'certain' }))
+
+    expect(await parseCounted(content)).toEqual({ cleaned: null, accepted: 0, rejected: ['schema_mismatch'] })
+  })
+
+  it('rejects results without a name, brand or model', async () => {
+    const content = JSON.stringify({
+      ...output({ model: '' }),
+      size: null,
+      variant: null,
+      colorway: null,
+      styleCode: null,
+      condition: null,
+      packaging: null,
+    })
+
+    expect(await parseCounted(content)).toEqual({ cleaned: null, accepted: 0, rejected: ['missing_required_fields'] })
+  })
+})
+
+describe('parseCleanedProductData', () => {
+  it('rejects suggestions that no longer match the schema', () => {
+    expect(parseCleanedProductData(null)).toBeNull()
+    expect(parseCleanedProductData(output({ packaging: 'shoebox' }))).toBeNull()
+  })
+})
@@ -1,39 +1,27 @@
 /**
- * AI-powered product name and size cleaning using LangChain and OpenAI
- * Cost-effective implementation with batching and caching
+ * AI-powered product name and size cleaning using LangChain
+ * Prompt, response schema and validation shared by the name cleaner providers (see product-name-cleaner.ts)
  */
 
 import { ChatOpenAI } from '@langchain/openai'
 import { ChatPromptTemplate } from '@langchain/core/prompts'
-import { getCachedHFImprovement, setCachedHFImprovement } from './inventory-cache'
-
-/**
- * Get environment variable (works in both server and client contexts)
- */
-function getEnv(key: string): string | undefined {
-  // Server-side: use process.env
-  if (typeof process !== 'undefined' && process.env) {
-    return process.env[key]
-  }
-  // Client-side: use import.meta.env
-  if (typeof import.meta !== 'undefined' && import.meta.env) {
-    return import.meta.env[key]
-  }
-  return undefined
-}
-
-const OPENAI_API_KEY = getEnv('VITE_OPENAI_API_KEY') || getEnv('OPENAI_API_KEY')
-
-// Use gpt-4o-mini for cost-effectiveness (much cheaper than gpt-4)
-// ~$0.15 per 1M input tokens, ~$0.60 per 1M output tokens
-const model = OPENAI_API_KEY
-  ? new ChatOpenAI({
-      modelName: 'gpt-4o-mini',
-      temperature: 0.1, // Very low temperature for consistent, accurate parsing
-      maxTokens: 200, // Increased slightly for better structured output
-      openAIApiKey: OPENAI_API_KEY,
-    })
-  : null
+import { z } from 'zod'
+import { setCachedHFImprovement } from './inventory-cache'
+import { describeSneakerAbbreviations } from './sneaker-abbreviations'
+import { describeBrandAliases, getCanonicalBrand } from './brands'
+import { parseSize } from './sizes'
+import { PACKAGING_TYPES, parseCondition, parsePackaging } from './condition'
+import { parseStyleCode } from './style-code'
+import type { ProductNameCleaner } from './product-name-cleaner'
+import type { ItemCondition, Packaging } from '../types/inventory'
+
+// Batched requests send up to MAX_BATCH_SIZE names and need room for one result per name
+export const MAX_BATCH_SIZE = 20
+const MAX_TOKENS_PER_NAME = 200
+
+// Bump when the prompt, schema or normalization changes, so stored enrichments from older versions
+// can be re-enriched (see backfillEnrichments in inventory-service.ts)
+export const CLEANING_PROMPT_VERSION = 2
 
 /**
  * Structured output interface for cleaned product data
@@ -42,61 +30,40 @@ export interface CleanedProductData {
   cleanedName: string
   brand: string
   model: string
-  size?: 'S' | 'M' | 'L' | 'XL' | 'XXL' | 'XXXL'
+  size?: string // Sneakers: "10.5", "6.5W", "5Y", "8C"; apparel: S-XXXL
   variant?: string // For products that have variants instead of sizes (e.g., "Macaron", "Strawberry")
   colorway?: string
+  styleCode?: string // Manufacturer style code/SKU, e.g. "DD1391-100" (normalized after parsing)
+  condition?: ItemCondition // From "DS", "VNDS", "Used 8/10" (normalized after parsing)
+  packaging?: Packaging // From "NO BOX", "NO LID", "NO BOX LABEL", "OG BOX"
   confidence: 'high' | 'medium' | 'low'
 }
 
-/**
- * Clean and normalize a single product name using AI
- * Returns structured data with brand, model, size, etc.
- */
-export async function cleanProductNameWithAI(
-  originalName: string
-): Promise<CleanedProductData | null> {
-  if (!model || !OPENAI_API_KEY) {
-    console.warn('OpenAI API key not found. Set VITE_OPENAI_API_KEY or OPENAI_API_KEY')
-    return null
-  }
-
-  // Check cache first
-  const cached = getCachedHFImprovement(originalName)
-  if (cached && cached !== originalName) {
-    // If we have a cached improvement, use it but still parse with AI for structure
-    // This saves on API calls while still getting structured data
-  }
-
-  try {
-    const prompt = ChatPromptTemplate.fromMessages([
-      [
-        'system',
-        `You are an expert at parsing and cleaning sneaker product names from inventory systems.
+// Parsing instructions shared by single and batched cleaning
+const CLEANING_INSTRUCTIONS = `You are an expert at parsing and cleaning sneaker product names from inventory systems.
 
 CRITICAL RULES:
 1. Remove ALL size information from cleanedName (e.g., "Size 10", "10M", "5y/6.5w", "(7)")
-2. Remove condition words: "VNDS", "Used", "USED", "NO BOX", "Store Credit"
+2. Remove condition and packaging words from cleanedName ("DS", "VNDS", "Used", "8/10", "NO BOX", "NO LID", "NO BOX LABEL", "Store Credit") but report them in "condition" and "packaging"
 3. Remove extra whitespace and normalize capitalization
 4. Extract brand, model, and colorway accurately
-5. Handle common abbreviations: AF1/AF = Air Force 1, AJ = Air Jordan, SB = Skateboarding, NB = New Balance
+5. Handle common abbreviations: ${describeSneakerAbbreviations()}
+6. Remove style codes/SKUs from cleanedName (e.g. "DD1391-100", "553558-163", "CP9654") but report them in "styleCode"
 
 BRAND NORMALIZATION:
-- "Jordan", "AJ", "Air Jordan" → "Jordan"
-- "AF1", "AF", "Air Force" → Brand: "Nike", Model: "Air Force 1"
-- "SB Dunk" → Brand: "Nike", Model: "SB Dunk"
-- "Yeezy" → Brand: "Adidas", Model includes "Yeezy"
-- "NB" → "New Balance"
-- "Dunk" (without brand) → Brand: "Nike", Model: "Dunk"
+${describeBrandAliases()}
 
 SIZE vs VARIANT HANDLING:
-- For CLOTHING/APPAREL (shoes, shirts, pants, etc.): Extract size and convert to S, M, L, XL, XXL, XXXL
-  * If numeric size found, convert: US 4-6 → S, US 7-8 → M, US 9-10 → L, US 11-12 → XL, US 13-14 → XXL, US 15+ → XXXL
-  * If already in letter format, use as-is
+- For SNEAKERS/SHOES: Keep the real US size, never convert it to a letter size
+  * Men's: number only, e.g. "10", "10.5" (drop the "M")
+  * Women's: number with "W", e.g. "6.5W"
+  * Grade school/youth: number with "Y", e.g. "5Y" (for dual sizes like "5y/6.5w" use the first size)
+  * Toddler: number with "C", e.g. "8C"
+- For CLOTHING/APPAREL (shirts, pants, hoodies, etc.): Use S, M, L, XL, XXL, XXXL
 - For ACCESSORIES/OTHER ITEMS (keychains, collectibles, food items, etc.): Extract variant instead of size
   * Variants are descriptive names like "Macaron", "Strawberry", "Blue", "Red", "Gold", etc.
   * If product name contains variant info (e.g., "Macaron Labubus", "Strawberry Keychain"), extract as variant
   * Do NOT assign a size to non-apparel items
-- Use "size" field ONLY for apparel/clothing items
 - Use "variant" field ONLY for non-apparel items that have variants
 - If neither size nor variant applies, omit both fields
 
@@ -107,7 +74,7 @@ Output: {{
   "cleanedName": "Nike Air Force 1 Ambush",
   "brand": "Nike",
   "model": "Air Force 1",
-  "size": "M",
+  "size": "5Y",
   "colorway": "Ambush",
   "confidence": "high"
 }}
@@ -117,7 +84,7 @@ Output: {{
   "cleanedName": "Jordan 1 High OG Chicago",
   "brand": "Jordan",
   "model": "1 High OG",
-  "size": "L",
+  "size": "10",
   "colorway": "Chicago",
   "confidence": "high"
 }}
@@ -127,8 +94,32 @@ Output: {{
   "cleanedName": "Nike SB Dunk Low Panda",
   "brand": "Nike",
   "model": "SB Dunk Low",
-  "size": "L",
+  "size": "10.5",
+  "colorway": "Panda",
+  "condition": "VNDS",
+  "confidence": "high"
+}}
+
+Input: "Jordan 4 Bred Used 8/10 NO BOX 9"
+Output: {{
+  "cleanedName": "Jordan 4 Bred",
+  "brand": "Jordan",
+  "model": "4",
+  "size": "9",
+  "colorway": "Bred",
+  "condition": "Used 8/10",
+  "packaging": "no-box",
+  "confidence": "high"
+}}
+
+Input: "Dunk Low Panda DD1391-100 Size 11"
+Output: {{
+  "cleanedName": "Nike Dunk Low Panda",
+  "brand": "Nike",
+  "model": "Dunk Low",
+  "size": "11",
   "colorway": "Panda",
+  "styleCode": "DD1391-100",
   "confidence": "high"
 }}
 
@@ -137,7 +128,7 @@ Output: {{
   "cleanedName": "Adidas Yeezy 350 V2 Zebra",
   "brand": "Adidas",
   "model": "Yeezy 350 V2",
-  "size": "L",
+  "size": "10",
   "colorway": "Zebra",
   "confidence": "high"
 }}
@@ -147,7 +138,7 @@ Output: {{
   "cleanedName": "Nike Dunk Low University Blue",
   "brand": "Nike",
   "model": "Dunk Low",
-  "size": "M",
+  "size": "8",
   "colorway": "University Blue",
   "confidence": "high"
 }}
@@ -177,252 +168,463 @@ Output: {{
   "model": "Keychain",
   "variant": "Strawberry",
   "confidence": "high"
-}}
+}}`
 
-Return ONLY valid JSON in this exact format (no markdown, no code blocks):
-{{
-  "cleanedName": "Brand Model Colorway",
-  "brand": "Brand Name",
-  "model": "Model Name",
-  "size": "S|M|L|XL|XXL|XXXL",
-  "variant": "Variant name if applicable",
-  "colorway": "Colorway name if found",
-  "confidence": "high|medium|low"
-}}
+/**
+ * One cleaned product, as the model must return it
+ * Sent to OpenAI as a strict JSON schema (optional fields are nullable) and used to validate the response
+ */
+const cleanedProductSchema = z.object({
+  cleanedName: z.string().describe('Brand Model Colorway, without size, condition, packaging or style code'),
+  brand: z.string().describe('Brand name, empty for unbranded items'),
+  model: z.string().describe('Model name'),
+  size: z.string().nullable().describe('10.5|6.5W|5Y|8C for sneakers, S|M|L|XL|XXL|XXXL for apparel'),
+  variant: z.string().nullable().describe('Variant name for non-apparel items'),
+  colorway: z.string().nullable().describe('Colorway name if found'),
+  styleCode: z.string().nullable().describe('Style code if found'),
+  condition: z.string().nullable().describe('DS|VNDS|Used|Used N/10 if found'),
+  packaging: z.enum(PACKAGING_TYPES).nullable().describe('Packaging if found'),
+  confidence: z.enum(['high', 'medium', 'low']),
+})
+
+const batchResultSchema = z.object({
+  results: z.array(cleanedProductSchema.extend({ index: z.number().int().describe('The input product index') })),
+})
+
+type CleanedProductOutput = z.infer<typeof cleanedProductSchema>
+
+/**
+ * Why a model response was not used
+ */
+export type CleaningRejectionReason =
+  | 'request_failed' // The request errored or timed out
+  | 'invalid_json' // The response wasn't JSON
+  | 'schema_mismatch' // The JSON didn't match cleanedProductSchema
+  | 'missing_required_fields' // cleanedName, brand or model was empty after normalization
+  | 'missing_from_batch' // A batched response skipped or repeated a product index
+
+export interface CleaningStats {
+  accepted: number
+  rejected: Record<CleaningRejectionReason, number>
+}
 
-IMPORTANT RULES:
-- "size" field: Use ONLY for apparel/clothing (shoes, shirts, etc.). Must be EXACTLY one of: S, M, L, XL, XXL, or XXXL
+const cleaningStats: CleaningStats = {
+  accepted: 0,
+  rejected: {
+    request_failed: 0,
+    invalid_json: 0,
+    schema_mismatch: 0,
+    missing_required_fields: 0,
+    missing_from_batch: 0,
+  },
+}
+
+/**
+ * How many model results were accepted or rejected (and why) since the server started
+ */
+export function getCleaningStats(): CleaningStats {
+  return { accepted: cleaningStats.accepted, rejected: { ...cleaningStats.rejected } }
+}
+
+/**
+ * Log and count a model response that couldn't be used
+ */
+export function recordCleaningRejection(reason: CleaningRejectionReason, name: string, detail?: unknown): void {
+  cleaningStats.rejected[reason]++
+  console.warn(`AI cleaning rejected (${reason}) for "${name}":`, detail ?? '')
+}
+
+const FIELD_RULES = `IMPORTANT RULES:
+- "size" field: Use ONLY for sneakers and apparel. Sneakers use the real US size (e.g. "10.5", "6.5W", "5Y", "8C"); apparel must be EXACTLY one of: S, M, L, XL, XXL, or XXXL
 - "variant" field: Use ONLY for non-apparel items with variants (e.g., "Macaron", "Strawberry", "Blue", "Gold")
 - NEVER use both "size" and "variant" in the same response
 - If product is apparel but size cannot be determined, omit "size" field
-- If product is non-apparel but has no variant, omit "variant" field`,
-      ],
-      ['human', 'Product name: {name}'],
-    ])
+- If product is non-apparel but has no variant, omit "variant" field
+- Omit "condition" and "packaging" unless the name states them
+- Omit "styleCode" unless the name contains one; never guess it`
 
-    const chain = prompt.pipe(model)
+const SINGLE_SYSTEM_PROMPT = `${CLEANING_INSTRUCTIONS}
 
-    const response = await chain.invoke({
-      name: originalName,
-    })
+${FIELD_RULES}
+- Use null for any optional field that doesn't apply`
 
-    const content = response.content as string
+const BATCH_SYSTEM_PROMPT = `${CLEANING_INSTRUCTIONS}
 
-    // Parse JSON response
-    let cleaned: CleanedProductData
-    try {
-      // Extract JSON from response (handle markdown code blocks, extra whitespace)
-      let jsonStr = content.trim()
-      
-      // Remove markdown code blocks if present
-      jsonStr = jsonStr.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim()
-      
-      // Find JSON object
-      const jsonMatch = jsonStr.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        cleaned = JSON.parse(jsonMatch[0])
-        
-        // Post-process: Clean up the cleanedName (remove size info if AI missed it)
-        if (cleaned.cleanedName) {
-          cleaned.cleanedName = cleaned.cleanedName
-            .replace(/\s+Size\s+\d+[^\s]*/gi, '')
-            .replace(/\s+\d+[yYwWmM]\s*/g, ' ')
-            .replace(/\s+\(\d+[^)]*\)/g, '')
-            .replace(/\s+VNDS\s*/gi, '')
-            .replace(/\s+Used\s*/gi, '')
-            .replace(/\s+USED\s*/gi, '')
-            .replace(/\s+NO BOX\s*/gi, '')
-            .replace(/\s+/g, ' ')
-            .trim()
-        }
-        
-        // Normalize brand capitalization
-        if (cleaned.brand) {
-          const brandLower = cleaned.brand.toLowerCase()
-          if (brandLower === 'nike') cleaned.brand = 'Nike'
-          else if (brandLower === 'adidas') cleaned.brand = 'Adidas'
-          else if (brandLower === 'jordan' || brandLower === 'air jordan') cleaned.brand = 'Jordan'
-          else if (brandLower === 'new balance' || brandLower === 'nb') cleaned.brand = 'New Balance'
-          else if (brandLower === 'puma') cleaned.brand = 'Puma'
-          else if (brandLower === 'reebok') cleaned.brand = 'Reebok'
-          else if (brandLower === 'vans') cleaned.brand = 'Vans'
-          else if (brandLower === 'converse') cleaned.brand = 'Converse'
-        }
-        
-        // Normalize size to standard format (S, M, L, XL, XXL, XXXL)
-        if (cleaned.size) {
-          const sizeUpper = cleaned.size.toUpperCase().trim()
-          // If it's already a valid size, use it
-          if (['S', 'M', 'L', 'XL', 'XXL', 'XXXL'].includes(sizeUpper)) {
-            cleaned.size = sizeUpper as 'S' | 'M' | 'L' | 'XL' | 'XXL' | 'XXXL'
-          } else {
-            // Try to convert numeric size to letter size
-            const numericMatch = sizeUpper.match(/(\d+\.?\d*)/)
-            if (numericMatch) {
-              const numericSize = parseFloat(numericMatch[1])
-              // Convert shoe size to clothing size
-              if (numericSize <= 6) cleaned.size = 'S'
-              else if (numericSize <= 8) cleaned.size = 'M'
-              else if (numericSize <= 10) cleaned.size = 'L'
-              else if (numericSize <= 12) cleaned.size = 'XL'
-              else if (numericSize <= 14) cleaned.size = 'XXL'
-              else cleaned.size = 'XXXL'
-            } else {
-              // If we can't determine, remove the size field
-              delete cleaned.size
-            }
-          }
-        }
-        
-        // Ensure size and variant are mutually exclusive
-        // If both are present, prioritize size for apparel, variant for non-apparel
-        if (cleaned.size && cleaned.variant) {
-          // If we have a size, it's likely apparel - remove variant
-          // If we have a variant, it's likely non-apparel - remove size
-          // Keep the one that makes more sense based on the product type
-          const modelLower = (cleaned.model || '').toLowerCase()
-          const isApparel = modelLower.includes('shoe') || 
-                          modelLower.includes('sneaker') || 
-                          modelLower.includes('shirt') || 
-                          modelLower.includes('pants') ||
-                          modelLower.includes('jacket') ||
-                          modelLower.includes('hoodie')
-          
-          if (isApparel) {
-            delete cleaned.variant
-          } else {
-            delete cleaned.size
-          }
-        }
-        
-        // Clean up variant field
-        if (cleaned.variant) {
-          cleaned.variant = cleaned.variant.trim()
-          // Remove variant from cleanedName if it's there
-          if (cleaned.cleanedName && cleaned.variant) {
-            const variantRegex = new RegExp(`\\b${cleaned.variant}\\b`, 'gi')
-            cleaned.cleanedName = cleaned.cleanedName.replace(variantRegex, '').replace(/\s+/g, ' ').trim()
-          }
-        }
-        
-        // Validate required fields
-        if (!cleaned.cleanedName || !cleaned.brand || !cleaned.model) {
-          console.warn('AI response missing required fields:', cleaned)
-          return null
-        }
-      } else {
-        throw new Error('No JSON found in response')
-      }
-    } catch (parseError) {
-      console.warn('Failed to parse AI response as JSON:', content, parseError)
-      return null
-    }
+You will receive a JSON array of products, each {{"index": number, "name": string}}.
+Return one entry in "results" per product, with the product's "index".
 
-    // Additional validation: Ensure cleanedName doesn't contain size info
-    if (cleaned.cleanedName) {
-      // Double-check for size patterns that might have been missed
-      const sizePatterns = [
-        /\s+Size\s+\d+/i,
-        /\s+\d+[yYwWmM]\s*/,
-        /\s+\(\d+[^)]*\)/,
-        /\s+\d+\.?\d*\s*$/,
-      ]
-      
-      for (const pattern of sizePatterns) {
-        if (pattern.test(cleaned.cleanedName)) {
-          cleaned.cleanedName = cleaned.cleanedName.replace(pattern, '').trim()
-        }
-      }
-      
-      // Ensure cleanedName is properly formatted
-      cleaned.cleanedName = cleaned.cleanedName
-        .replace(/\s+/g, ' ')
-        .trim()
-    }
-    
-    // Validate confidence based on extracted data quality
-    if (cleaned.confidence === 'high' && (!cleaned.brand || !cleaned.model)) {
-      cleaned.confidence = 'medium'
-    }
-    
-    // If we got good results, cache the cleaned name
-    if (cleaned.cleanedName && cleaned.cleanedName !== originalName && cleaned.confidence !== 'low') {
-      setCachedHFImprovement(originalName, cleaned.cleanedName)
-    }
+${FIELD_RULES}
+- Use null for any optional field that doesn't apply
+- Clean every product on its own and return each input "index" exactly once`
 
-    return cleaned
-  } catch (error) {
-    console.warn('AI cleaning failed:', error)
-    return null
+/**
+ * Strict JSON schema response format for a zod schema
+ * Sent as plain JSON schema so responses are validated (and rejections counted) here instead of by the client
+ */
+function toResponseFormat(name: string, schema: z.ZodType) {
+  const jsonSchema = z.toJSONSchema(schema)
+  delete jsonSchema.$schema
+  return {
+    type: 'json_schema' as const,
+    json_schema: { name, strict: true, schema: jsonSchema },
   }
 }
 
 /**
- * Batch clean multiple product names efficiently
- * Uses parallel processing with rate limiting to stay cost-effective
+ * Prompt for providers without chat messages or structured output (plain text generation)
+ */
+export function getCleaningPromptText(originalName: string): string {
+  // Un-escape the ChatPromptTemplate braces in the examples
+  const instructions = SINGLE_SYSTEM_PROMPT.replace(/\{\{/g, '{').replace(/\}\}/g, '}')
+  return `${instructions}
+
+Return ONLY a JSON object matching this JSON schema:
+${JSON.stringify(toResponseFormat('cleaned_product', cleanedProductSchema).json_schema.schema)}
+
+Product name: ${originalName}`
+}
+
+/**
+ * Parse a response's JSON content and validate it against a schema
+ */
+function parseResponse<T>(
+  content: unknown,
+  schema: z.ZodType<T>
+): { success: true; data: T } | { success: false; reason: CleaningRejectionReason; detail: unknown } {
+  let json: unknown
+  try {
+    json = JSON.parse(typeof content === 'string' ? content : '')
+  } catch {
+    return { success: false, reason: 'invalid_json', detail: content }
+  }
+
+  const result = schema.safeParse(json)
+  if (!result.success) {
+    return { success: false, reason: 'schema_mismatch', detail: z.prettifyError(result.error) }
+  }
+  return { success: true, data: result.data }
+}
+
+/**
+ * Escape text for use inside a regular expression (model output can contain "+", "(" or "?")
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Normalize one validated AI result
+ * Returns null when required fields are empty
  */
-export async function batchCleanProductNames(
-  productNames: string[],
-  batchSize: number = 10,
-  delayMs: number = 100
-): Promise<(CleanedProductData | null)[]> {
-  if (!model || !OPENAI_API_KEY) {
-    return productNames.map(() => null)
+function normalizeCleanedProduct(output: CleanedProductOutput): CleanedProductData | null {
+  const cleaned: CleanedProductData = {
+    cleanedName: output.cleanedName,
+    brand: output.brand,
+    model: output.model,
+    size: output.size ?? undefined,
+    variant: output.variant ?? undefined,
+    colorway: output.colorway ?? undefined,
+    confidence: output.confidence,
   }
 
-  const results: (CleanedProductData | null)[] = []
+  // Post-process: Clean up the cleanedName (remove size info if AI missed it)
+  if (cleaned.cleanedName) {
+    cleaned.cleanedName = cleaned.cleanedName
+      .replace(/\s+Size\s+\d+[^\s]*/gi, '')
+      .replace(/\s+\d+[yYwWmM]\s*/g, ' ')
+      .replace(/\s+\(\d+[^)]*\)/g, '')
+      .replace(/\s+VNDS\s*/gi, '')
+      .replace(/\s+Used\s*/gi, '')
+      .replace(/\s+USED\s*/gi, '')
+      .replace(/\s+NO BOX\s*/gi, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+  }
   
-  // Process in batches to avoid rate limits
-  for (let i = 0; i < productNames.length; i += batchSize) {
-    const batch = productNames.slice(i, i + batchSize)
-    
-    // Process batch in parallel
-    const batchPromises = batch.map((name) => cleanProductNameWithAI(name))
-    const batchResults = await Promise.all(batchPromises)
+  // Normalize brand names and aliases ("nb" -> "New Balance", "Yeezy" -> "Adidas")
+  if (cleaned.brand) {
+    cleaned.brand = getCanonicalBrand(cleaned.brand)
+  }
+  
+  // Normalize size to its label ("10.5", "6.5W", "5Y", "8C" or S-XXXL for apparel)
+  if (cleaned.size) {
+    const size = parseSize(cleaned.size)
+    if (size) {
+      cleaned.size = size.label
+    } else {
+      // If we can't determine, remove the size field
+      delete cleaned.size
+    }
+  }
+  
+  // Normalize the style code ("dd1391 100" -> "DD1391-100")
+  const styleCode = parseStyleCode(output.styleCode ?? undefined)
+  if (styleCode) {
+    cleaned.styleCode = styleCode
+  }
+
+  // Normalize condition/packaging - the model returns condition as text ("VNDS", "Used 8/10")
+  const condition = parseCondition(output.condition ?? undefined)
+  const packaging = parsePackaging(output.packaging ?? undefined)
+  if (condition) {
+    cleaned.condition = condition
+  }
+  if (packaging) {
+    cleaned.packaging = packaging
+  }
+
+  // Ensure size and variant are mutually exclusive
+  // If both are present, keep the size for sneakers and apparel, the variant for everything else
+  if (cleaned.size && cleaned.variant) {
+    // Any numeric size ("10.5", "6.5W", "5Y") is a sneaker size, whatever the model is called ("Dunk Low")
+    const isSneakerSize = parseSize(cleaned.size)?.system !== 'apparel'
+    const modelLower = (cleaned.model || '').toLowerCase()
+    const isApparel = modelLower.includes('shirt') ||
+                    modelLower.includes('pants') ||
+                    modelLower.includes('jacket') ||
+                    modelLower.includes('hoodie')
     
-    results.push(...batchResults)
+    if (isSneakerSize || isApparel) {
+      delete cleaned.variant
+    } else {
+      delete cleaned.size
+    }
+  }
+  
+  // Clean up variant field
+  if (cleaned.variant) {
+    cleaned.variant = cleaned.variant.trim()
+    // Remove variant from cleanedName if it's there
+    if (cleaned.cleanedName && cleaned.variant) {
+      const variantRegex = new RegExp(`\\b${escapeRegExp(cleaned.variant)}\\b`, 'gi')
+      cleaned.cleanedName = cleaned.cleanedName.replace(variantRegex, '').replace(/\s+/g, ' ').trim()
+    }
+  }
+  
+  // Validate required fields
+  if (!cleaned.cleanedName || !cleaned.brand || !cleaned.model) {
+    return null
+  }
+
+  // Additional validation: Ensure cleanedName doesn't contain size info
+  if (cleaned.cleanedName) {
+    // Double-check for size patterns that might have been missed
+    const sizePatterns = [
+      /\s+Size\s+\d+/i,
+      /\s+\d+[yYwWmM]\s*/,
+      /\s+\(\d+[^)]*\)/,
+      /\s+\d+\.?\d*\s*$/,
+    ]
     
-    // Small delay between batches to respect rate limits
-    if (i + batchSize < productNames.length) {
-      await new Promise((resolve) => setTimeout(resolve, delayMs))
+    for (const pattern of sizePatterns) {
+      if (pattern.test(cleaned.cleanedName)) {
+        cleaned.cleanedName = cleaned.cleanedName.replace(pattern, '').trim()
+      }
     }
+    
+    // Ensure cleanedName is properly formatted
+    cleaned.cleanedName = cleaned.cleanedName
+      .replace(/\s+/g, ' ')
+      .trim()
   }
   
-  return results
+  // Validate confidence based on extracted data quality
+  if (cleaned.confidence === 'high' && (!cleaned.brand || !cleaned.model)) {
+    cleaned.confidence = 'medium'
+  }
+
+  return cleaned
 }
 
 /**
- * Clean product name with fallback to original parsing
- * Returns the best available cleaned data
+ * Cleaned data back in the model's response format (nulls for missing fields, condition as text)
  */
-export async function cleanProductNameSafe(
-  originalName: string
-): Promise<{
-  cleanedName: string
-  brand: string
+export function toCleanedProductOutput(cleaned: CleanedProductData): CleanedProductOutput {
+  return {
+    cleanedName: cleaned.cleanedName,
+    brand: cleaned.brand,
+    model: cleaned.model,
+    size: cleaned.size ?? null,
+    variant: cleaned.variant ?? null,
+    colorway: cleaned.colorway ?? null,
+    styleCode: cleaned.styleCode ?? null,
+    condition: cleaned.condition?.label ?? null,
+    packaging: cleaned.packaging ?? null,
+    confidence: cleaned.confidence,
+  }
+}
+
+/**
+ * Validate cleaned data that went through a client (e.g. the AI suggestion shown in the review queue)
+ * against cleanedProductSchema and normalize it again; null when it doesn't match
+ */
+export function parseCleanedProductData(value: unknown): CleanedProductData | null {
+  if (typeof value !== 'object' || value === null) return null
+  const data = value as Record<string, unknown>
+  const condition = data.condition
+
+  const result = cleanedProductSchema.safeParse({
+    ...data,
+    size: data.size ?? null,
+    variant: data.variant ?? null,
+    colorway: data.colorway ?? null,
+    styleCode: data.styleCode ?? null,
+    // Normalized data carries the parsed condition; the schema expects its text
+    condition: (typeof condition === 'object' && condition !== null ? (condition as { label?: unknown }).label : condition) ?? null,
+    packaging: data.packaging ?? null,
+  })
+  return result.success ? normalizeCleanedProduct(result.data) : null
+}
+
+/**
+ * Remember a good cleaned name for the HuggingFace/AI improvement cache
+ */
+async function cacheCleanedName(originalName: string, cleaned: CleanedProductData): Promise<void> {
+  if (cleaned.cleanedName && cleaned.cleanedName !== originalName && cleaned.confidence !== 'low') {
+    await setCachedHFImprovement(originalName, cleaned.cleanedName)
+  }
+}
+
+/**
+ * Normalize a validated result, count it, and cache the cleaned name
+ */
+async function acceptCleanedProduct(
+  originalName: string,
+  output: CleanedProductOutput
+): Promise<CleanedProductData | null> {
+  const cleaned = normalizeCleanedProduct(output)
+  if (!cleaned) {
+    recordCleaningRejection('missing_required_fields', originalName, output)
+    return null
+  }
+
+  cleaningStats.accepted++
+  await cacheCleanedName(originalName, cleaned)
+  return cleaned
+}
+
+/**
+ * Validate a raw response (JSON text) for one product and normalize it
+ * Rejections are logged and counted
+ */
+export async function parseCleanedProductResponse(
+  originalName: string,
+  content: unknown
+): Promise<CleanedProductData | null> {
+  const parsed = parseResponse(content, cleanedProductSchema)
+  if (!parsed.success) {
+    recordCleaningRejection(parsed.reason, originalName, parsed.detail)
+    return null
+  }
+  return acceptCleanedProduct(originalName, parsed.data)
+}
+
+export interface ChatModelCleanerOptions {
+  provider: 'openai' | 'local'
   model: string
-  size?: 'S' | 'M' | 'L' | 'XL' | 'XXL' | 'XXXL'
-  variant?: string
-}> {
-  const aiResult = await cleanProductNameWithAI(originalName)
-  
-  if (aiResult && aiResult.confidence !== 'low') {
-    return {
-      cleanedName: aiResult.cleanedName,
-      brand: aiResult.brand,
-      model: aiResult.model,
-      size: aiResult.size,
-      variant: aiResult.variant,
+  apiKey: string
+  baseURL?: string // OpenAI-compatible endpoint (llama.cpp, Ollama, vLLM); defaults to OpenAI
+}
+
+/**
+ * Name cleaner backed by an OpenAI-compatible chat model with structured output
+ */
+export function createChatModelCleaner(options: ChatModelCleanerOptions): ProductNameCleaner {
+  const createModel = (maxTokens: number) =>
+    new ChatOpenAI({
+      model: options.model,
+      temperature: 0.1, // Very low temperature for consistent, accurate parsing
+      maxTokens,
+      apiKey: options.apiKey,
+      configuration: options.baseURL ? { baseURL: options.baseURL } : undefined,
+    })
+
+  // Structured output: the API constrains responses to the schemas above
+  const model = createModel(MAX_TOKENS_PER_NAME).withConfig({
+    response_format: toResponseFormat('cleaned_product', cleanedProductSchema),
+  })
+  const batchModel = createModel(MAX_TOKENS_PER_NAME * MAX_BATCH_SIZE).withConfig({
+    response_format: toResponseFormat('cleaned_products', batchResultSchema),
+  })
+
+  /**
+   * Clean and normalize a single product name
+   */
+  async function cleanName(originalName: string): Promise<CleanedProductData | null> {
+    let content: unknown
+    try {
+      const prompt = ChatPromptTemplate.fromMessages([
+        ['system', SINGLE_SYSTEM_PROMPT],
+        ['human', 'Product name: {name}'],
+      ])
+
+      const response = await prompt.pipe(model).invoke({
+        name: originalName,
+      })
+      content = response.content
+    } catch (error) {
+      recordCleaningRejection('request_failed', originalName, error)
+      return null
     }
+
+    return parseCleanedProductResponse(originalName, content)
   }
-  
-  // Fallback to original name if AI fails
+
+  /**
+   * Clean several product names in one request, so the system prompt is sent once
+   * Results are matched back by index; entries that are missing or fail validation are retried one by one
+   */
+  async function cleanNames(names: string[]): Promise<(CleanedProductData | null)[]> {
+    if (names.length === 0) {
+      return []
+    }
+    if (names.length === 1) {
+      return [await cleanName(names[0])]
+    }
+
+    const results: (CleanedProductData | null)[] = names.map(() => null)
+    const label = `batch of ${names.length}`
+
+    let content: unknown
+    try {
+      const prompt = ChatPromptTemplate.fromMessages([
+        ['system', BATCH_SYSTEM_PROMPT],
+        ['human', 'Products: {products}'],
+      ])
+
+      const response = await prompt.pipe(batchModel).invoke({
+        products: JSON.stringify(names.map((name, index) => ({ index, name }))),
+      })
+      content = response.content
+    } catch (error) {
+      recordCleaningRejection('request_failed', label, error)
+    }
+
+    if (content !== undefined) {
+      const parsed = parseResponse(content, batchResultSchema)
+      if (parsed.success) {
+        const seen = new Set<number>()
+        for (const { index, ...output } of parsed.data.results) {
+          if (index < 0 || index >= names.length || seen.has(index)) continue // Keep the first result for a repeated index
+          seen.add(index)
+          results[index] = await acceptCleanedProduct(names[index], output)
+        }
+        for (let index = 0; index < names.length; index++) {
+          if (!seen.has(index)) recordCleaningRejection('missing_from_batch', names[index])
+        }
+      } else {
+        recordCleaningRejection(parsed.reason, label, parsed.detail)
+      }
+    }
+
+    // Per-item fallback for anything the batch didn't return or that failed validation
+    return Promise.all(results.map((result, index) => result ?? cleanName(names[index])))
+  }
+
   return {
-    cleanedName: originalName,
-    brand: '',
-    model: originalName,
-    size: undefined,
-    variant: undefined,
+    provider: options.provider,
+    version: `${options.provider}:${options.model}:prompt-${CLEANING_PROMPT_VERSION}`,
+    cleanName,
+    cleanNames,
   }
 }
-
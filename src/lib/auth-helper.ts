@@ -1,17 +1,21 @@
+import { getEnv } from './env'
+
 /**
  * Helper to get user ID from request
- * Works with Clerk authentication via cookies or headers
+ * Works with Clerk authentication via cookies or headers (needs CLERK_SECRET_KEY and the publishable key)
  */
 export async function getUserIdFromRequest(request: Request): Promise<string | null> {
   try {
-    const { clerkClient } = await import('@clerk/backend')
-    
-    // Authenticate request - Clerk will handle both cookies and headers
-    const auth = await clerkClient().authenticateRequest({
-      request,
+    const { createClerkClient } = await import('@clerk/backend')
+    const clerk = createClerkClient({
+      secretKey: getEnv('CLERK_SECRET_KEY'),
+      publishableKey: getEnv('VITE_CLERK_PUBLISHABLE_KEY') || getEnv('CLERK_PUBLISHABLE_KEY'),
     })
-    
-    return auth?.userId || null
+
+    // Authenticate request - Clerk will handle both cookies and headers
+    const state = await clerk.authenticateRequest(request)
+
+    return state.isSignedIn ? state.toAuth().userId : null
   } catch (error) {
     // Request is not authenticated or authentication failed
     // This is expected for unauthenticated users
@@ -19,3 +23,28 @@ export async function getUserIdFromRequest(request: Request): Promise<string | n
   }
 }
 
+/**
+ * Result of checking a request for admin access: the admin's user ID, or the status and error to respond with
+ */
+export type AdminAuthorization = { userId: string } | { status: 401 | 403; error: string }
+
+/**
+ * Whether the request comes from a store admin
+ * Admins are the Clerk user IDs listed in ADMIN_USER_IDS (comma-separated)
+ * Signed-out callers get a 401, signed-in users who aren't admins a 403
+ */
+export async function authorizeAdmin(request: Request): Promise<AdminAuthorization> {
+  const userId = await getUserIdFromRequest(request)
+  if (!userId) {
+    return { status: 401, error: 'Unauthenticated' }
+  }
+
+  const adminIds = (getEnv('ADMIN_USER_IDS') || '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean)
+  if (!adminIds.includes(userId)) {
+    return { status: 403, error: 'Forbidden' }
+  }
+  return { userId }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { getBrandOrder, getCanonicalBrand, isKnownBrand, matchBrandPrefix } from './brands'
+
+describe('brand registry', () => {
+  it('maps aliases and model lines to the canonical brand', () => {
+    expect(getCanonicalBrand('nb')).toBe('New Balance')
+    expect(getCanonicalBrand('Air  Jordan')).toBe('Jordan')
+    expect(getCanonicalBrand('yeezy')).toBe('Adidas')
+    expect(getCanonicalBrand('Essentials')).toBe('Fear of God')
+  })
+
+  it('keeps unknown brands as typed', () => {
+    expect(getCanonicalBrand(' Pop Mart ')).toBe('Pop Mart')
+    expect(isKnownBrand('Pop Mart')).toBe(false)
+  })
+
+  it('matches the longest brand or model line at the start of a name', () => {
+    expect(matchBrandPrefix(['A', 'Bathing', 'Ape', 'Tee'])).toMatchObject({ brand: { name: 'Bape' }, wordCount: 3 })
+    expect(matchBrandPrefix(['SB', 'Dunk', 'Low'])).toMatchObject({
+      brand: { name: 'Nike' },
+      modelLine: { name: 'SB Dunk' },
+      wordCount: 2,
+    })
+    expect(matchBrandPrefix(['Labubu', 'Macaron'])).toBeNull()
+  })
+
+  it('lists brands in registry order, unknown brands last', () => {
+    expect(getBrandOrder('Nike')).toBeLessThan(getBrandOrder('Jordan'))
+    expect(getBrandOrder('Pop Mart')).toBeGreaterThan(getBrandOrder('Fear of God'))
+  })
+})
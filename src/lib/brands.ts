@@ -0,0 +1,111 @@
+/**
+ * Brand registry: canonical brand names, their aliases, parent brands and model lines
+ * (e.g. "Dunk" -> Nike, "Yeezy" -> Adidas, "Bapesta" -> Bape)
+ * Edit src/data/brands.json to add brands; the parser, AI cleaner, catalog matching and brand pages all read it
+ */
+
+import brandData from '../data/brands.json'
+
+export interface ModelLine {
+  name: string
+  aliases?: string[] // Lower case
+}
+
+export interface BrandEntry {
+  name: string // Canonical name, used for display and /shop/$brand
+  aliases?: string[] // Lower case, e.g. "nb", "air jordan"
+  parentBrand?: string // e.g. Jordan is a Nike brand
+  logoUrl?: string
+  modelLines?: ModelLine[]
+}
+
+export const BRANDS: BrandEntry[] = brandData
+
+// Longest alias, in words ("a bathing ape")
+const MAX_ALIAS_WORDS = 3
+
+interface AliasMatch {
+  brand: BrandEntry
+  modelLine?: ModelLine
+}
+
+function normalizeAlias(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+// Brand names and aliases first, so a model line can't shadow a brand
+const aliasIndex = new Map<string, AliasMatch>()
+for (const brand of BRANDS) {
+  for (const alias of [brand.name, ...(brand.aliases || [])]) {
+    aliasIndex.set(normalizeAlias(alias), { brand })
+  }
+}
+for (const brand of BRANDS) {
+  for (const modelLine of brand.modelLines || []) {
+    for (const alias of [modelLine.name, ...(modelLine.aliases || [])]) {
+      const key = normalizeAlias(alias)
+      if (!aliasIndex.has(key)) aliasIndex.set(key, { brand, modelLine })
+    }
+  }
+}
+
+/**
+ * Brand for a brand name, alias or model line ("nb", "Air Jordan", "Yeezy")
+ */
+export function findBrand(text: string): BrandEntry | undefined {
+  return aliasIndex.get(normalizeAlias(text))?.brand
+}
+
+/**
+ * Canonical brand name; unknown brands are returned as given (trimmed)
+ */
+export function getCanonicalBrand(brand: string): string {
+  return findBrand(brand)?.name ?? brand.trim()
+}
+
+export function isKnownBrand(brand: string): boolean {
+  return findBrand(brand) !== undefined
+}
+
+/**
+ * Position in the registry, for listing brands in a stable order (unknown brands sort last)
+ */
+export function getBrandOrder(brand: string): number {
+  const entry = findBrand(brand)
+  return entry ? BRANDS.indexOf(entry) : BRANDS.length
+}
+
+/**
+ * Match the leading words of a name against brand and model line aliases (longest match wins)
+ * e.g. ["New", "Balance", "550"] -> New Balance (2 words), ["Af1", "Ambush"] -> Nike / Air Force 1 (1 word)
+ */
+export function matchBrandPrefix(
+  words: string[]
+): { brand: BrandEntry; modelLine?: ModelLine; wordCount: number } | null {
+  for (let wordCount = Math.min(MAX_ALIAS_WORDS, words.length); wordCount > 0; wordCount--) {
+    const match = aliasIndex.get(normalizeAlias(words.slice(0, wordCount).join(' ')))
+    if (match) {
+      return { ...match, wordCount }
+    }
+  }
+  return null
+}
+
+/**
+ * Prompt-ready alias rules, e.g. - "af1", "af" → Brand: "Nike", Model includes "Air Force 1"
+ */
+export function describeBrandAliases(): string {
+  const quote = (aliases: string[]) => aliases.map((alias) => `"${alias}"`).join(', ')
+  const lines: string[] = []
+  for (const brand of BRANDS) {
+    if (brand.aliases?.length) {
+      lines.push(`- ${quote(brand.aliases)} → "${brand.name}"`)
+    }
+    for (const modelLine of brand.modelLines || []) {
+      if (modelLine.aliases?.length) {
+        lines.push(`- ${quote(modelLine.aliases)} → Brand: "${brand.name}", Model includes "${modelLine.name}"`)
+      }
+    }
+  }
+  return lines.join('\n')
+}
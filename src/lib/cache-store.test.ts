@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createFileCacheStore, createMemoryCacheStore, createTieredCacheStore } from './cache-store'
+
+const START = new Date('2026-01-01T00:00:00Z')
+const HOUR = 60 * 60 * 1000
+
+describe('file cache store', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'cache-store-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('persists entries across store instances', async () => {
+    const filePath = join(dir, 'cache.json')
+    const first = createFileCacheStore(filePath)
+    await first.set('inventory:raw', { items: ['a'] }, HOUR)
+    await first.set('enrichment:a', { name: 'Dunk Low' }, HOUR)
+
+    const second = createFileCacheStore(filePath)
+    expect((await second.get('inventory:raw'))?.value).toEqual({ items: ['a'] })
+
+    await second.clear('enrichment:')
+    expect(await second.get('enrichment:a')).toBeNull()
+    expect(await createFileCacheStore(filePath).get('enrichment:a')).toBeNull()
+  })
+
+  it('drops expired entries', async () => {
+    const store = createFileCacheStore(join(dir, 'cache.json'))
+    await store.set('key', 'value', -1)
+
+    expect(await store.get('key')).toBeNull()
+  })
+})
+
+describe('tiered cache store', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(START)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('reads writes from other instances once the memory copy expires', async () => {
+    const persistent = createMemoryCacheStore()
+    const instanceA = createTieredCacheStore(persistent, 5000)
+    const instanceB = createTieredCacheStore(persistent, 5000)
+
+    await instanceA.set('inventory:raw', 'v1', HOUR)
+    expect((await instanceB.get('inventory:raw'))?.value).toBe('v1')
+
+    // A webhook on instance A patches the snapshot
+    await instanceA.set('inventory:raw', 'v2', HOUR)
+    expect((await instanceB.get('inventory:raw'))?.value).toBe('v1')
+
+    vi.setSystemTime(START.getTime() + 5000)
+    expect((await instanceB.get('inventory:raw'))?.value).toBe('v2')
+  })
+
+  it('keeps the persistent expiry on memory hits', async () => {
+    const store = createTieredCacheStore(createMemoryCacheStore(), 5000)
+    await store.set('key', 'value', HOUR)
+
+    expect(await store.get('key')).toEqual({ value: 'value', expiresAt: START.getTime() + HOUR })
+  })
+})
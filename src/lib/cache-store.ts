@@ -0,0 +1,318 @@
+/**
+ * Pluggable key/value cache backends for inventory and enrichment caching
+ * Selected with CACHE_BACKEND: "memory" (default), "supabase", "kv" or "file"
+ * Persistent backends sit behind a short-lived in-memory tier so hot reads stay local
+ */
+
+import { getEnv } from './env'
+
+export interface CacheStoreEntry<T> {
+  value: T
+  expiresAt: number
+}
+
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheStoreEntry<T> | null>
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>
+  delete(key: string): Promise<void>
+  // Remove all keys starting with prefix (or everything if omitted)
+  clear(prefix?: string): Promise<void>
+}
+
+/**
+ * Minimal subset of a Cloudflare KV namespace binding
+ */
+export interface KVNamespaceLike {
+  get(key: string, type: 'json'): Promise<unknown>
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>
+  delete(key: string): Promise<void>
+  list(options?: { prefix?: string; cursor?: string }): Promise<{
+    keys: { name: string }[]
+    list_complete: boolean
+    cursor?: string
+  }>
+}
+
+/**
+ * In-memory store (per server instance, lost on cold start)
+ */
+export function createMemoryCacheStore(): CacheStore {
+  const entries = new Map<string, CacheStoreEntry<unknown>>()
+
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key)
+      if (!entry) return null
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key)
+        return null
+      }
+      return entry as CacheStoreEntry<T>
+    },
+    async set<T>(key: string, value: T, ttlMs: number) {
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs })
+    },
+    async delete(key: string) {
+      entries.delete(key)
+    },
+    async clear(prefix?: string) {
+      if (!prefix) {
+        entries.clear()
+        return
+      }
+      for (const key of Array.from(entries.keys())) {
+        if (key.startsWith(prefix)) entries.delete(key)
+      }
+    },
+  }
+}
+
+/**
+ * Supabase-table store
+ * Expects a table:
+ *   create table "CacheEntry" (
+ *     "key" text primary key,
+ *     "value" jsonb not null,
+ *     "expiresAt" timestamptz not null
+ *   );
+ */
+export function createSupabaseCacheStore(tableName: string = 'CacheEntry'): CacheStore {
+  // Imported lazily so other backends don't require Supabase env vars
+  const getClient = async () => (await import('./supabase-admin')).supabaseAdmin
+
+  return {
+    async get<T>(key: string) {
+      const supabase = await getClient()
+      const { data, error } = await supabase
+        .from(tableName)
+        .select('value, expiresAt')
+        .eq('key', key)
+        .maybeSingle()
+
+      if (error) {
+        console.warn(`Cache read failed for ${key}:`, error.message)
+        return null
+      }
+      if (!data) return null
+
+      const expiresAt = new Date(data.expiresAt).getTime()
+      if (expiresAt <= Date.now()) {
+        await supabase.from(tableName).delete().eq('key', key)
+        return null
+      }
+
+      return { value: data.value as T, expiresAt }
+    },
+    async set<T>(key: string, value: T, ttlMs: number) {
+      const supabase = await getClient()
+      const { error } = await supabase.from(tableName).upsert({
+        key,
+        value,
+        expiresAt: new Date(Date.now() + ttlMs).toISOString(),
+      })
+
+      if (error) {
+        console.warn(`Cache write failed for ${key}:`, error.message)
+      }
+    },
+    async delete(key: string) {
+      const supabase = await getClient()
+      await supabase.from(tableName).delete().eq('key', key)
+    },
+    async clear(prefix?: string) {
+      const supabase = await getClient()
+      await supabase.from(tableName).delete().like('key', `${prefix || ''}%`)
+    },
+  }
+}
+
+/**
+ * Cloudflare KV-style store
+ * KV's own expiry has a 60s minimum, so expiresAt is also stored alongside the value
+ */
+export function createKVCacheStore(namespace: KVNamespaceLike): CacheStore {
+  return {
+    async get<T>(key: string) {
+      const entry = (await namespace.get(key, 'json')) as CacheStoreEntry<T> | null
+      if (!entry) return null
+      if (entry.expiresAt <= Date.now()) {
+        await namespace.delete(key)
+        return null
+      }
+      return entry
+    },
+    async set<T>(key: string, value: T, ttlMs: number) {
+      const entry: CacheStoreEntry<T> = { value, expiresAt: Date.now() + ttlMs }
+      await namespace.put(key, JSON.stringify(entry), {
+        expirationTtl: Math.max(60, Math.ceil(ttlMs / 1000)),
+      })
+    },
+    async delete(key: string) {
+      await namespace.delete(key)
+    },
+    async clear(prefix?: string) {
+      let cursor: string | undefined
+      do {
+        const page = await namespace.list({ prefix, cursor })
+        await Promise.all(page.keys.map((k) => namespace.delete(k.name)))
+        cursor = page.list_complete ? undefined : page.cursor
+      } while (cursor)
+    },
+  }
+}
+
+/**
+ * Local JSON-file store (for tests and local development)
+ * The whole file is loaded once and rewritten on every change
+ */
+export function createFileCacheStore(filePath: string): CacheStore {
+  let entries: Record<string, CacheStoreEntry<unknown>> | null = null
+  // Serialize writes so concurrent sets don't interleave
+  let writeQueue: Promise<void> = Promise.resolve()
+
+  const load = async () => {
+    if (entries) return entries
+    const fs = await import('node:fs/promises')
+    try {
+      entries = JSON.parse(await fs.readFile(filePath, 'utf-8'))
+    } catch {
+      entries = {}
+    }
+    return entries!
+  }
+
+  const persist = () => {
+    writeQueue = writeQueue.then(async () => {
+      const fs = await import('node:fs/promises')
+      const path = await import('node:path')
+      await fs.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.writeFile(filePath, JSON.stringify(entries))
+    })
+    return writeQueue
+  }
+
+  return {
+    async get<T>(key: string) {
+      const data = await load()
+      const entry = data[key]
+      if (!entry) return null
+      if (entry.expiresAt <= Date.now()) {
+        delete data[key]
+        await persist()
+        return null
+      }
+      return entry as CacheStoreEntry<T>
+    },
+    async set<T>(key: string, value: T, ttlMs: number) {
+      const data = await load()
+      data[key] = { value, expiresAt: Date.now() + ttlMs }
+      await persist()
+    },
+    async delete(key: string) {
+      const data = await load()
+      delete data[key]
+      await persist()
+    },
+    async clear(prefix?: string) {
+      const data = await load()
+      for (const key of Object.keys(data)) {
+        if (!prefix || key.startsWith(prefix)) delete data[key]
+      }
+      await persist()
+    },
+  }
+}
+
+// Other instances patch persistent entries (webhooks, delta syncs), so memory only
+// holds a copy briefly before reading the shared one again
+const MEMORY_TIER_TTL = 5 * 1000
+
+/**
+ * Put an in-memory tier in front of a persistent store
+ * Reads fall through to the persistent store and repopulate memory; writes go to both
+ * Memory copies expire after memoryTtlMs at most, so changes written elsewhere show up quickly
+ */
+export function createTieredCacheStore(persistent: CacheStore, memoryTtlMs: number = MEMORY_TIER_TTL): CacheStore {
+  // Memory holds the persistent entry itself so callers still see its real expiry
+  const memory = createMemoryCacheStore()
+  const remember = async <T>(key: string, entry: CacheStoreEntry<T>) => {
+    const ttlMs = Math.min(entry.expiresAt - Date.now(), memoryTtlMs)
+    if (ttlMs > 0) {
+      await memory.set(key, entry, ttlMs)
+    }
+  }
+
+  return {
+    async get<T>(key: string) {
+      const local = await memory.get<CacheStoreEntry<T>>(key)
+      if (local) return local.value
+
+      const remote = await persistent.get<T>(key)
+      if (remote) {
+        await remember(key, remote)
+      }
+      return remote
+    },
+    async set<T>(key: string, value: T, ttlMs: number) {
+      await remember(key, { value, expiresAt: Date.now() + ttlMs })
+      await persistent.set(key, value, ttlMs)
+    },
+    async delete(key: string) {
+      await memory.delete(key)
+      await persistent.delete(key)
+    },
+    async clear(prefix?: string) {
+      await memory.clear(prefix)
+      await persistent.clear(prefix)
+    },
+  }
+}
+
+let cacheStore: CacheStore | null = null
+
+/**
+ * Get the configured cache store (created on first use)
+ */
+export function getCacheStore(): CacheStore {
+  if (!cacheStore) {
+    cacheStore = createConfiguredCacheStore()
+  }
+  return cacheStore
+}
+
+/**
+ * Override the cache store (e.g. with a KV binding from a Cloudflare worker, or in tests)
+ */
+export function setCacheStore(store: CacheStore): void {
+  cacheStore = store
+}
+
+/**
+ * Build the store selected by CACHE_BACKEND
+ */
+function createConfiguredCacheStore(): CacheStore {
+  const backend = (getEnv('CACHE_BACKEND') || 'memory').toLowerCase()
+
+  switch (backend) {
+    case 'supabase':
+      return createTieredCacheStore(createSupabaseCacheStore(getEnv('CACHE_SUPABASE_TABLE')))
+    case 'kv': {
+      const bindingName = getEnv('CACHE_KV_BINDING') || 'INVENTORY_CACHE'
+      const binding = (globalThis as Record<string, unknown>)[bindingName] as KVNamespaceLike | undefined
+      if (!binding) {
+        console.warn(`CACHE_BACKEND=kv but no KV binding named ${bindingName} was found, using memory`)
+        return createMemoryCacheStore()
+      }
+      return createTieredCacheStore(createKVCacheStore(binding))
+    }
+    case 'file':
+      return createTieredCacheStore(
+        createFileCacheStore(getEnv('CACHE_FILE_PATH') || '.cache/inventory-cache.json')
+      )
+    case 'memory':
+      return createMemoryCacheStore()
+    default:
+      console.warn(`Unknown CACHE_BACKEND "${backend}", using memory`)
+      return createMemoryCacheStore()
+  }
+}
@@ -1,20 +1,6 @@
 import { createServerFn } from '@tanstack/react-start'
 import type { CloverItem } from '../types/inventory'
-
-/**
- * Get environment variable (works in both server and client contexts)
- */
-function getEnv(key: string): string | undefined {
-  // Server-side: use process.env
-  if (typeof process !== 'undefined' && process.env) {
-    return process.env[key]
-  }
-  // Client-side: use import.meta.env
-  if (typeof import.meta !== 'undefined' && import.meta.env) {
-    return import.meta.env[key]
-  }
-  return undefined
-}
+import { getEnv } from './env'
 
 /**
  * Verify Clover API connection by testing merchant endpoint
@@ -167,10 +153,22 @@ async function fetchCloverInventoryPage(
   return items
 }
 
+/**
+ * Options for fetching Clover inventory
+ */
+export interface FetchCloverInventoryOptions {
+  // Only return items modified at or after this time (ms since epoch, Clover's clock)
+  modifiedSince?: number
+}
+
 /**
  * Internal function to fetch Clover inventory with pagination support
  */
-async function fetchCloverInventoryInternal(): Promise<CloverItem[]> {
+async function fetchCloverInventoryInternal(
+  options: FetchCloverInventoryOptions = {}
+): Promise<CloverItem[]> {
+  const { modifiedSince } = options
+  const isDelta = modifiedSince !== undefined
   const CLOVER_API_BASE_URL = getEnv('CLOVER_API_BASE_URL') || 'https://api.clover.com'
   const CLOVER_API_TOKEN = getEnv('CLOVER_API_TOKEN')
   const CLOVER_MERCHANT_ID = getEnv('CLOVER_MERCHANT_ID')
@@ -183,12 +181,10 @@ async function fetchCloverInventoryInternal(): Promise<CloverItem[]> {
     throw new Error('CLOVER_MERCHANT_ID environment variable is not set')
   }
 
-  // First, verify the connection works
-  const verification = await verifyCloverConnection(
-    CLOVER_API_BASE_URL,
-    CLOVER_API_TOKEN,
-    CLOVER_MERCHANT_ID
-  )
+  // First, verify the connection works (skipped for delta syncs - a full sync already verified it)
+  const verification = isDelta
+    ? { valid: true }
+    : await verifyCloverConnection(CLOVER_API_BASE_URL, CLOVER_API_TOKEN, CLOVER_MERCHANT_ID)
 
   if (!verification.valid) {
     throw new Error(
@@ -205,6 +201,10 @@ async function fetchCloverInventoryInternal(): Promise<CloverItem[]> {
   // We'll fetch in batches of 1000 using offset parameter
   const limit = 1000
   const baseUrl = `${CLOVER_API_BASE_URL}/v3/merchants/${CLOVER_MERCHANT_ID}/items`
+  // Delta syncs ask only for recently modified items, including deleted ones so they can be removed
+  const deltaQuery = isDelta
+    ? `&filter=${encodeURIComponent(`modifiedTime>=${modifiedSince}`)}&includeDeletedItems=true`
+    : ''
 
   try {
     const allItems: CloverItem[] = []
@@ -214,7 +214,7 @@ async function fetchCloverInventoryInternal(): Promise<CloverItem[]> {
 
     // Fetch all pages using offset pagination
     while (pageCount < maxPages) {
-      const url = `${baseUrl}?limit=${limit}&offset=${offset}`
+      const url = `${baseUrl}?limit=${limit}&offset=${offset}${deltaQuery}`
       
       try {
         const items = await fetchCloverInventoryPage(url, CLOVER_API_TOKEN)
@@ -237,7 +237,8 @@ async function fetchCloverInventoryInternal(): Promise<CloverItem[]> {
         }
       } catch (pageError) {
         // If first page fails, try without limit/offset to see if API supports it differently
-        if (pageCount === 0) {
+        // (not for delta syncs - dropping the filter would turn them into a full sync)
+        if (pageCount === 0 && !isDelta) {
           console.warn('Initial paginated request failed, trying without pagination parameters')
           try {
             const items = await fetchCloverInventoryPage(baseUrl, CLOVER_API_TOKEN)
@@ -255,7 +256,9 @@ async function fetchCloverInventoryInternal(): Promise<CloverItem[]> {
       console.warn(`Reached maximum page limit (${maxPages}). Some items may be missing.`)
     }
 
-    console.log(`Fetched ${allItems.length} items from Clover API across ${pageCount + 1} page(s)`)
+    console.log(
+      `Fetched ${allItems.length} ${isDelta ? 'modified ' : ''}items from Clover API across ${pageCount + 1} page(s)`
+    )
     return allItems
   } catch (error) {
     console.error('Error fetching Clover inventory:', error)
@@ -279,3 +282,48 @@ export async function fetchCloverInventoryServer(): Promise<CloverItem[]> {
   return fetchCloverInventoryInternal()
 }
 
+/**
+ * Fetch only items modified since the given time (server-side delta sync)
+ * Deleted items are included with `deleted: true`
+ */
+export async function fetchCloverInventoryChangesServer(modifiedSince: number): Promise<CloverItem[]> {
+  return fetchCloverInventoryInternal({ modifiedSince })
+}
+
+/**
+ * Fetch a single Clover item by ID (server-side)
+ * Returns null if the item no longer exists (deleted in Clover)
+ */
+export async function fetchCloverItemServer(itemId: string): Promise<CloverItem | null> {
+  const CLOVER_API_BASE_URL = getEnv('CLOVER_API_BASE_URL') || 'https://api.clover.com'
+  const CLOVER_API_TOKEN = getEnv('CLOVER_API_TOKEN')
+  const CLOVER_MERCHANT_ID = getEnv('CLOVER_MERCHANT_ID')
+
+  if (!CLOVER_API_TOKEN) {
+    throw new Error('CLOVER_API_TOKEN environment variable is not set')
+  }
+
+  if (!CLOVER_MERCHANT_ID) {
+    throw new Error('CLOVER_MERCHANT_ID environment variable is not set')
+  }
+
+  const url = `${CLOVER_API_BASE_URL}/v3/merchants/${CLOVER_MERCHANT_ID}/items/${encodeURIComponent(itemId)}`
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: {
+      Authorization: `Bearer ${CLOVER_API_TOKEN}`,
+      'Content-Type': 'application/json',
+    },
+  })
+
+  if (response.status === 404) {
+    return null
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`Clover API error fetching item ${itemId}: ${response.status} ${errorText}`)
+  }
+
+  return (await response.json()) as CloverItem
+}
@@ -0,0 +1,127 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createHmac } from 'node:crypto'
+import {
+  getCloverVerificationCode,
+  parseCloverItemChanges,
+  saveCloverVerificationCode,
+  verifyCloverWebhook,
+} from './clover-webhooks'
+import { createMemoryCacheStore, setCacheStore } from './cache-store'
+
+const SECRET = 'test-signing-secret'
+const AUTH_CODE = 'test-auth-code'
+const BODY = JSON.stringify({ merchants: { M1: [{ objectId: 'I:ITEM1', type: 'UPDATE', ts: 1 }] } })
+
+function sign(timestamp: number, body: string, secret: string = SECRET): string {
+  return `t=${timestamp},v1=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`
+}
+
+function webhookRequest(headers: Record<string, string>): Request {
+  return new Request('https://example.com/api/webhooks/clover', { method: 'POST', headers, body: BODY })
+}
+
+describe('verifyCloverWebhook', () => {
+  const now = Math.floor(Date.now() / 1000)
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.stubEnv('CLOVER_WEBHOOK_SECRET', SECRET)
+    vi.stubEnv('CLOVER_WEBHOOK_AUTH_CODE', AUTH_CODE)
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it('accepts a valid signature', async () => {
+    expect(await verifyCloverWebhook(webhookRequest({ 'Clover-Signature': sign(now, BODY) }), BODY)).toBe(true)
+  })
+
+  it('rejects a signature over a different body or secret', async () => {
+    const tampered = BODY.replace('ITEM1', 'ITEM2')
+    expect(await verifyCloverWebhook(webhookRequest({ 'Clover-Signature': sign(now, tampered) }), BODY)).toBe(false)
+    expect(
+      await verifyCloverWebhook(webhookRequest({ 'Clover-Signature': sign(now, BODY, 'other-secret') }), BODY)
+    ).toBe(false)
+  })
+
+  it('rejects stale signatures', async () => {
+    const request = webhookRequest({ 'Clover-Signature': sign(now - 10 * 60, BODY) })
+    expect(await verifyCloverWebhook(request, BODY)).toBe(false)
+  })
+
+  it('rejects malformed signature headers', async () => {
+    expect(await verifyCloverWebhook(webhookRequest({ 'Clover-Signature': 'v1=abc' }), BODY)).toBe(false)
+    expect(await verifyCloverWebhook(webhookRequest({ 'Clover-Signature': `t=${now}` }), BODY)).toBe(false)
+  })
+
+  it('accepts the legacy auth code header', async () => {
+    expect(await verifyCloverWebhook(webhookRequest({ 'X-Clover-Auth': AUTH_CODE }), BODY)).toBe(true)
+    expect(await verifyCloverWebhook(webhookRequest({ 'X-Clover-Auth': 'wrong-code' }), BODY)).toBe(false)
+  })
+
+  it('rejects unsigned requests', async () => {
+    expect(await verifyCloverWebhook(webhookRequest({}), BODY)).toBe(false)
+  })
+
+  it('rejects everything when no secret is configured', async () => {
+    vi.stubEnv('CLOVER_WEBHOOK_SECRET', '')
+    vi.stubEnv('CLOVER_WEBHOOK_AUTH_CODE', '')
+    expect(await verifyCloverWebhook(webhookRequest({ 'Clover-Signature': sign(now, BODY) }), BODY)).toBe(false)
+  })
+})
+
+describe('parseCloverItemChanges', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('collects item events for our merchant, latest event per item winning', () => {
+    vi.stubEnv('CLOVER_MERCHANT_ID', 'M1')
+
+    expect(
+      parseCloverItemChanges({
+        merchants: {
+          M1: [
+            { objectId: 'I:A', type: 'UPDATE', ts: 2 },
+            { objectId: 'I:A', type: 'DELETE', ts: 1 },
+            { objectId: 'I:B', type: 'UPDATE', ts: 1 },
+            { objectId: 'I:B', type: 'DELETE', ts: 3 },
+            { objectId: 'O:ORDER', type: 'CREATE', ts: 1 },
+          ],
+          M2: [{ objectId: 'I:C', type: 'UPDATE', ts: 1 }],
+        },
+      })
+    ).toEqual({ changedIds: ['A'], deletedIds: ['B'] })
+  })
+})
+
+describe('Clover verification code', () => {
+  beforeEach(() => {
+    setCacheStore(createMemoryCacheStore())
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  it('keeps the code for admins without logging it', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    expect(await getCloverVerificationCode()).toBeNull()
+
+    await saveCloverVerificationCode('code-123')
+    expect(await getCloverVerificationCode()).toEqual({ code: 'code-123', receivedAt: expect.any(String) })
+    expect(warn).not.toHaveBeenCalled()
+  })
+
+  it('logs the code when CLOVER_WEBHOOK_LOG_VERIFICATION is set', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.stubEnv('CLOVER_WEBHOOK_LOG_VERIFICATION', 'true')
+
+    await saveCloverVerificationCode('code-123')
+    expect(warn).toHaveBeenCalledWith('Clover webhook verification code: code-123')
+  })
+})
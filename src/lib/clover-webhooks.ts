@@ -0,0 +1,171 @@
+/**
+ * Clover webhook verification and event parsing
+ * Clover posts inventory changes as { merchants: { [merchantId]: [{ objectId, type, ts }] } }
+ * where item events have objectIds prefixed with "I:"
+ */
+
+import { getEnv } from './env'
+import { getCacheStore } from './cache-store'
+
+// Reject signed payloads older than this to prevent replays
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+
+const VERIFICATION_CODE_KEY = 'clover:webhook-verification'
+// Long enough to paste the code into the Clover dashboard
+const VERIFICATION_CODE_TTL = 60 * 60 * 1000
+
+export type CloverWebhookEventType = 'CREATE' | 'UPDATE' | 'DELETE'
+
+export interface CloverWebhookEvent {
+  objectId: string
+  type: CloverWebhookEventType
+  ts: number
+}
+
+export interface CloverWebhookPayload {
+  appId?: string
+  merchants?: Record<string, CloverWebhookEvent[]>
+  verificationCode?: string
+}
+
+export interface CloverVerificationCode {
+  code: string
+  receivedAt: string
+}
+
+export interface CloverItemChanges {
+  changedIds: string[]
+  deletedIds: string[]
+}
+
+/**
+ * Compare two strings without leaking timing information
+ */
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false
+  let result = 0
+  for (let i = 0; i < a.length; i++) {
+    result |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return result === 0
+}
+
+/**
+ * HMAC-SHA256 of a message as a hex string (Web Crypto, works on Netlify and Cloudflare)
+ */
+async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder()
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  )
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message))
+  return Array.from(new Uint8Array(signature))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Verify that a webhook request came from Clover
+ * Supports the signed "Clover-Signature: t=<unix>,v1=<hex hmac>" header (HMAC of "t.body")
+ * and the legacy "X-Clover-Auth" header that echoes the app's auth code
+ */
+export async function verifyCloverWebhook(request: Request, rawBody: string): Promise<boolean> {
+  const signingSecret = getEnv('CLOVER_WEBHOOK_SECRET')
+  const authCode = getEnv('CLOVER_WEBHOOK_AUTH_CODE')
+
+  if (!signingSecret && !authCode) {
+    console.error('Clover webhook received but CLOVER_WEBHOOK_SECRET / CLOVER_WEBHOOK_AUTH_CODE is not set')
+    return false
+  }
+
+  const signatureHeader = request.headers.get('Clover-Signature')
+  if (signatureHeader && signingSecret) {
+    const parts = Object.fromEntries(
+      signatureHeader.split(',').map((part) => {
+        const [key, ...value] = part.trim().split('=')
+        return [key, value.join('=')]
+      })
+    )
+    const timestamp = parseInt(parts.t || '', 10)
+    if (!parts.v1 || isNaN(timestamp)) return false
+
+    const age = Math.abs(Date.now() / 1000 - timestamp)
+    if (age > SIGNATURE_TOLERANCE_SECONDS) {
+      console.warn(`Rejecting Clover webhook with stale signature (${Math.round(age)}s old)`)
+      return false
+    }
+
+    const expected = await hmacSha256Hex(signingSecret, `${parts.t}.${rawBody}`)
+    return timingSafeEqual(expected, parts.v1.toLowerCase())
+  }
+
+  const authHeader = request.headers.get('X-Clover-Auth')
+  if (authHeader && authCode) {
+    return timingSafeEqual(authHeader, authCode)
+  }
+
+  return false
+}
+
+/**
+ * Keep the verification code Clover sends when the webhook URL is registered, for GET /api/admin/clover-webhook
+ * Set CLOVER_WEBHOOK_LOG_VERIFICATION=true to also log it (with the memory cache backend another instance
+ * may serve the admin request)
+ */
+export async function saveCloverVerificationCode(code: string): Promise<void> {
+  const entry: CloverVerificationCode = { code, receivedAt: new Date().toISOString() }
+  await getCacheStore().set(VERIFICATION_CODE_KEY, entry, VERIFICATION_CODE_TTL)
+
+  if (getEnv('CLOVER_WEBHOOK_LOG_VERIFICATION') === 'true') {
+    console.warn(`Clover webhook verification code: ${code}`)
+  }
+}
+
+/**
+ * The last verification code Clover sent, or null if none arrived in the past hour
+ */
+export async function getCloverVerificationCode(): Promise<CloverVerificationCode | null> {
+  const entry = await getCacheStore().get<CloverVerificationCode>(VERIFICATION_CODE_KEY)
+  return entry ? entry.value : null
+}
+
+/**
+ * Extract changed and deleted inventory item IDs for our merchant from a webhook payload
+ * Multiple events for the same item collapse into one (latest event wins)
+ */
+export function parseCloverItemChanges(payload: CloverWebhookPayload): CloverItemChanges {
+  const merchantId = getEnv('CLOVER_MERCHANT_ID')
+  const latest = new Map<string, CloverWebhookEvent>()
+
+  for (const [eventMerchantId, events] of Object.entries(payload.merchants || {})) {
+    if (merchantId && eventMerchantId !== merchantId) continue
+    if (!Array.isArray(events)) continue
+
+    for (const event of events) {
+      if (typeof event?.objectId !== 'string' || !event.objectId.startsWith('I:')) continue
+      const itemId = event.objectId.slice(2)
+      if (!itemId) continue
+
+      const previous = latest.get(itemId)
+      if (!previous || (event.ts || 0) >= (previous.ts || 0)) {
+        latest.set(itemId, event)
+      }
+    }
+  }
+
+  const changedIds: string[] = []
+  const deletedIds: string[] = []
+  latest.forEach((event, itemId) => {
+    if (event.type === 'DELETE') {
+      deletedIds.push(itemId)
+    } else {
+      changedIds.push(itemId)
+    }
+  })
+
+  return { changedIds, deletedIds }
+}
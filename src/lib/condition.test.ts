@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { extractConditionAndPackaging, getConditionType, parseCondition, parsePackaging } from './condition'
+
+describe('extractConditionAndPackaging', () => {
+  it('pulls condition and packaging out of the name', () => {
+    expect(extractConditionAndPackaging('Jordan 1 Chicago VNDS NO BOX')).toEqual({
+      name: 'Jordan 1 Chicago',
+      condition: { type: 'VNDS', grade: undefined, label: 'VNDS' },
+      packaging: 'no-box',
+    })
+  })
+
+  it('reads the grade of used pairs', () => {
+    expect(extractConditionAndPackaging('Dunk Low Panda Used 8/10').condition).toEqual({
+      type: 'Used',
+      grade: 8,
+      label: 'Used 8/10',
+    })
+    expect(extractConditionAndPackaging('Dunk Low Panda (9.5/10)').condition).toMatchObject({
+      type: 'Used',
+      grade: 9.5,
+    })
+  })
+
+  it('ignores grades outside 1-10', () => {
+    expect(extractConditionAndPackaging('Dunk Low Used 12/10').condition).toEqual({
+      type: 'Used',
+      grade: undefined,
+      label: 'Used',
+    })
+  })
+
+  it('matches "NO BOX LABEL" before "NO BOX"', () => {
+    expect(extractConditionAndPackaging('Yeezy 350 NO BOX LABEL').packaging).toBe('no-label')
+  })
+
+  it('leaves names without markers alone', () => {
+    expect(extractConditionAndPackaging('Nike Dunk Low Panda')).toEqual({
+      name: 'Nike Dunk Low Panda',
+      condition: undefined,
+      packaging: undefined,
+    })
+  })
+})
+
+describe('parseCondition', () => {
+  it('normalizes free-text conditions', () => {
+    expect(parseCondition('Deadstock')).toMatchObject({ type: 'DS', label: 'DS' })
+    expect(parseCondition('used 7/10')).toMatchObject({ type: 'Used', grade: 7 })
+    expect(parseCondition('')).toBeUndefined()
+  })
+})
+
+describe('getConditionType', () => {
+  it('treats pairs without a condition as new', () => {
+    expect(getConditionType(undefined)).toBe('DS')
+  })
+})
+
+describe('parsePackaging', () => {
+  it('accepts packaging keys and free text', () => {
+    expect(parsePackaging('no-lid')).toBe('no-lid')
+    expect(parsePackaging('OG Box')).toBe('original-box')
+    expect(parsePackaging('mystery')).toBeUndefined()
+  })
+})
@@ -0,0 +1,120 @@
+import type { ConditionType, ItemCondition, Packaging } from '../types/inventory'
+
+/**
+ * Condition and packaging extraction
+ * Clover names carry them as free text ("VNDS", "Used 8/10", "NO BOX", "NO LID"), which used to be stripped and lost
+ */
+
+export const CONDITION_TYPES: ConditionType[] = ['DS', 'VNDS', 'Used']
+
+export const CONDITION_LABELS: Record<ConditionType, string> = {
+  DS: 'Deadstock',
+  VNDS: 'Very Near Deadstock',
+  Used: 'Used',
+}
+
+export const PACKAGING_TYPES: Packaging[] = ['original-box', 'no-lid', 'no-label', 'no-box']
+
+export const PACKAGING_LABELS: Record<Packaging, string> = {
+  'original-box': 'Original Box',
+  'no-lid': 'No Lid',
+  'no-label': 'No Box Label',
+  'no-box': 'No Box',
+}
+
+// Condition markers, most specific first (matched text is removed from the name)
+const CONDITION_PATTERNS: { pattern: RegExp; type: ConditionType }[] = [
+  { pattern: /\bVNDS\b/i, type: 'VNDS' },
+  { pattern: /\b(?:DS|Deadstock|BNIB|Brand\s+New)\b/i, type: 'DS' },
+  { pattern: /\bUsed\b(?:\s*[-:(]?\s*\d{1,2}(?:\.\d)?\s*\/\s*10\)?)?/i, type: 'Used' },
+  // A bare "8/10" grade means a used pair
+  { pattern: /\(?\b\d{1,2}(?:\.\d)?\s*\/\s*10\b\)?/, type: 'Used' },
+]
+
+// Packaging markers, most specific first ("NO BOX LABEL" before "NO BOX")
+const PACKAGING_PATTERNS: { pattern: RegExp; packaging: Packaging }[] = [
+  { pattern: /\bNO\s+BOX\s+LABEL\b/i, packaging: 'no-label' },
+  { pattern: /\bNO\s+LID\b/i, packaging: 'no-lid' },
+  { pattern: /\bNO\s+BOX\b/i, packaging: 'no-box' },
+  { pattern: /\b(?:OG\s+BOX|OG\s+ALL|W\/\s*BOX|WITH\s+BOX|ORIGINAL\s+BOX)\b/i, packaging: 'original-box' },
+]
+
+/**
+ * Display label for a condition ("DS", "VNDS", "Used 8/10")
+ */
+function formatConditionLabel(type: ConditionType, grade?: number): string {
+  return type === 'Used' && grade !== undefined ? `Used ${grade}/10` : type
+}
+
+/**
+ * Build a condition from its type and the text it was found in (for the "/10" grade)
+ */
+function buildCondition(type: ConditionType, text: string): ItemCondition {
+  const gradeMatch = type === 'Used' ? text.match(/(\d{1,2}(?:\.\d)?)\s*\/\s*10/) : null
+  const grade = gradeMatch ? parseFloat(gradeMatch[1]) : undefined
+  const validGrade = grade !== undefined && grade > 0 && grade <= 10 ? grade : undefined
+  return { type, grade: validGrade, label: formatConditionLabel(type, validGrade) }
+}
+
+/**
+ * Pull condition and packaging out of a product name
+ * Returns the name with those markers removed
+ */
+export function extractConditionAndPackaging(name: string): {
+  name: string
+  condition?: ItemCondition
+  packaging?: Packaging
+} {
+  let remaining = name
+  let condition: ItemCondition | undefined
+  let packaging: Packaging | undefined
+
+  // Packaging first so "NO BOX LABEL" isn't mistaken for anything else
+  for (const { pattern, packaging: candidate } of PACKAGING_PATTERNS) {
+    if (pattern.test(remaining)) {
+      packaging = candidate
+      remaining = remaining.replace(pattern, ' ')
+      break
+    }
+  }
+
+  for (const { pattern, type } of CONDITION_PATTERNS) {
+    const match = remaining.match(pattern)
+    if (match) {
+      condition = buildCondition(type, match[0])
+      remaining = remaining.replace(pattern, ' ')
+      break
+    }
+  }
+
+  return {
+    name: remaining.replace(/\s+/g, ' ').trim(),
+    condition,
+    packaging,
+  }
+}
+
+/**
+ * Condition type of an item's condition (pairs without a condition marker are sold as new)
+ */
+export function getConditionType(condition: ItemCondition | undefined): ConditionType {
+  return condition?.type || 'DS'
+}
+
+/**
+ * Normalize a condition from free text (e.g. the AI cleaner's "condition" field)
+ */
+export function parseCondition(value: string | undefined): ItemCondition | undefined {
+  if (!value) return undefined
+  return extractConditionAndPackaging(value).condition
+}
+
+/**
+ * Normalize packaging from free text or a packaging key
+ */
+export function parsePackaging(value: string | undefined): Packaging | undefined {
+  if (!value) return undefined
+  const key = value.trim().toLowerCase() as Packaging
+  if (PACKAGING_TYPES.includes(key)) return key
+  return extractConditionAndPackaging(value).packaging
+}
@@ -0,0 +1,163 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createEnrichmentQueue, createMemoryEnrichmentJobStore, getEnrichmentQueueBackend } from './enrichment-queue'
+import type { EnrichJobBatch } from './enrichment-queue'
+
+const START = new Date('2026-01-01T00:00:00Z')
+const RETRY_DELAY_MS = 1000
+const LEASE_MS = 60 * 1000
+
+describe('memory enrichment job store', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(START)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('leases claimed jobs until the lease runs out', async () => {
+    const store = createMemoryEnrichmentJobStore()
+    await store.enqueue(['a', 'b'])
+
+    const claimed = await store.claim(10, LEASE_MS)
+    expect(claimed.map((job) => [job.itemId, job.status, job.attempts])).toEqual([
+      ['a', 'running', 1],
+      ['b', 'running', 1],
+    ])
+    expect(await store.claim(10, LEASE_MS)).toEqual([])
+
+    // A worker that never finished leaves its jobs to the next claim once the lease expires
+    vi.setSystemTime(START.getTime() + LEASE_MS)
+    const reclaimed = await store.claim(10, LEASE_MS)
+    expect(reclaimed.map((job) => [job.itemId, job.attempts])).toEqual([
+      ['a', 2],
+      ['b', 2],
+    ])
+  })
+
+  it('claims up to the limit, oldest due first', async () => {
+    const store = createMemoryEnrichmentJobStore()
+    await store.enqueue(['a'])
+    vi.setSystemTime(START.getTime() + 1)
+    await store.enqueue(['b', 'c'])
+
+    expect((await store.claim(2, LEASE_MS)).map((job) => job.itemId)).toEqual(['a', 'b'])
+  })
+
+  it('leaves queued and failed jobs alone when enqueued again', async () => {
+    const store = createMemoryEnrichmentJobStore()
+    await store.enqueue(['a', 'b'])
+    await store.claim(10, LEASE_MS)
+    await store.fail('a', 'boom', null)
+    await store.complete('b')
+
+    await store.enqueue(['a', 'b'])
+    expect(await store.getCounts()).toEqual({ queued: 1, running: 0, done: 0, failed: 1 })
+    expect(await store.retryFailed()).toBe(1)
+    expect(await store.getCounts()).toEqual({ queued: 2, running: 0, done: 0, failed: 0 })
+  })
+})
+
+describe('createEnrichmentQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(START)
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  const createQueue = (enrich: EnrichJobBatch) =>
+    createEnrichmentQueue({
+      store: createMemoryEnrichmentJobStore(),
+      enrich,
+      batchesPerMinute: 60 * 1000, // No rate-limit waits
+      maxAttempts: 3,
+      retryDelayMs: RETRY_DELAY_MS,
+      leaseMs: LEASE_MS,
+    })
+
+  it('completes jobs the batch enriched', async () => {
+    const queue = createQueue(async () => ({}))
+    await queue.store.enqueue(['a', 'b'])
+
+    expect(await queue.process(1000)).toEqual({ done: 2, retrying: 0, failed: 0 })
+    expect(await queue.store.getCounts()).toMatchObject({ done: 2 })
+  })
+
+  it('retries failed items with exponential backoff, then marks them failed', async () => {
+    const enrich = vi.fn<EnrichJobBatch>(async (itemIds) => {
+      const errors: Record<string, string> = {}
+      if (itemIds.includes('bad')) errors.bad = 'Name cleaning unavailable'
+      return errors
+    })
+    const queue = createQueue(enrich)
+    await queue.store.enqueue(['good', 'bad'])
+
+    expect(await queue.process(1000)).toEqual({ done: 1, retrying: 1, failed: 0 })
+
+    // Not due until the first backoff (1x the delay) has passed
+    vi.setSystemTime(START.getTime() + RETRY_DELAY_MS - 1)
+    expect(await queue.process(1000)).toEqual({ done: 0, retrying: 0, failed: 0 })
+    vi.setSystemTime(START.getTime() + RETRY_DELAY_MS)
+    expect(await queue.process(1000)).toEqual({ done: 0, retrying: 1, failed: 0 })
+
+    // The second retry waits twice as long
+    vi.setSystemTime(START.getTime() + 3 * RETRY_DELAY_MS - 1)
+    expect(await queue.process(1000)).toEqual({ done: 0, retrying: 0, failed: 0 })
+    vi.setSystemTime(START.getTime() + 3 * RETRY_DELAY_MS)
+    expect(await queue.process(1000)).toEqual({ done: 0, retrying: 0, failed: 1 })
+
+    const [failed] = await queue.store.listFailed(10)
+    expect(failed).toMatchObject({
+      itemId: 'bad',
+      status: 'failed',
+      attempts: 3,
+      lastError: 'Name cleaning unavailable',
+    })
+    expect(enrich).toHaveBeenCalledTimes(3)
+  })
+
+  it('retries the whole batch when enriching throws', async () => {
+    const queue = createQueue(async () => {
+      throw new Error('Clover is down')
+    })
+    await queue.store.enqueue(['a', 'b'])
+
+    expect(await queue.process(1000)).toEqual({ done: 0, retrying: 2, failed: 0 })
+    expect(await queue.store.getCounts()).toMatchObject({ queued: 2 })
+  })
+})
+
+describe('getEnrichmentQueueBackend', () => {
+  beforeEach(() => {
+    vi.stubEnv('ENRICHMENT_QUEUE_BACKEND', '')
+    vi.stubEnv('SUPABASE_URL', '')
+    vi.stubEnv('VITE_SUPABASE_URL', '')
+    vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', '')
+  })
+
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it('defaults to supabase when the server-side Supabase env vars are set', () => {
+    expect(getEnrichmentQueueBackend()).toBe('memory')
+
+    vi.stubEnv('SUPABASE_URL', 'https://example.supabase.co')
+    expect(getEnrichmentQueueBackend()).toBe('memory')
+
+    vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', 'service-role-key')
+    expect(getEnrichmentQueueBackend()).toBe('supabase')
+  })
+
+  it('uses ENRICHMENT_QUEUE_BACKEND when set', () => {
+    vi.stubEnv('SUPABASE_URL', 'https://example.supabase.co')
+    vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', 'service-role-key')
+    vi.stubEnv('ENRICHMENT_QUEUE_BACKEND', 'Memory')
+
+    expect(getEnrichmentQueueBackend()).toBe('memory')
+  })
+})
@@ -0,0 +1,464 @@
+/**
+ * Durable queue of items waiting for background enrichment
+ * Selected with ENRICHMENT_QUEUE_BACKEND: "supabase" (default when SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are set)
+ * or "memory" (per server instance, the default otherwise and for tests)
+ * Running jobs are leased, so work cut off mid-flight (e.g. a serverless function frozen after
+ * its response) is picked up again by the next run once the lease expires
+ */
+
+import { enrichItemsBatch, getRawInventory, isEnrichmentComplete } from './inventory-service'
+import { deleteCachedEnrichment, getCachedEnrichment } from './inventory-cache'
+import { getStoredEnrichments, isEnrichmentStoreAvailable } from './enrichment-store'
+import type { CloverItem } from '../types/inventory'
+import { getEnv } from './env'
+
+export type EnrichmentJobStatus = 'queued' | 'running' | 'done' | 'failed'
+
+export interface EnrichmentJob {
+  itemId: string
+  status: EnrichmentJobStatus
+  attempts: number
+  runAfter: string // Queued: not before this (retry backoff). Running: leased until this
+  lastError: string | null
+  updatedAt: string
+}
+
+export type EnrichmentJobCounts = Record<EnrichmentJobStatus, number>
+
+export interface EnrichmentJobStore {
+  // Queue items with no job yet or a finished one; queued, running and failed jobs are left alone
+  enqueue(itemIds: string[]): Promise<void>
+  // Lease up to limit due jobs (queued, or running with an expired lease), counting an attempt for each
+  claim(limit: number, leaseMs: number): Promise<EnrichmentJob[]>
+  complete(itemId: string): Promise<void>
+  // Queue again at retryAt, or mark failed for good when retryAt is null
+  fail(itemId: string, error: string, retryAt: Date | null): Promise<void>
+  // Queue every failed job again, returning how many there were
+  retryFailed(): Promise<number>
+  getCounts(): Promise<EnrichmentJobCounts>
+  listFailed(limit: number): Promise<EnrichmentJob[]>
+}
+
+/**
+ * Enrich a batch of items, resolving to an error message per item that should be retried
+ * Throwing retries the whole batch
+ */
+export type EnrichJobBatch = (itemIds: string[]) => Promise<Record<string, string>>
+
+export interface EnrichmentQueueOptions {
+  store: EnrichmentJobStore
+  enrich: EnrichJobBatch
+  batchSize?: number
+  concurrency?: number // Batches processed at once
+  batchesPerMinute?: number // Rate limit across all workers (AI and catalog APIs are called per batch)
+  maxAttempts?: number
+  retryDelayMs?: number // Doubled after each failed attempt
+  leaseMs?: number // Longer than a batch can take, or jobs get picked up twice
+}
+
+export interface EnrichmentQueueRun {
+  done: number
+  retrying: number
+  failed: number
+}
+
+export interface EnrichmentQueue {
+  store: EnrichmentJobStore
+  // Work through due jobs until none are left or the time budget runs out
+  process(timeBudgetMs?: number): Promise<EnrichmentQueueRun>
+}
+
+// Supabase caps "in" filters by URL length, so ID lists are sent in chunks
+const ID_CHUNK_SIZE = 100
+
+const JOB_STATUSES: EnrichmentJobStatus[] = ['queued', 'running', 'done', 'failed']
+
+function chunk<T>(values: T[], size: number): T[][] {
+  const chunks: T[][] = []
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size))
+  }
+  return chunks
+}
+
+/**
+ * In-memory store (per server instance, lost on cold start; also for tests)
+ */
+export function createMemoryEnrichmentJobStore(): EnrichmentJobStore {
+  const jobs = new Map<string, EnrichmentJob>()
+
+  const update = (itemId: string, changes: Partial<EnrichmentJob>) => {
+    const job = jobs.get(itemId)
+    if (job) jobs.set(itemId, { ...job, ...changes, updatedAt: new Date().toISOString() })
+  }
+
+  return {
+    async enqueue(itemIds) {
+      const now = new Date().toISOString()
+      for (const itemId of itemIds) {
+        const job = jobs.get(itemId)
+        if (!job || job.status === 'done') {
+          jobs.set(itemId, { itemId, status: 'queued', attempts: 0, runAfter: now, lastError: null, updatedAt: now })
+        }
+      }
+    },
+    async claim(limit, leaseMs) {
+      const now = Date.now()
+      const due = Array.from(jobs.values())
+        .filter((job) => (job.status === 'queued' || job.status === 'running') && Date.parse(job.runAfter) <= now)
+        .sort((a, b) => Date.parse(a.runAfter) - Date.parse(b.runAfter))
+        .slice(0, limit)
+
+      for (const job of due) {
+        update(job.itemId, {
+          status: 'running',
+          attempts: job.attempts + 1,
+          runAfter: new Date(now + leaseMs).toISOString(),
+        })
+      }
+      return due.map((job) => ({ ...jobs.get(job.itemId)! }))
+    },
+    async complete(itemId) {
+      update(itemId, { status: 'done', lastError: null })
+    },
+    async fail(itemId, error, retryAt) {
+      update(itemId, retryAt
+        ? { status: 'queued', runAfter: retryAt.toISOString(), lastError: error }
+        : { status: 'failed', lastError: error })
+    },
+    async retryFailed() {
+      const failed = Array.from(jobs.values()).filter((job) => job.status === 'failed')
+      const now = new Date().toISOString()
+      for (const job of failed) {
+        update(job.itemId, { status: 'queued', attempts: 0, runAfter: now })
+      }
+      return failed.length
+    },
+    async getCounts() {
+      const counts: EnrichmentJobCounts = { queued: 0, running: 0, done: 0, failed: 0 }
+      for (const job of jobs.values()) counts[job.status]++
+      return counts
+    },
+    async listFailed(limit) {
+      return Array.from(jobs.values())
+        .filter((job) => job.status === 'failed')
+        .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+        .slice(0, limit)
+    },
+  }
+}
+
+/**
+ * Supabase-table store, shared by every server instance
+ * Expects a table:
+ *   create table "EnrichmentJob" (
+ *     "itemId" text primary key,
+ *     "status" text not null,
+ *     "attempts" integer not null default 0,
+ *     "runAfter" timestamptz not null,
+ *     "lastError" text,
+ *     "updatedAt" timestamptz not null
+ *   );
+ *   create index on "EnrichmentJob" ("status", "runAfter");
+ */
+export function createSupabaseEnrichmentJobStore(tableName: string = 'EnrichmentJob'): EnrichmentJobStore {
+  // Imported lazily so the memory backend doesn't require Supabase env vars
+  const getClient = async () => (await import('./supabase-admin')).supabaseAdmin
+
+  const update = async (itemId: string, changes: Partial<EnrichmentJob>) => {
+    const supabase = await getClient()
+    const { error } = await supabase
+      .from(tableName)
+      .update({ ...changes, updatedAt: new Date().toISOString() })
+      .eq('itemId', itemId)
+
+    if (error) {
+      throw new Error(`Failed to update enrichment job ${itemId}: ${error.message}`)
+    }
+  }
+
+  return {
+    async enqueue(itemIds) {
+      const supabase = await getClient()
+      const now = new Date().toISOString()
+      const queued = { status: 'queued', attempts: 0, runAfter: now, lastError: null, updatedAt: now }
+
+      for (const ids of chunk(itemIds, ID_CHUNK_SIZE)) {
+        const inserted = await supabase
+          .from(tableName)
+          .upsert(ids.map((itemId) => ({ itemId, ...queued })), { onConflict: 'itemId', ignoreDuplicates: true })
+        const requeued = await supabase.from(tableName).update(queued).in('itemId', ids).eq('status', 'done')
+
+        const error = inserted.error || requeued.error
+        if (error) {
+          throw new Error(`Failed to queue enrichment jobs: ${error.message}`)
+        }
+      }
+    },
+    async claim(limit, leaseMs) {
+      const supabase = await getClient()
+      const now = new Date()
+      const { data, error } = await supabase
+        .from(tableName)
+        .select('*')
+        .in('status', ['queued', 'running'])
+        .lte('runAfter', now.toISOString())
+        .order('runAfter', { ascending: true })
+        .limit(limit)
+
+      if (error) {
+        throw new Error(`Failed to claim enrichment jobs: ${error.message}`)
+      }
+
+      // Conditional on updatedAt, so a job claimed by another instance in the meantime is skipped
+      const claimed: EnrichmentJob[] = []
+      for (const job of (data || []) as EnrichmentJob[]) {
+        const { data: leased } = await supabase
+          .from(tableName)
+          .update({
+            status: 'running',
+            attempts: job.attempts + 1,
+            runAfter: new Date(now.getTime() + leaseMs).toISOString(),
+            updatedAt: now.toISOString(),
+          })
+          .eq('itemId', job.itemId)
+          .eq('updatedAt', job.updatedAt)
+          .select()
+          .maybeSingle()
+
+        if (leased) claimed.push(leased as EnrichmentJob)
+      }
+      return claimed
+    },
+    async complete(itemId) {
+      await update(itemId, { status: 'done', lastError: null })
+    },
+    async fail(itemId, error, retryAt) {
+      await update(itemId, retryAt
+        ? { status: 'queued', runAfter: retryAt.toISOString(), lastError: error }
+        : { status: 'failed', lastError: error })
+    },
+    async retryFailed() {
+      const supabase = await getClient()
+      const now = new Date().toISOString()
+      const { data, error } = await supabase
+        .from(tableName)
+        .update({ status: 'queued', attempts: 0, runAfter: now, updatedAt: now })
+        .eq('status', 'failed')
+        .select('itemId')
+
+      if (error) {
+        throw new Error(`Failed to retry enrichment jobs: ${error.message}`)
+      }
+      return data?.length || 0
+    },
+    async getCounts() {
+      const supabase = await getClient()
+      const results = await Promise.all(
+        JOB_STATUSES.map((status) =>
+          supabase.from(tableName).select('itemId', { count: 'exact', head: true }).eq('status', status)
+        )
+      )
+
+      const counts: EnrichmentJobCounts = { queued: 0, running: 0, done: 0, failed: 0 }
+      results.forEach((result, index) => {
+        if (result.error) {
+          throw new Error(`Failed to count enrichment jobs: ${result.error.message}`)
+        }
+        counts[JOB_STATUSES[index]] = result.count || 0
+      })
+      return counts
+    },
+    async listFailed(limit) {
+      const supabase = await getClient()
+      const { data, error } = await supabase
+        .from(tableName)
+        .select('*')
+        .eq('status', 'failed')
+        .order('updatedAt', { ascending: false })
+        .limit(limit)
+
+      if (error) {
+        throw new Error(`Failed to list failed enrichment jobs: ${error.message}`)
+      }
+      return (data || []) as EnrichmentJob[]
+    },
+  }
+}
+
+/**
+ * Create a queue that processes a store's jobs with the given enrich function
+ */
+export function createEnrichmentQueue(options: EnrichmentQueueOptions): EnrichmentQueue {
+  const {
+    store,
+    enrich,
+    batchSize = 10,
+    concurrency = 2,
+    batchesPerMinute = 30,
+    maxAttempts = 5,
+    retryDelayMs = 30 * 1000,
+    leaseMs = 5 * 60 * 1000,
+  } = options
+
+  const batchIntervalMs = 60 * 1000 / Math.max(1, batchesPerMinute)
+  let nextBatchAt = 0
+
+  // Reserve the next start slot, so concurrent workers stay under the rate limit together
+  const waitForRateLimit = async () => {
+    const now = Date.now()
+    const startAt = Math.max(now, nextBatchAt)
+    nextBatchAt = startAt + batchIntervalMs
+    if (startAt > now) {
+      await new Promise((resolve) => setTimeout(resolve, startAt - now))
+    }
+  }
+
+  const failJob = async (job: EnrichmentJob, message: string, run: EnrichmentQueueRun) => {
+    if (job.attempts >= maxAttempts) {
+      await store.fail(job.itemId, message, null)
+      run.failed++
+    } else {
+      await store.fail(job.itemId, message, new Date(Date.now() + retryDelayMs * 2 ** (job.attempts - 1)))
+      run.retrying++
+    }
+  }
+
+  async function process(timeBudgetMs: number = 25 * 1000): Promise<EnrichmentQueueRun> {
+    const deadline = Date.now() + timeBudgetMs
+    const run: EnrichmentQueueRun = { done: 0, retrying: 0, failed: 0 }
+
+    const worker = async () => {
+      while (Date.now() < deadline) {
+        await waitForRateLimit()
+        const jobs = await store.claim(batchSize, leaseMs)
+        if (jobs.length === 0) return
+
+        let errors: Record<string, string>
+        try {
+          errors = await enrich(jobs.map((job) => job.itemId))
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error)
+          errors = Object.fromEntries(jobs.map((job) => [job.itemId, message]))
+        }
+
+        for (const job of jobs) {
+          if (errors[job.itemId]) {
+            await failJob(job, errors[job.itemId], run)
+          } else {
+            await store.complete(job.itemId)
+            run.done++
+          }
+        }
+      }
+    }
+
+    await Promise.all(Array.from({ length: Math.max(1, concurrency) }, worker))
+    return run
+  }
+
+  return { store, process }
+}
+
+/**
+ * Enrich queued items with the inventory service
+ * Items no longer in Clover have nothing to enrich and count as done
+ */
+const enrichQueuedItems: EnrichJobBatch = async (itemIds) => {
+  const rawItems = new Map((await getRawInventory()).map((item) => [item.id, item]))
+  const items = itemIds.flatMap((itemId) => rawItems.get(itemId) ?? [])
+
+  const errors: Record<string, string> = {}
+  for (const item of await enrichItemsBatch(items)) {
+    if (!isEnrichmentComplete(item)) {
+      // Drop the cached fallback so the retry cleans the name and searches the catalog again
+      await deleteCachedEnrichment(item.id)
+      errors[item.id] = item.catalogLookupFailed ? 'Catalog lookup failed' : 'Name cleaning unavailable'
+    }
+  }
+  return errors
+}
+
+let enrichmentQueue: EnrichmentQueue | null = null
+let processing: Promise<EnrichmentQueueRun> | null = null
+
+/**
+ * Get the configured queue (created on first use)
+ */
+export function getEnrichmentQueue(): EnrichmentQueue {
+  if (!enrichmentQueue) {
+    enrichmentQueue = createEnrichmentQueue({
+      store: createConfiguredJobStore(),
+      enrich: enrichQueuedItems,
+      batchesPerMinute: parseInt(getEnv('ENRICHMENT_QUEUE_BATCHES_PER_MINUTE') || '', 10) || undefined,
+    })
+  }
+  return enrichmentQueue
+}
+
+/**
+ * Override the queue (e.g. with an in-memory store in tests)
+ */
+export function setEnrichmentQueue(queue: EnrichmentQueue): void {
+  enrichmentQueue = queue
+}
+
+/**
+ * Work through the queue, sharing the run already in progress on this instance
+ */
+export function processEnrichmentQueue(timeBudgetMs?: number): Promise<EnrichmentQueueRun> {
+  processing ??= getEnrichmentQueue()
+    .process(timeBudgetMs)
+    .finally(() => {
+      processing = null
+    })
+  return processing
+}
+
+/**
+ * Queue items that aren't enriched yet and start processing in the background
+ * Already-enriched items are found with one enrichment store read (the cache stands in without Supabase)
+ * The jobs are stored before this resolves, so a run that gets cut off is resumed by the next one
+ */
+export async function enqueueEnrichment(items: CloverItem[]): Promise<void> {
+  const stored = await getStoredEnrichments(items)
+  const useCache = !isEnrichmentStoreAvailable()
+  const enrichedFlags = await Promise.all(
+    items.map(async (item) => stored.has(item.id) || (useCache && Boolean(await getCachedEnrichment(item.id))))
+  )
+  const itemIds = items.filter((_, index) => !enrichedFlags[index]).map((item) => item.id)
+  if (itemIds.length === 0) return
+
+  await getEnrichmentQueue().store.enqueue(itemIds)
+  processEnrichmentQueue().catch((err) => {
+    console.warn('Background enrichment failed:', err)
+  })
+}
+
+/**
+ * Backend named by ENRICHMENT_QUEUE_BACKEND, or supabase when the server-side Supabase env vars are set
+ */
+export function getEnrichmentQueueBackend(): string {
+  const configured = getEnv('ENRICHMENT_QUEUE_BACKEND')
+  if (configured) return configured.toLowerCase()
+
+  const supabaseUrl = getEnv('SUPABASE_URL') || getEnv('VITE_SUPABASE_URL')
+  return supabaseUrl && getEnv('SUPABASE_SERVICE_ROLE_KEY') ? 'supabase' : 'memory'
+}
+
+/**
+ * Build the store selected by getEnrichmentQueueBackend
+ */
+function createConfiguredJobStore(): EnrichmentJobStore {
+  const backend = getEnrichmentQueueBackend()
+
+  switch (backend) {
+    case 'supabase':
+      return createSupabaseEnrichmentJobStore(getEnv('ENRICHMENT_QUEUE_SUPABASE_TABLE'))
+    case 'memory':
+      return createMemoryEnrichmentJobStore()
+    default:
+      console.warn(`Unknown ENRICHMENT_QUEUE_BACKEND "${backend}", using memory`)
+      return createMemoryEnrichmentJobStore()
+  }
+}
@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { StoredEnrichment } from './enrichment-store'
+import type { EnrichedInventoryItem } from '../types/inventory'
+
+const records: StoredEnrichment[] = []
+const reads: string[][] = []
+
+// Just enough of the Supabase query builder for the chunked lookups
+vi.mock('./supabase-admin', () => ({
+  supabaseAdmin: {
+    from: () => ({
+      select: () => ({
+        in: async (_column: string, ids: string[]) => {
+          reads.push(ids)
+          return ids.includes('broken')
+            ? { data: null, error: { message: 'statement timeout' } }
+            : { data: records.filter((record) => ids.includes(record.itemId)), error: null }
+        },
+      }),
+    }),
+  },
+}))
+
+const { getStoredEnrichments, hashItemName } = await import('./enrichment-store')
+
+const stored = async (itemId: string, name: string): Promise<StoredEnrichment> => ({
+  itemId,
+  nameHash: await hashItemName(name),
+  cleanerVersion: 'fixture:prompt-2',
+  data: { id: itemId, name } as EnrichedInventoryItem,
+  updatedAt: '2026-01-01T00:00:00Z',
+})
+
+describe('stored enrichments', () => {
+  beforeEach(() => {
+    records.length = 0
+    reads.length = 0
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('hashes names without surrounding whitespace', async () => {
+    expect(await hashItemName(' Dunk Low Panda 10 ')).toBe(await hashItemName('Dunk Low Panda 10'))
+    expect(await hashItemName('Dunk Low Panda 10')).toMatch(/^[0-9a-f]{64}$/)
+  })
+
+  it('skips items renamed since they were enriched', async () => {
+    records.push(await stored('a', 'Dunk Low Panda 10'), await stored('b', 'Jordan 4 Black Cat 11'))
+
+    const enrichments = await getStoredEnrichments([
+      { id: 'a', name: 'Dunk Low Panda 10' },
+      { id: 'b', name: 'Jordan 4 Black Cat 11.5' },
+    ])
+
+    expect(Array.from(enrichments.keys())).toEqual(['a'])
+  })
+
+  it('reads large catalogs in chunks and keeps the chunks that succeed', async () => {
+    const items = Array.from({ length: 250 }, (_, index) => ({ id: `item-${index}`, name: `Item ${index}` }))
+    items[120] = { id: 'broken', name: 'Broken item' }
+    records.push(await stored('item-0', 'Item 0'), await stored('item-249', 'Item 249'))
+
+    const enrichments = await getStoredEnrichments(items)
+
+    expect(reads.map((ids) => ids.length)).toEqual([100, 100, 50])
+    expect(Array.from(enrichments.keys())).toEqual(['item-0', 'item-249'])
+  })
+})
@@ -0,0 +1,173 @@
+import type { EnrichedInventoryItem } from '../types/inventory'
+
+/**
+ * Enrichment results that outlive the in-memory cache, keyed by Clover item ID and a hash of the raw name
+ * (a renamed item gets a new hash, so it is enriched again)
+ * Expects a table:
+ *   create table "EnrichedItem" (
+ *     "itemId" text not null,
+ *     "nameHash" text not null,
+ *     "cleanerVersion" text not null,
+ *     "data" jsonb not null,
+ *     "updatedAt" timestamptz not null,
+ *     primary key ("itemId", "nameHash")
+ *   );
+ *   create index on "EnrichedItem" ("cleanerVersion");
+ */
+
+const TABLE_NAME = 'EnrichedItem'
+
+// Supabase caps "in" filters by URL length, so look items up in chunks
+const LOOKUP_CHUNK_SIZE = 100
+
+// Imported lazily so the storefront still works without Supabase env vars
+const getClient = async () => (await import('./supabase-admin')).supabaseAdmin
+
+// Set once Supabase turns out to be unavailable, so every batch doesn't log the same failure
+let storeUnavailable = false
+
+export interface StoredEnrichment {
+  itemId: string
+  nameHash: string
+  cleanerVersion: string // Name cleaner that produced the data (see ProductNameCleaner.version)
+  data: EnrichedInventoryItem
+  updatedAt: string
+}
+
+/**
+ * False once Supabase turned out to be unavailable (callers then rely on the enrichment cache alone)
+ */
+export function isEnrichmentStoreAvailable(): boolean {
+  return !storeUnavailable
+}
+
+/**
+ * SHA-256 of the raw Clover name
+ */
+export async function hashItemName(name: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(name.trim()))
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Stored enrichments for items whose name hasn't changed, by item ID
+ * Read failures are logged and treated as "not stored" so enrichment keeps working
+ */
+export async function getStoredEnrichments(
+  items: { id: string; name: string }[]
+): Promise<Map<string, StoredEnrichment>> {
+  const stored = new Map<string, StoredEnrichment>()
+  if (items.length === 0 || storeUnavailable) return stored
+
+  try {
+    const supabase = await getClient()
+    const hashes = new Map(
+      await Promise.all(items.map(async (item) => [item.id, await hashItemName(item.name)] as const))
+    )
+
+    const chunks: string[][] = []
+    for (let i = 0; i < items.length; i += LOOKUP_CHUNK_SIZE) {
+      chunks.push(items.slice(i, i + LOOKUP_CHUNK_SIZE).map((item) => item.id))
+    }
+
+    // Chunks are read in parallel so large catalogs don't wait on one round trip after another
+    const results = await Promise.all(chunks.map((ids) => supabase.from(TABLE_NAME).select('*').in('itemId', ids)))
+    for (const { data, error } of results) {
+      if (error) {
+        console.warn('Stored enrichment read failed:', error.message)
+        continue
+      }
+      for (const record of (data || []) as StoredEnrichment[]) {
+        if (hashes.get(record.itemId) === record.nameHash) {
+          stored.set(record.itemId, record)
+        }
+      }
+    }
+  } catch (error) {
+    storeUnavailable = true
+    console.warn('Stored enrichment is unavailable:', error instanceof Error ? error.message : error)
+  }
+  return stored
+}
+
+/**
+ * Save an item's enrichment, replacing records for its previous names
+ * Write failures are logged; the in-memory cache still has the result
+ */
+export async function saveStoredEnrichment(
+  item: { id: string; name: string },
+  cleanerVersion: string,
+  data: EnrichedInventoryItem
+): Promise<void> {
+  if (storeUnavailable) return
+
+  try {
+    const supabase = await getClient()
+    const record: StoredEnrichment = {
+      itemId: item.id,
+      nameHash: await hashItemName(item.name),
+      cleanerVersion,
+      data,
+      updatedAt: new Date().toISOString(),
+    }
+
+    const { error } = await supabase.from(TABLE_NAME).upsert(record)
+    if (error) {
+      console.warn(`Stored enrichment write failed for ${item.id}:`, error.message)
+      return
+    }
+    await supabase.from(TABLE_NAME).delete().eq('itemId', item.id).neq('nameHash', record.nameHash)
+  } catch (error) {
+    storeUnavailable = true
+    console.warn('Stored enrichment is unavailable:', error instanceof Error ? error.message : error)
+  }
+}
+
+/**
+ * Remove every stored enrichment for an item
+ */
+export async function deleteStoredEnrichment(itemId: string): Promise<void> {
+  if (storeUnavailable) return
+
+  const supabase = await getClient()
+  const { error } = await supabase.from(TABLE_NAME).delete().eq('itemId', itemId)
+
+  if (error) {
+    throw new Error(`Failed to delete stored enrichment: ${error.message}`)
+  }
+}
+
+/**
+ * IDs of items enriched by a different cleaner version, oldest first
+ */
+export async function listStaleEnrichmentIds(cleanerVersion: string, limit: number): Promise<string[]> {
+  const supabase = await getClient()
+  const { data, error } = await supabase
+    .from(TABLE_NAME)
+    .select('itemId')
+    .neq('cleanerVersion', cleanerVersion)
+    .order('updatedAt', { ascending: true })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to list stale enrichments: ${error.message}`)
+  }
+  return Array.from(new Set((data || []).map((record) => record.itemId as string)))
+}
+
+/**
+ * Stored enrichments by cleaner version
+ */
+export async function countStoredEnrichments(cleanerVersion: string): Promise<{ current: number; stale: number }> {
+  const supabase = await getClient()
+  const [current, stale] = await Promise.all([
+    supabase.from(TABLE_NAME).select('itemId', { count: 'exact', head: true }).eq('cleanerVersion', cleanerVersion),
+    supabase.from(TABLE_NAME).select('itemId', { count: 'exact', head: true }).neq('cleanerVersion', cleanerVersion),
+  ])
+
+  const error = current.error || stale.error
+  if (error) {
+    throw new Error(`Failed to count stored enrichments: ${error.message}`)
+  }
+  return { current: current.count || 0, stale: stale.count || 0 }
+}
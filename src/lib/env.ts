@@ -0,0 +1,14 @@
+/**
+ * Get environment variable (works in both server and client contexts)
+ */
+export function getEnv(key: string): string | undefined {
+  // Server-side: use process.env
+  if (typeof process !== 'undefined' && process.env) {
+    return process.env[key]
+  }
+  // Client-side: use import.meta.env
+  if (typeof import.meta !== 'undefined' && import.meta.env) {
+    return import.meta.env[key]
+  }
+  return undefined
+}
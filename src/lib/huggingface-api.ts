@@ -1,23 +1,48 @@
 import { createServerFn } from '@tanstack/react-start'
 import { getCachedHFImprovement, setCachedHFImprovement } from './inventory-cache'
+import { getEnv } from './env'
+
+const HUGGINGFACE_API_KEY = getEnv('VITE_HUGGINGFACE_API_KEY') || getEnv('HUGGINGFACE_API_KEY')
+const HUGGINGFACE_API_URL = 'https://api-inference.huggingface.co/models'
+// Text-to-text/text generation model, e.g. an instruct model for the name cleaner provider
+export const HUGGINGFACE_MODEL = getEnv('HUGGINGFACE_MODEL') || 'google/flan-t5-base'
+
+export function isHuggingFaceConfigured(): boolean {
+  return Boolean(HUGGINGFACE_API_KEY)
+}
 
 /**
- * Get environment variable (works in both server and client contexts)
+ * Generate text with the configured HuggingFace model
+ * Throws when the API key is missing or the request fails
  */
-function getEnv(key: string): string | undefined {
-  // Server-side: use process.env
-  if (typeof process !== 'undefined' && process.env) {
-    return process.env[key]
+export async function generateHuggingFaceText(prompt: string, maxNewTokens: number = 300): Promise<string> {
+  if (!HUGGINGFACE_API_KEY) {
+    throw new Error('HuggingFace API key not found. Set VITE_HUGGINGFACE_API_KEY or HUGGINGFACE_API_KEY')
   }
-  // Client-side: use import.meta.env
-  if (typeof import.meta !== 'undefined' && import.meta.env) {
-    return import.meta.env[key]
+
+  const response = await fetch(`${HUGGINGFACE_API_URL}/${HUGGINGFACE_MODEL}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${HUGGINGFACE_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      inputs: prompt,
+      parameters: { max_new_tokens: maxNewTokens, return_full_text: false },
+    }),
+    signal: AbortSignal.timeout(15000),
+  })
+
+  if (!response.ok) {
+    throw new Error(`HuggingFace API returned ${response.status} for ${HUGGINGFACE_MODEL}`)
   }
-  return undefined
-}
 
-const HUGGINGFACE_API_KEY = getEnv('VITE_HUGGINGFACE_API_KEY') || getEnv('HUGGINGFACE_API_KEY')
-const HUGGINGFACE_API_URL = 'https://api-inference.huggingface.co/models'
+  const data = await response.json()
+  if (Array.isArray(data) && typeof data[0]?.generated_text === 'string') {
+    return data[0].generated_text.trim()
+  }
+  throw new Error(`Unexpected HuggingFace response from ${HUGGINGFACE_MODEL}`)
+}
 
 /**
  * Improve product name using HuggingFace text generation/translation model
@@ -36,7 +61,7 @@ export async function improveProductNameServer(originalName: string): Promise<st
     
     // Try using a more reliable model endpoint
     // Using a text-to-text model that's more likely to be available
-    const response = await fetch(`${HUGGINGFACE_API_URL}/google/flan-t5-base`, {
+    const response = await fetch(`${HUGGINGFACE_API_URL}/${HUGGINGFACE_MODEL}`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${HUGGINGFACE_API_KEY}`,
@@ -93,7 +118,7 @@ export async function cleanProductNameServer(originalName: string): Promise<stri
     const prompt = `Clean and normalize this sneaker product name, removing size info and extra text: ${originalName}`
     
     // Use a text-to-text model like T5 for text cleaning
-    const response = await fetch(`${HUGGINGFACE_API_URL}/google/flan-t5-base`, {
+    const response = await fetch(`${HUGGINGFACE_API_URL}/${HUGGINGFACE_MODEL}`, {
       method: 'POST',
       headers: {
         'Authorization': `Bearer ${HUGGINGFACE_API_KEY}`,
@@ -136,7 +161,7 @@ export async function cleanProductNameServer(originalName: string): Promise<stri
  */
 export async function improveProductName(originalName: string): Promise<string> {
   // Check cache first
-  const cached = getCachedHFImprovement(originalName)
+  const cached = await getCachedHFImprovement(originalName)
   if (cached) {
     return cached
   }
@@ -152,18 +177,18 @@ export async function improveProductName(originalName: string): Promise<string>
     
     // If we got a valid improvement, use it and cache it
     if (improved && improved !== originalName && improved.length > 0) {
-      setCachedHFImprovement(originalName, improved)
+      await setCachedHFImprovement(originalName, improved)
       return improved
     }
 
     // Cache the original name to avoid repeated API calls for names that can't be improved
-    setCachedHFImprovement(originalName, originalName)
+    await setCachedHFImprovement(originalName, originalName)
     
     // Fallback to original name
     return originalName
   } catch (error) {
     // Cache the original name to avoid repeated failed API calls
-    setCachedHFImprovement(originalName, originalName)
+    await setCachedHFImprovement(originalName, originalName)
     // Silently fail - return original name
     return originalName
   }
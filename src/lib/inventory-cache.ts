@@ -1,9 +1,29 @@
 import type { EnrichedInventoryItem } from '../types/inventory'
 import type { CloverItem } from '../types/inventory'
+import type { KicksDBProduct } from '../types/inventory'
+import { getCacheStore } from './cache-store'
+import type { CleanedProductData } from './ai-product-cleaner'
 
 // Cache configuration
 const CACHE_DURATION = 5 * 60 * 1000 // 5 minutes in milliseconds
 const AI_IMPROVEMENT_CACHE_DURATION = 30 * 24 * 60 * 60 * 1000 // 30 days for AI improvements (cost-effective caching)
+const CATALOG_MATCH_CACHE_DURATION = 7 * 24 * 60 * 60 * 1000 // 7 days - catalog details rarely change
+const CATALOG_MISS_CACHE_DURATION = 24 * 60 * 60 * 1000 // 1 day - new releases get added to the catalog
+const REVIEW_SUGGESTION_CACHE_DURATION = 30 * 24 * 60 * 60 * 1000 // 30 days - keyed by cleaner version, so never outdated
+const FULL_SYNC_INTERVAL = 60 * 60 * 1000 // 1 hour - delta syncs in between, full resync catches anything missed
+const MAX_STALENESS = 30 * 60 * 1000 // 30 minutes - stale snapshots are served while a refresh runs, never older
+
+// Snapshots are kept past CACHE_DURATION so delta syncs can patch them instead of refetching
+const SNAPSHOT_RETENTION = FULL_SYNC_INTERVAL
+
+// Cache keys (per-item keys are prefixed)
+const RAW_INVENTORY_KEY = 'inventory:raw'
+const ENRICHED_INVENTORY_KEY = 'inventory:enriched'
+const SYNC_STATE_KEY = 'inventory:sync-state'
+const ENRICHMENT_KEY_PREFIX = 'enrichment:'
+const AI_IMPROVEMENT_KEY_PREFIX = 'ai-improvement:'
+const CATALOG_MATCH_KEY_PREFIX = 'kicksdb-match:'
+const REVIEW_SUGGESTION_KEY_PREFIX = 'review-suggestion:'
 
 interface CacheEntry {
   data: EnrichedInventoryItem[]
@@ -13,6 +33,7 @@ interface CacheEntry {
 interface RawCacheEntry {
   data: CloverItem[]
   timestamp: number
+  version?: number // Changes whenever the items do, including patches that keep the timestamp
 }
 
 interface EnrichmentCacheEntry {
@@ -25,115 +46,244 @@ interface AIImprovementCacheEntry {
   timestamp: number
 }
 
-// Shared in-memory cache for inventory endpoints
-let enrichedCache: CacheEntry | null = null
-let rawCache: RawCacheEntry | null = null
-// Per-item enrichment cache (for lazy loading)
-const enrichmentCache = new Map<string, EnrichmentCacheEntry>()
-// AI improvements cache by normalized product name
-const aiImprovementCache = new Map<string, AIImprovementCacheEntry>()
+interface ReviewSuggestionCacheEntry {
+  suggestion: CleanedProductData
+  timestamp: number
+}
+
+interface CatalogMatchCacheEntry {
+  product: KicksDBProduct | null // null when the catalog had no good match
+  timestamp: number
+}
+
+/**
+ * Raw inventory snapshot with its age, for stale-while-revalidate serving
+ */
+export interface RawInventorySnapshot {
+  data: CloverItem[]
+  timestamp: number
+  version: number // Same on every instance until the items change (for views built from the snapshot)
+  isFresh: boolean
+}
+
+/**
+ * Clover sync bookkeeping for delta syncs
+ * watermark is the latest Clover modifiedTime we've seen (Clover's clock, not ours)
+ */
+export interface InventorySyncState {
+  watermark: number | null
+  lastFullSyncAt: number
+}
+
+/**
+ * Read the raw inventory snapshot regardless of freshness
+ */
+async function getRawCacheEntry(): Promise<RawCacheEntry | null> {
+  const entry = await getCacheStore().get<RawCacheEntry>(RAW_INVENTORY_KEY)
+  return entry?.value ?? null
+}
 
 /**
  * Get cached raw Clover items if they're still valid
  */
-export function getCachedRawInventory(): CloverItem[] | null {
+export async function getCachedRawInventory(): Promise<CloverItem[] | null> {
+  const rawCache = await getRawCacheEntry()
   if (!rawCache) return null
-  
+
   const now = Date.now()
   if ((now - rawCache.timestamp) < CACHE_DURATION) {
     return rawCache.data
   }
-  
+
   return null
 }
 
+/**
+ * Get the raw Clover snapshot even if it's past CACHE_DURATION
+ * Returns null once it's older than MAX_STALENESS - callers must then block on a refresh
+ */
+export async function getRawInventorySnapshot(): Promise<RawInventorySnapshot | null> {
+  const rawCache = await getRawCacheEntry()
+  if (!rawCache) return null
+
+  const age = Date.now() - rawCache.timestamp
+  if (age >= MAX_STALENESS) return null
+
+  return {
+    data: rawCache.data,
+    timestamp: rawCache.timestamp,
+    version: rawCache.version ?? rawCache.timestamp,
+    isFresh: age < CACHE_DURATION,
+  }
+}
+
 /**
  * Set cached raw Clover items
  */
-export function setCachedRawInventory(data: CloverItem[]): void {
-  rawCache = {
+export async function setCachedRawInventory(data: CloverItem[]): Promise<void> {
+  const now = Date.now()
+  const entry: RawCacheEntry = {
+    data,
+    timestamp: now,
+    version: now,
+  }
+  await getCacheStore().set(RAW_INVENTORY_KEY, entry, SNAPSHOT_RETENTION)
+}
+
+/**
+ * Patch specific items in the cached raw inventory without resetting its timestamp
+ * Updated items replace existing entries (or are appended), removed IDs are dropped
+ * No-op if there is no raw cache yet - the next full fetch will pick the changes up
+ */
+export async function patchCachedRawInventory(
+  updatedItems: CloverItem[],
+  removedIds: string[]
+): Promise<void> {
+  const rawCache = await getRawCacheEntry()
+  if (!rawCache) return
+
+  const removed = new Set(removedIds)
+  const updates = new Map(updatedItems.map((item) => [item.id, item]))
+
+  const data = rawCache.data
+    .filter((item) => !removed.has(item.id))
+    .map((item) => {
+      const updated = updates.get(item.id)
+      if (updated) {
+        updates.delete(item.id)
+        return updated
+      }
+      return item
+    })
+
+  // Anything left over is new to the cache
+  data.push(...updates.values())
+
+  const entry: RawCacheEntry = {
     data,
+    timestamp: rawCache.timestamp,
+    version: Date.now(),
+  }
+  await getCacheStore().set(RAW_INVENTORY_KEY, entry, SNAPSHOT_RETENTION)
+
+  // The full enriched snapshot is now out of date
+  await getCacheStore().delete(ENRICHED_INVENTORY_KEY)
+}
+
+/**
+ * Mark the cached raw inventory as fresh again (after a successful delta sync)
+ */
+export async function touchCachedRawInventory(): Promise<void> {
+  const rawCache = await getRawCacheEntry()
+  if (!rawCache) return
+
+  // The items are unchanged, so views built from them stay valid
+  const entry: RawCacheEntry = {
+    data: rawCache.data,
     timestamp: Date.now(),
+    version: rawCache.version ?? rawCache.timestamp,
   }
+  await getCacheStore().set(RAW_INVENTORY_KEY, entry, SNAPSHOT_RETENTION)
+}
+
+/**
+ * Get the Clover sync state
+ */
+export async function getInventorySyncState(): Promise<InventorySyncState | null> {
+  const entry = await getCacheStore().get<InventorySyncState>(SYNC_STATE_KEY)
+  return entry?.value ?? null
+}
+
+/**
+ * Set the Clover sync state
+ */
+export async function setInventorySyncState(state: InventorySyncState): Promise<void> {
+  await getCacheStore().set(SYNC_STATE_KEY, state, FULL_SYNC_INTERVAL)
+}
+
+/**
+ * Check if a delta sync is possible (we have a base snapshot and a recent full sync)
+ */
+export async function canDeltaSync(): Promise<boolean> {
+  const [rawCache, syncState] = await Promise.all([getRawCacheEntry(), getInventorySyncState()])
+  if (!rawCache || !syncState || syncState.watermark === null) return false
+  const now = Date.now()
+  return (now - syncState.lastFullSyncAt) < FULL_SYNC_INTERVAL
 }
 
 /**
  * Get cached enriched inventory if it's still valid
  */
-export function getCachedInventory(): EnrichedInventoryItem[] | null {
+export async function getCachedInventory(): Promise<EnrichedInventoryItem[] | null> {
+  const entry = await getCacheStore().get<CacheEntry>(ENRICHED_INVENTORY_KEY)
+  const enrichedCache = entry?.value
   if (!enrichedCache) return null
-  
+
   const now = Date.now()
   if ((now - enrichedCache.timestamp) < CACHE_DURATION) {
     return enrichedCache.data
   }
-  
+
   return null
 }
 
 /**
  * Set cached enriched inventory
  */
-export function setCachedInventory(data: EnrichedInventoryItem[]): void {
-  enrichedCache = {
+export async function setCachedInventory(data: EnrichedInventoryItem[]): Promise<void> {
+  const entry: CacheEntry = {
     data,
     timestamp: Date.now(),
   }
+  await getCacheStore().set(ENRICHED_INVENTORY_KEY, entry, SNAPSHOT_RETENTION)
 }
 
 /**
  * Get cached enrichment for a specific item
  */
-export function getCachedEnrichment(itemId: string): EnrichedInventoryItem | null {
-  const entry = enrichmentCache.get(itemId)
-  if (!entry) return null
-  
-  const now = Date.now()
-  if ((now - entry.timestamp) < CACHE_DURATION) {
-    return entry.data
-  }
-  
-  enrichmentCache.delete(itemId)
-  return null
+export async function getCachedEnrichment(itemId: string): Promise<EnrichedInventoryItem | null> {
+  const entry = await getCacheStore().get<EnrichmentCacheEntry>(`${ENRICHMENT_KEY_PREFIX}${itemId}`)
+  return entry?.value.data ?? null
 }
 
 /**
  * Set cached enrichment for a specific item
  */
-export function setCachedEnrichment(itemId: string, data: EnrichedInventoryItem): void {
-  enrichmentCache.set(itemId, {
+export async function setCachedEnrichment(itemId: string, data: EnrichedInventoryItem): Promise<void> {
+  const entry: EnrichmentCacheEntry = {
     data,
     timestamp: Date.now(),
-  })
+  }
+  await getCacheStore().set(`${ENRICHMENT_KEY_PREFIX}${itemId}`, entry, CACHE_DURATION)
+}
+
+/**
+ * Remove cached enrichment for a specific item
+ */
+export async function deleteCachedEnrichment(itemId: string): Promise<void> {
+  await getCacheStore().delete(`${ENRICHMENT_KEY_PREFIX}${itemId}`)
 }
 
 /**
  * Clear all caches (useful for testing or forced refresh)
  * Also clears AI improvement caches
  */
-export function clearCache(): void {
-  enrichedCache = null
-  rawCache = null
-  enrichmentCache.clear()
-  aiImprovementCache.clear()
+export async function clearCache(): Promise<void> {
+  await getCacheStore().clear()
 }
 
 /**
  * Check if enriched cache exists and is valid
  */
-export function isEnrichedCacheValid(): boolean {
-  if (!enrichedCache) return false
-  const now = Date.now()
-  return (now - enrichedCache.timestamp) < CACHE_DURATION
+export async function isEnrichedCacheValid(): Promise<boolean> {
+  return (await getCachedInventory()) !== null
 }
 
 /**
  * Check if raw cache exists and is valid
  */
-export function isRawCacheValid(): boolean {
-  if (!rawCache) return false
-  const now = Date.now()
-  return (now - rawCache.timestamp) < CACHE_DURATION
+export async function isRawCacheValid(): Promise<boolean> {
+  return (await getCachedRawInventory()) !== null
 }
 
 /**
@@ -150,37 +300,96 @@ function normalizeProductName(name: string): string {
 /**
  * Get cached AI improvement for a normalized product name
  */
-export function getCachedHFImprovement(normalizedName: string): string | null {
+export async function getCachedHFImprovement(normalizedName: string): Promise<string | null> {
   const normalized = normalizeProductName(normalizedName)
-  const entry = aiImprovementCache.get(normalized)
-  if (!entry) return null
-  
-  const now = Date.now()
-  if ((now - entry.timestamp) < AI_IMPROVEMENT_CACHE_DURATION) {
-    return entry.improvedName
-  }
-  
-  aiImprovementCache.delete(normalized)
-  return null
+  const entry = await getCacheStore().get<AIImprovementCacheEntry>(
+    `${AI_IMPROVEMENT_KEY_PREFIX}${normalized}`
+  )
+  return entry?.value.improvedName ?? null
 }
 
 /**
  * Set cached AI improvement for a normalized product name
  */
-export function setCachedHFImprovement(normalizedName: string, improvedName: string): void {
+export async function setCachedHFImprovement(normalizedName: string, improvedName: string): Promise<void> {
   const normalized = normalizeProductName(normalizedName)
-  aiImprovementCache.set(normalized, {
+  const entry: AIImprovementCacheEntry = {
     improvedName,
     timestamp: Date.now(),
-  })
+  }
+  await getCacheStore().set(
+    `${AI_IMPROVEMENT_KEY_PREFIX}${normalized}`,
+    entry,
+    AI_IMPROVEMENT_CACHE_DURATION
+  )
+}
+
+/**
+ * Get the cached KicksDB match for a search query
+ * Returns undefined when not cached, null when cached as "no match"
+ */
+export async function getCachedCatalogMatch(searchQuery: string): Promise<KicksDBProduct | null | undefined> {
+  const normalized = normalizeProductName(searchQuery)
+  const entry = await getCacheStore().get<CatalogMatchCacheEntry>(
+    `${CATALOG_MATCH_KEY_PREFIX}${normalized}`
+  )
+  return entry ? entry.value.product : undefined
+}
+
+/**
+ * Cache the KicksDB match for a search query (misses expire sooner)
+ */
+export async function setCachedCatalogMatch(
+  searchQuery: string,
+  product: KicksDBProduct | null
+): Promise<void> {
+  const normalized = normalizeProductName(searchQuery)
+  const entry: CatalogMatchCacheEntry = {
+    product,
+    timestamp: Date.now(),
+  }
+  await getCacheStore().set(
+    `${CATALOG_MATCH_KEY_PREFIX}${normalized}`,
+    entry,
+    product ? CATALOG_MATCH_CACHE_DURATION : CATALOG_MISS_CACHE_DURATION
+  )
+}
+
+/**
+ * Get the AI suggestion shown for a raw name in the review queue, by cleaner version (see ProductNameCleaner.version)
+ */
+export async function getCachedReviewSuggestion(
+  cleanerVersion: string,
+  name: string
+): Promise<CleanedProductData | null> {
+  const entry = await getCacheStore().get<ReviewSuggestionCacheEntry>(
+    `${REVIEW_SUGGESTION_KEY_PREFIX}${cleanerVersion}:${name.trim()}`
+  )
+  return entry?.value.suggestion ?? null
+}
+
+/**
+ * Cache the AI suggestion for a raw name in the review queue
+ */
+export async function setCachedReviewSuggestion(
+  cleanerVersion: string,
+  name: string,
+  suggestion: CleanedProductData
+): Promise<void> {
+  const entry: ReviewSuggestionCacheEntry = {
+    suggestion,
+    timestamp: Date.now(),
+  }
+  await getCacheStore().set(
+    `${REVIEW_SUGGESTION_KEY_PREFIX}${cleanerVersion}:${name.trim()}`,
+    entry,
+    REVIEW_SUGGESTION_CACHE_DURATION
+  )
 }
 
 /**
  * Clear all caches including AI improvement caches
  */
-export function clearAllCaches(): void {
-  enrichedCache = null
-  rawCache = null
-  enrichmentCache.clear()
-  aiImprovementCache.clear()
+export async function clearAllCaches(): Promise<void> {
+  await getCacheStore().clear()
 }
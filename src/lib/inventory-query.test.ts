@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import { applyInventoryQuery, computeInventoryFacets, parseInventoryQuery } from './inventory-query'
+import type { EnrichedInventoryItem } from '../types/inventory'
+
+const item = (id: string, fields: Partial<EnrichedInventoryItem> = {}): EnrichedInventoryItem => ({
+  id,
+  name: `Nike Dunk Low ${id}`,
+  originalName: `Dunk Low ${id}`,
+  brand: 'Nike',
+  model: 'Dunk Low',
+  matched: false,
+  searchQuery: `Nike Dunk Low ${id}`,
+  ...fields,
+})
+
+const ids = (items: EnrichedInventoryItem[]) => items.map(({ id }) => id)
+
+describe('parseInventoryQuery', () => {
+  it('ignores invalid values instead of rejecting the request', () => {
+    const query = parseInventoryQuery(
+      new URLSearchParams('brand=%20&minPrice=abc&maxPrice=-5&sort=cheapest&condition=mint&packaging=no-lid')
+    )
+
+    expect(query).toEqual({
+      q: undefined,
+      brand: undefined,
+      size: undefined,
+      variant: undefined,
+      condition: undefined,
+      packaging: 'no-lid',
+      minPrice: undefined,
+      maxPrice: undefined,
+      sort: 'newest',
+    })
+  })
+
+  it('ranks searches by relevance unless a sort is given', () => {
+    expect(parseInventoryQuery(new URLSearchParams('q=dunk')).sort).toBe('relevance')
+    expect(parseInventoryQuery(new URLSearchParams('q=dunk&sort=price-low')).sort).toBe('price-low')
+  })
+})
+
+describe('applyInventoryQuery', () => {
+  const items = [
+    item('a', { brand: 'Nike', size: '10', price: 15000, modifiedTime: 1 }),
+    item('b', { brand: 'Jordan', size: '9.5', price: 25000, modifiedTime: 3 }),
+    item('c', { brand: 'nike', size: '10', price: 9000, modifiedTime: 2 }),
+  ]
+
+  it('filters by brand alias, size and dollar price range', () => {
+    expect(ids(applyInventoryQuery(items, parseInventoryQuery(new URLSearchParams('brand=NIKE&size=10'))))).toEqual([
+      'c',
+      'a',
+    ])
+    expect(ids(applyInventoryQuery(items, parseInventoryQuery(new URLSearchParams('minPrice=100&maxPrice=250'))))).toEqual(
+      ['b', 'a']
+    )
+  })
+
+  it('sorts by price and by the most recent Clover change', () => {
+    expect(ids(applyInventoryQuery(items, parseInventoryQuery(new URLSearchParams('sort=price-low'))))).toEqual([
+      'c',
+      'a',
+      'b',
+    ])
+    expect(ids(applyInventoryQuery(items, parseInventoryQuery(new URLSearchParams(''))))).toEqual(['b', 'c', 'a'])
+  })
+
+  it('keeps search matches in relevance order', () => {
+    const scores = new Map([
+      ['a', 0.4],
+      ['b', 0.9],
+    ])
+
+    expect(ids(applyInventoryQuery(items, parseInventoryQuery(new URLSearchParams('q=dunk')), scores))).toEqual([
+      'b',
+      'a',
+    ])
+  })
+})
+
+describe('computeInventoryFacets', () => {
+  const items = [
+    item('a', { brand: 'Nike', size: '10', price: 15000 }),
+    item('b', { brand: 'Jordan', size: '9.5', price: 25000 }),
+    item('c', { brand: 'Nike', size: '6.5W', price: 9000 }),
+    item('d', { brand: 'Nike', size: '10', price: 60000 }),
+  ]
+
+  it('counts each facet under every other active filter but its own', () => {
+    const facets = computeInventoryFacets(items, parseInventoryQuery(new URLSearchParams('brand=Nike&size=10')))
+
+    expect(facets.brand).toEqual([
+      { value: 'Nike', count: 2 },
+    ])
+    expect(facets.size.map(({ value, count }) => [value, count])).toEqual([
+      ['10', 2],
+      ['6.5W', 1],
+    ])
+    expect(facets.price.map(({ label, count }) => [label, count])).toEqual([
+      ['Under $100', 0],
+      ['$100 - $200', 1],
+      ['$200 - $300', 0],
+      ['$300 - $500', 0],
+      ['$500+', 1],
+    ])
+  })
+
+  it('adds size conversions from the filtered brand', () => {
+    const facets = computeInventoryFacets(items, parseInventoryQuery(new URLSearchParams('brand=Jordan')))
+
+    expect(facets.size).toEqual([{ value: '9.5', count: 1, system: 'us-men', conversions: expect.any(Object) }])
+  })
+})
@@ -0,0 +1,296 @@
+import { compareSizeLabels, parseSize } from './sizes'
+import { convertSize } from './size-conversion'
+import { CONDITION_TYPES, PACKAGING_TYPES, getConditionType } from './condition'
+import { getCanonicalBrand } from './brands'
+import type {
+  ConditionType,
+  EnrichedInventoryItem,
+  Packaging,
+  SizeConversions,
+  SizeSystem,
+} from '../types/inventory'
+
+export type InventorySortOption = 'relevance' | 'price-low' | 'price-high' | 'name-asc' | 'name-desc' | 'newest'
+
+const SORT_OPTIONS: InventorySortOption[] = ['relevance', 'price-low', 'price-high', 'name-asc', 'name-desc', 'newest']
+
+// Price ranges shown in the shop filters, in dollars (min inclusive, max exclusive)
+const PRICE_BUCKETS: { label: string; min: number; max?: number }[] = [
+  { label: 'Under $100', min: 0, max: 100 },
+  { label: '$100 - $200', min: 100, max: 200 },
+  { label: '$200 - $300', min: 200, max: 300 },
+  { label: '$300 - $500', min: 300, max: 500 },
+  { label: '$500+', min: 500 },
+]
+
+/**
+ * Search, filter and sort parameters for /api/inventory
+ * Prices are in dollars (items store cents)
+ */
+export interface InventoryQuery {
+  q?: string
+  brand?: string
+  size?: string
+  variant?: string
+  condition?: ConditionType
+  packaging?: Packaging
+  minPrice?: number
+  maxPrice?: number
+  sort: InventorySortOption
+}
+
+export interface FacetValue {
+  value: string
+  count: number
+}
+
+export interface SizeFacetValue extends FacetValue {
+  system?: SizeSystem
+  // UK/EU/CM equivalents (using the filtered brand's size chart, Nike's otherwise)
+  conversions?: SizeConversions
+}
+
+export interface PriceBucketFacet {
+  label: string
+  min: number
+  max?: number
+  count: number
+}
+
+/**
+ * Filter values with item counts
+ * Each facet is counted with every other active filter applied, but not its own,
+ * so shoppers can see what switching that filter would yield
+ */
+export interface InventoryFacets {
+  brand: FacetValue[]
+  size: SizeFacetValue[]
+  variant: FacetValue[]
+  condition: FacetValue[]
+  packaging: FacetValue[]
+  price: PriceBucketFacet[]
+}
+
+/**
+ * Relevance score by item ID from the search index, for items matching the search
+ */
+export type SearchScores = Map<string, number>
+
+/**
+ * Parse inventory query parameters from a request URL
+ * Invalid or empty values are ignored rather than rejected
+ * Without an explicit sort, searches are ranked by relevance
+ */
+export function parseInventoryQuery(searchParams: URLSearchParams): InventoryQuery {
+  const parsePrice = (value: string | null): number | undefined => {
+    if (value === null || value.trim() === '') return undefined
+    const price = Number(value)
+    return isNaN(price) || price < 0 ? undefined : price
+  }
+
+  const sortParam = searchParams.get('sort') as InventorySortOption | null
+  const q = searchParams.get('q')?.trim() || undefined
+  const conditionParam = searchParams.get('condition') as ConditionType | null
+  const packagingParam = searchParams.get('packaging') as Packaging | null
+
+  return {
+    q,
+    brand: searchParams.get('brand')?.trim() || undefined,
+    size: searchParams.get('size')?.trim() || undefined,
+    variant: searchParams.get('variant')?.trim() || undefined,
+    condition: conditionParam && CONDITION_TYPES.includes(conditionParam) ? conditionParam : undefined,
+    packaging: packagingParam && PACKAGING_TYPES.includes(packagingParam) ? packagingParam : undefined,
+    minPrice: parsePrice(searchParams.get('minPrice')),
+    maxPrice: parsePrice(searchParams.get('maxPrice')),
+    sort: sortParam && SORT_OPTIONS.includes(sortParam) ? sortParam : q ? 'relevance' : 'newest',
+  }
+}
+
+/**
+ * Check if any filter (not just sorting) is applied
+ */
+export function hasInventoryFilters(query: InventoryQuery): boolean {
+  return Boolean(
+    query.q ||
+      query.brand ||
+      query.size ||
+      query.variant ||
+      query.condition ||
+      query.packaging ||
+      query.minPrice !== undefined ||
+      query.maxPrice !== undefined
+  )
+}
+
+/**
+ * Check if an item matches the free-text search
+ * Every word in the query must appear somewhere in the item's name fields
+ * (exact fallback when no search index scores are provided)
+ */
+function matchesSearch(item: EnrichedInventoryItem, q: string): boolean {
+  const haystack = [item.name, item.originalName, item.brand, item.model, item.colorway, item.styleCode]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+
+  return q
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((word) => haystack.includes(word))
+}
+
+/**
+ * Apply search and filters (no sorting)
+ */
+export function filterInventoryItems(
+  items: EnrichedInventoryItem[],
+  query: InventoryQuery,
+  searchScores?: SearchScores
+): EnrichedInventoryItem[] {
+  return items.filter((item) => {
+    // Search filter
+    if (query.q) {
+      if (searchScores ? !searchScores.has(item.id) : !matchesSearch(item, query.q)) return false
+    }
+
+    // Brand filter
+    if (query.brand && getCanonicalBrand(item.brand).toLowerCase() !== getCanonicalBrand(query.brand).toLowerCase()) {
+      return false
+    }
+
+    // Size filter
+    if (query.size && item.size !== query.size) return false
+
+    // Variant filter
+    if (query.variant && item.variant?.toLowerCase() !== query.variant.toLowerCase()) return false
+
+    // Condition and packaging filters
+    if (query.condition && getConditionType(item.condition) !== query.condition) return false
+    if (query.packaging && item.packaging !== query.packaging) return false
+
+    // Price filters
+    if (query.minPrice !== undefined || query.maxPrice !== undefined) {
+      if (item.price === undefined) return false
+      if (query.minPrice !== undefined && item.price < query.minPrice * 100) return false
+      if (query.maxPrice !== undefined && item.price > query.maxPrice * 100) return false
+    }
+
+    return true
+  })
+}
+
+/**
+ * Apply search, filters and sorting to a list of items
+ * 'newest' puts the most recently changed Clover items first; 'relevance' without a search keeps the incoming order
+ */
+export function applyInventoryQuery(
+  items: EnrichedInventoryItem[],
+  query: InventoryQuery,
+  searchScores?: SearchScores
+): EnrichedInventoryItem[] {
+  const filtered = filterInventoryItems(items, query, searchScores)
+
+  // Sort items
+  switch (query.sort) {
+    case 'relevance':
+      if (!query.q || !searchScores) return filtered
+      return filtered.sort((a, b) => (searchScores.get(b.id) || 0) - (searchScores.get(a.id) || 0))
+    case 'price-low':
+      return filtered.sort((a, b) => (a.price || 0) - (b.price || 0))
+    case 'price-high':
+      return filtered.sort((a, b) => (b.price || 0) - (a.price || 0))
+    case 'name-asc':
+      return filtered.sort((a, b) => (a.name || '').localeCompare(b.name || ''))
+    case 'name-desc':
+      return filtered.sort((a, b) => (b.name || '').localeCompare(a.name || ''))
+    case 'newest':
+      return filtered.sort((a, b) => (b.modifiedTime || 0) - (a.modifiedTime || 0))
+    default:
+      return filtered
+  }
+}
+
+/**
+ * Count items per value of a field, skipping empty values
+ */
+function countFacetValues(
+  items: EnrichedInventoryItem[],
+  getValue: (item: EnrichedInventoryItem) => string | undefined
+): FacetValue[] {
+  const counts = new Map<string, number>()
+  for (const item of items) {
+    const value = getValue(item)?.trim()
+    if (!value) continue
+    counts.set(value, (counts.get(value) || 0) + 1)
+  }
+  return Array.from(counts, ([value, count]) => ({ value, count }))
+}
+
+/**
+ * Compute facet counts for the shop filters under the current query
+ */
+export function computeInventoryFacets(
+  items: EnrichedInventoryItem[],
+  query: InventoryQuery,
+  searchScores?: SearchScores
+): InventoryFacets {
+  const byValue = (a: FacetValue, b: FacetValue) => a.value.localeCompare(b.value)
+
+  const brand = countFacetValues(
+    filterInventoryItems(items, { ...query, brand: undefined }, searchScores),
+    (item) => getCanonicalBrand(item.brand)
+  )
+  const size = countFacetValues(
+    filterInventoryItems(items, { ...query, size: undefined }, searchScores),
+    (item) => item.size
+  )
+  const variant = countFacetValues(
+    filterInventoryItems(items, { ...query, variant: undefined }, searchScores),
+    (item) => item.variant
+  )
+  const condition = countFacetValues(
+    filterInventoryItems(items, { ...query, condition: undefined }, searchScores),
+    (item) => getConditionType(item.condition)
+  )
+  const packaging = countFacetValues(
+    filterInventoryItems(items, { ...query, packaging: undefined }, searchScores),
+    (item) => item.packaging
+  )
+
+  const priceItems = filterInventoryItems(
+    items,
+    { ...query, minPrice: undefined, maxPrice: undefined },
+    searchScores
+  )
+  const price = PRICE_BUCKETS.map((bucket) => ({
+    ...bucket,
+    count: priceItems.filter((item) => {
+      if (item.price === undefined) return false
+      const dollars = item.price / 100
+      return dollars >= bucket.min && (bucket.max === undefined || dollars < bucket.max)
+    }).length,
+  }))
+
+  return {
+    brand: brand.sort(byValue),
+    size: size
+      .sort((a, b) => compareSizeLabels(a.value, b.value))
+      .map((facet) => {
+        const parsedSize = parseSize(facet.value)
+        return {
+          ...facet,
+          system: parsedSize?.system,
+          conversions: convertSize(parsedSize, query.brand),
+        }
+      }),
+    variant: variant.sort(byValue),
+    condition: condition.sort(
+      (a, b) => CONDITION_TYPES.indexOf(a.value as ConditionType) - CONDITION_TYPES.indexOf(b.value as ConditionType)
+    ),
+    packaging: packaging.sort(
+      (a, b) => PACKAGING_TYPES.indexOf(a.value as Packaging) - PACKAGING_TYPES.indexOf(b.value as Packaging)
+    ),
+    price,
+  }
+}
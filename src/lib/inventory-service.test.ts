@@ -0,0 +1,138 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createMemoryCacheStore, setCacheStore } from './cache-store'
+import type { CloverItem } from '../types/inventory'
+
+const clover = vi.hoisted(() => ({
+  fetchCloverInventoryServer: vi.fn<() => Promise<CloverItem[]>>(),
+  fetchCloverInventoryChangesServer: vi.fn<(modifiedSince: number) => Promise<CloverItem[]>>(),
+  fetchCloverItemServer: vi.fn<(itemId: string) => Promise<CloverItem | null>>(),
+}))
+
+vi.mock('./clover-api', () => clover)
+
+const { getRawInventory, getRawInventoryWithAge } = await import('./inventory-service')
+
+const START = new Date('2026-01-01T00:00:00Z').getTime()
+const MINUTE = 60 * 1000
+
+const item = (id: string, fields: Partial<CloverItem> = {}): CloverItem => ({
+  id,
+  name: `Nike Dunk Low ${id}`,
+  price: 10000,
+  stockCount: 1,
+  modifiedTime: START,
+  ...fields,
+})
+
+describe('delta sync', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(START)
+    setCacheStore(createMemoryCacheStore())
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    clover.fetchCloverInventoryServer.mockReset()
+    clover.fetchCloverInventoryChangesServer.mockReset()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('only asks Clover for items modified since the last sync, with some overlap', async () => {
+    clover.fetchCloverInventoryServer.mockResolvedValue([
+      item('a'),
+      item('b', { modifiedTime: START + MINUTE }),
+      item('free', { price: 0 }),
+    ])
+    expect((await getRawInventory()).map(({ id }) => id)).toEqual(['a', 'b'])
+
+    clover.fetchCloverInventoryChangesServer.mockResolvedValue([
+      item('a', { stockCount: 0, modifiedTime: START + 6 * MINUTE }),
+      item('c', { modifiedTime: START + 6 * MINUTE }),
+    ])
+    // A blocking refresh once the snapshot is too old to serve
+    vi.setSystemTime(START + 31 * MINUTE)
+
+    expect((await getRawInventory()).map(({ id }) => id)).toEqual(['b', 'c'])
+    expect(clover.fetchCloverInventoryServer).toHaveBeenCalledTimes(1)
+    // The watermark (b's modified time) less a minute of overlap
+    expect(clover.fetchCloverInventoryChangesServer).toHaveBeenCalledWith(START)
+  })
+
+  it('falls back to a full sync when the delta fails', async () => {
+    clover.fetchCloverInventoryServer.mockResolvedValueOnce([item('a')]).mockResolvedValueOnce([item('b')])
+    await getRawInventory()
+
+    clover.fetchCloverInventoryChangesServer.mockRejectedValue(new Error('Clover is down'))
+    vi.setSystemTime(START + 31 * MINUTE)
+
+    expect((await getRawInventory()).map(({ id }) => id)).toEqual(['b'])
+    expect(clover.fetchCloverInventoryServer).toHaveBeenCalledTimes(2)
+  })
+
+  it('does a full sync once the last one is an hour old', async () => {
+    clover.fetchCloverInventoryServer.mockResolvedValueOnce([item('a')])
+    await getRawInventory()
+
+    clover.fetchCloverInventoryChangesServer.mockResolvedValue([])
+    vi.setSystemTime(START + 31 * MINUTE)
+    await getRawInventory()
+
+    clover.fetchCloverInventoryServer.mockResolvedValueOnce([item('b')])
+    vi.setSystemTime(START + 62 * MINUTE)
+
+    expect((await getRawInventory()).map(({ id }) => id)).toEqual(['b'])
+    expect(clover.fetchCloverInventoryChangesServer).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('stale snapshot serving', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(START)
+    setCacheStore(createMemoryCacheStore())
+    clover.fetchCloverInventoryServer.mockReset()
+    clover.fetchCloverInventoryChangesServer.mockReset()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('serves a stale snapshot at once and refreshes it in the background', async () => {
+    clover.fetchCloverInventoryServer.mockResolvedValueOnce([item('a')])
+    await getRawInventoryWithAge()
+
+    let finishRefresh: (items: CloverItem[]) => void = () => {}
+    clover.fetchCloverInventoryChangesServer.mockReturnValue(new Promise((resolve) => (finishRefresh = resolve)))
+    vi.setSystemTime(START + 10 * MINUTE)
+
+    const stale = await getRawInventoryWithAge()
+    expect(stale.items.map(({ id }) => id)).toEqual(['a'])
+    expect(stale.fetchedAt).toBe(START)
+
+    await vi.waitFor(() => expect(clover.fetchCloverInventoryChangesServer).toHaveBeenCalledTimes(1))
+
+    // Requests during the refresh share it instead of starting their own
+    expect((await getRawInventoryWithAge()).fetchedAt).toBe(START)
+    expect(clover.fetchCloverInventoryChangesServer).toHaveBeenCalledTimes(1)
+
+    finishRefresh([item('b', { modifiedTime: START + 10 * MINUTE })])
+    await vi.waitFor(async () => {
+      expect((await getRawInventoryWithAge()).items.map(({ id }) => id)).toEqual(['a', 'b'])
+    })
+  })
+
+  it('blocks on Clover once the snapshot is too stale to serve', async () => {
+    clover.fetchCloverInventoryServer.mockResolvedValueOnce([item('a')])
+    await getRawInventoryWithAge()
+
+    clover.fetchCloverInventoryChangesServer.mockResolvedValue([item('b')])
+    vi.setSystemTime(START + 30 * MINUTE)
+
+    const refreshed = await getRawInventoryWithAge()
+    expect(refreshed.items.map(({ id }) => id)).toEqual(['a', 'b'])
+    expect(refreshed.fetchedAt).toBe(START + 30 * MINUTE)
+  })
+})
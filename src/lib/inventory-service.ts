@@ -1,36 +1,261 @@
-import { fetchCloverInventoryServer } from './clover-api'
+import {
+  fetchCloverInventoryServer,
+  fetchCloverInventoryChangesServer,
+  fetchCloverItemServer,
+} from './clover-api'
 import { parseShoeName } from './shoe-parser'
-import { getCachedRawInventory, setCachedRawInventory, getCachedEnrichment, setCachedEnrichment } from './inventory-cache'
-import { cleanProductNameSafe } from './ai-product-cleaner'
-import type { EnrichedInventoryItem } from '../types/inventory'
+import { parseSize } from './sizes'
+import {
+  getCachedRawInventory,
+  getRawInventorySnapshot,
+  setCachedRawInventory,
+  patchCachedRawInventory,
+  touchCachedRawInventory,
+  getInventorySyncState,
+  setInventorySyncState,
+  canDeltaSync,
+  getCachedEnrichment,
+  setCachedEnrichment,
+  deleteCachedEnrichment,
+} from './inventory-cache'
+import { cleanProductNameSafe, cleanProductNamesSafe, getProductNameCleaner } from './product-name-cleaner'
+import type { SafeCleanedProductData } from './product-name-cleaner'
+import { lookupKicksDBProduct, rankKicksDBMatches, searchKicksDB } from './kicksdb-api'
+import type { KicksDBMatch, KicksDBMatchTarget } from './kicksdb-api'
+import { getMatchOverride } from './match-overrides'
+import { getNameOverride } from './name-overrides'
+import { getManagedImageUrls } from './product-images'
+import { clusterProductItems } from './product-groups'
+import type { NameOverride } from './name-overrides'
+import {
+  deleteStoredEnrichment,
+  getStoredEnrichments,
+  isEnrichmentStoreAvailable,
+  listStaleEnrichmentIds,
+  saveStoredEnrichment,
+} from './enrichment-store'
+import { createSingleFlight } from './single-flight'
+import { buildSearchIndex } from './search-index'
+import type { SearchIndex } from './search-index'
+import type { CatalogMatch, EnrichedInventoryItem, KicksDBProduct } from '../types/inventory'
 import type { CloverItem } from '../types/inventory'
 
+// Overlap when asking Clover for changes, so edits that land mid-sync aren't missed
+const DELTA_SYNC_OVERLAP = 60 * 1000
+
+// Concurrent callers share one Clover refresh / one enrichment per item
+const RAW_INVENTORY_FLIGHT_KEY = 'raw-inventory'
+const inventoryRefreshFlight = createSingleFlight<CloverItem[]>()
+const enrichmentFlight = createSingleFlight<EnrichedInventoryItem>()
+const searchIndexFlight = createSingleFlight<SearchIndex>()
+const catalogItemsFlight = createSingleFlight<EnrichedInventoryItem[]>()
+
+// Catalog view and search index for the current raw snapshot (rebuilt when the snapshot's version changes)
+let catalogItemsState: { builtFor: number; items: EnrichedInventoryItem[] } | null = null
+let searchIndexState: { builtFor: number; index: SearchIndex } | null = null
+
+/**
+ * Raw inventory along with when it was fetched from Clover
+ */
+export interface RawInventoryResult {
+  items: CloverItem[]
+  fetchedAt: number
+  version: number // Changes whenever the items do (see RawInventorySnapshot)
+}
+
 /**
  * Get raw Clover inventory (fast, no enrichment)
  */
 export async function getRawInventory(): Promise<CloverItem[]> {
+  const { items } = await getRawInventoryWithAge()
+  return items
+}
+
+/**
+ * Get raw Clover inventory with its fetch time (stale-while-revalidate)
+ * A stale snapshot is served immediately while a background refresh runs;
+ * only a missing or too-stale snapshot blocks on Clover
+ */
+export async function getRawInventoryWithAge(): Promise<RawInventoryResult> {
   // Check cache first
-  const cached = getCachedRawInventory()
-  if (cached) {
-    return cached
+  const snapshot = await getRawInventorySnapshot()
+  if (snapshot) {
+    if (!snapshot.isFresh) {
+      startBackgroundRefresh()
+    }
+    return { items: snapshot.data, fetchedAt: snapshot.timestamp, version: snapshot.version }
   }
 
+  const items = await refreshRawInventory()
+  const fetchedAt = Date.now()
+  return { items, fetchedAt, version: fetchedAt }
+}
+
+/**
+ * Kick off a background refresh (joins the in-flight one if already running)
+ */
+function startBackgroundRefresh(): void {
+  refreshRawInventory().catch((error) => {
+    console.warn('Background inventory refresh failed:', error)
+  })
+}
+
+/**
+ * Refresh the raw cache from Clover
+ * Concurrent callers (blocking requests and background refreshes) await the same fetch
+ */
+function refreshRawInventory(): Promise<CloverItem[]> {
+  return inventoryRefreshFlight(RAW_INVENTORY_FLIGHT_KEY, syncInventory)
+}
+
+/**
+ * Only asks Clover for items modified since the last sync when possible,
+ * falling back to a full fetch when no recent full sync exists or the delta fails
+ */
+async function syncInventory(): Promise<CloverItem[]> {
+  if (await canDeltaSync()) {
+    try {
+      return await syncInventoryDelta()
+    } catch (error) {
+      console.warn('Delta sync failed, falling back to full sync:', error)
+    }
+  }
+
+  return syncInventoryFull()
+}
+
+/**
+ * Fetch the entire catalog from Clover and replace the raw cache
+ */
+async function syncInventoryFull(): Promise<CloverItem[]> {
   // Fetch from Clover
   const cloverItems = await fetchCloverInventoryServer()
 
   // Filter out items with $0 price, no price, or out of stock
-  const validItems = cloverItems.filter((item) => {
-    const hasValidPrice = item.price !== undefined && item.price !== null && item.price > 0
-    const isInStock = item.stockCount === undefined || item.stockCount === null || item.stockCount > 0
-    return hasValidPrice && isInStock
-  })
+  const validItems = cloverItems.filter(isSellableItem)
 
   // Cache raw items
-  setCachedRawInventory(validItems)
+  await setCachedRawInventory(validItems)
+  await setInventorySyncState({
+    watermark: getLatestModifiedTime(cloverItems),
+    lastFullSyncAt: Date.now(),
+  })
 
   return validItems
 }
 
+/**
+ * Fetch only items modified since the last sync and merge them into the raw cache
+ */
+async function syncInventoryDelta(): Promise<CloverItem[]> {
+  const syncState = await getInventorySyncState()
+  if (!syncState || syncState.watermark === null) {
+    throw new Error('No sync watermark available for delta sync')
+  }
+
+  const changedItems = await fetchCloverInventoryChangesServer(syncState.watermark - DELTA_SYNC_OVERLAP)
+  await applyItemChanges(changedItems)
+  await touchCachedRawInventory()
+
+  await setInventorySyncState({
+    ...syncState,
+    watermark: Math.max(syncState.watermark, getLatestModifiedTime(changedItems) ?? 0),
+  })
+
+  return (await getCachedRawInventory()) || []
+}
+
+/**
+ * Latest Clover modifiedTime in a set of items (null if none carry one)
+ */
+function getLatestModifiedTime(items: CloverItem[]): number | null {
+  let latest: number | null = null
+  for (const item of items) {
+    if (typeof item.modifiedTime === 'number' && (latest === null || item.modifiedTime > latest)) {
+      latest = item.modifiedTime
+    }
+  }
+  return latest
+}
+
+/**
+ * Whether a Clover item should be listed (has a price and is in stock)
+ */
+export function isSellableItem(item: CloverItem): boolean {
+  const hasValidPrice = item.price !== undefined && item.price !== null && item.price > 0
+  const isInStock = item.stockCount === undefined || item.stockCount === null || item.stockCount > 0
+  return hasValidPrice && isInStock
+}
+
+/**
+ * Re-fetch specific items from Clover and patch them into the caches
+ * Used by the Clover webhook so changes show up without waiting for the cache to expire
+ */
+export async function refreshInventoryItems(
+  changedIds: string[],
+  deletedIds: string[] = []
+): Promise<{ updated: number; removed: number }> {
+  const fetchedItems: CloverItem[] = []
+  const missingIds = [...deletedIds]
+
+  for (const itemId of changedIds) {
+    const item = await fetchCloverItemServer(itemId)
+    if (item) {
+      fetchedItems.push(item)
+    } else {
+      missingIds.push(itemId)
+    }
+  }
+
+  return applyItemChanges(fetchedItems, missingIds)
+}
+
+/**
+ * Merge changed Clover items into the raw and enrichment caches
+ * Items that are deleted, sold out or no longer priced are removed
+ */
+async function applyItemChanges(
+  items: CloverItem[],
+  deletedIds: string[] = []
+): Promise<{ updated: number; removed: number }> {
+  const updatedItems: CloverItem[] = []
+  const removedIds = [...deletedIds]
+
+  for (const item of items) {
+    if (!item.deleted && isSellableItem(item)) {
+      updatedItems.push(item)
+
+      // Keep the AI-cleaned name if only price/stock changed, otherwise re-enrich lazily
+      const cached = await getCachedEnrichment(item.id)
+      if (cached && cached.originalName === item.name) {
+        await setCachedEnrichment(item.id, withCloverState(cached, item))
+      } else {
+        await deleteCachedEnrichment(item.id)
+      }
+    } else {
+      removedIds.push(item.id)
+    }
+  }
+
+  for (const itemId of removedIds) {
+    await deleteCachedEnrichment(itemId)
+  }
+
+  await patchCachedRawInventory(updatedItems, removedIds)
+  invalidateCatalogViews()
+
+  return { updated: updatedItems.length, removed: removedIds.length }
+}
+
+/**
+ * Drop an item's cached and stored enrichment so it is re-enriched on next read (e.g. after a match override changes)
+ */
+export async function invalidateItemEnrichment(itemId: string): Promise<void> {
+  await deleteCachedEnrichment(itemId)
+  await deleteStoredEnrichment(itemId)
+  invalidateCatalogViews()
+}
+
 /**
  * Enrich a batch of items (for pagination)
  */
@@ -40,25 +265,29 @@ export async function enrichItemsBatch(items: CloverItem[]): Promise<EnrichedInv
   
   for (let i = 0; i < items.length; i += batchSize) {
     const batch = items.slice(i, i + batchSize)
-    const batchPromises = batch.map(async (item) => {
-      // Check if already enriched and cached
-      const cached = getCachedEnrichment(item.id)
-      if (cached) {
-        return cached
-      }
 
-      try {
-        const enriched = await enrichInventoryItem(item)
-        // Cache the enriched item
-        setCachedEnrichment(item.id, enriched)
-        return enriched
-      } catch (error) {
-        // Gracefully handle any errors - return item without enrichment
-        const fallback = createFallbackItem(item)
-        setCachedEnrichment(item.id, fallback)
-        return fallback
-      }
-    })
+    // Items enriched before (e.g. before a restart) come from the enrichment store
+    const cachedFlags = await Promise.all(batch.map(async (item) => Boolean(await getCachedEnrichment(item.id))))
+    const stored = await getStoredEnrichments(batch.filter((_, index) => !cachedFlags[index]))
+    for (const record of stored.values()) {
+      const item = batch.find((batchItem) => batchItem.id === record.itemId)!
+      await setCachedEnrichment(item.id, withCloverState(record.data, item))
+    }
+
+    // Clean the names of items that aren't cached yet in one AI request
+    // Items another batch is already enriching (e.g. page request + background queue) join that work instead
+    const uncached = batch.filter(
+      (item, index) => !cachedFlags[index] && !stored.has(item.id) && !enrichmentFlight.has(item.id)
+    )
+    const cleaning = uncached.length > 0 ? cleanProductNamesSafe(uncached.map((item) => item.name)) : null
+
+    // Registered before cleaning resolves, so overlapping batches see these items as in flight
+    const batchPromises = batch.map((item) =>
+      enrichmentFlight(item.id, async () => {
+        const index = uncached.indexOf(item)
+        return enrichAndCacheItem(item, cleaning && index >= 0 ? (await cleaning)[index] : undefined)
+      })
+    )
 
     const batchResults = await Promise.all(batchPromises)
     enrichedItems.push(...batchResults)
@@ -73,7 +302,184 @@ export async function enrichItemsBatch(items: CloverItem[]): Promise<EnrichedInv
 }
 
 /**
- * Main service that orchestrates Clover fetch, parsing, and Sneaks API lookup
+ * Enrich a single item, using and populating the per-item cache
+ * cleanedData comes from batched AI cleaning; without it the name is cleaned on its own
+ */
+async function enrichAndCacheItem(
+  item: CloverItem,
+  cleanedData?: SafeCleanedProductData
+): Promise<EnrichedInventoryItem> {
+  // Check if already enriched and cached
+  const cached = await getCachedEnrichment(item.id)
+  if (cached) {
+    return withParsedAttributes(cached)
+  }
+
+  try {
+    return await enrichAndStoreItem(item, cleanedData)
+  } catch (error) {
+    // Gracefully handle any errors - return item without enrichment
+    const fallback = createFallbackItem(item)
+    await setCachedEnrichment(item.id, fallback)
+    return fallback
+  }
+}
+
+/**
+ * Enrich an item and save the result to the cache and the enrichment store
+ * Items whose name couldn't be cleaned or whose catalog lookup failed aren't stored,
+ * so they're retried once the cleaner or KicksDB is back
+ */
+async function enrichAndStoreItem(
+  item: CloverItem,
+  cleanedData?: SafeCleanedProductData
+): Promise<EnrichedInventoryItem> {
+  const enriched = await enrichInventoryItem(item, cleanedData)
+  await setCachedEnrichment(item.id, enriched)
+
+  if (isEnrichmentComplete(enriched)) {
+    await saveStoredEnrichment(item, getProductNameCleaner().version, enriched)
+  }
+  return enriched
+}
+
+/**
+ * Whether an item's name was cleaned (or cleaning is turned off) and its catalog lookup went through,
+ * i.e. it won't improve by enriching again
+ */
+export function isEnrichmentComplete(item: EnrichedInventoryItem): boolean {
+  if (item.catalogLookupFailed) return false
+  return item.cleaning !== 'unavailable' || getProductNameCleaner().provider === 'none'
+}
+
+/**
+ * Re-enrich up to limit stored items that were enriched by a different cleaner version
+ * (e.g. after CLEANING_PROMPT_VERSION or the model changes); call repeatedly until nothing remains
+ */
+export async function backfillEnrichments(
+  limit: number = 50
+): Promise<{ version: string; reenriched: number; removed: number }> {
+  const { version } = getProductNameCleaner()
+  const staleIds = await listStaleEnrichmentIds(version, limit)
+  if (staleIds.length === 0) {
+    return { version, reenriched: 0, removed: 0 }
+  }
+
+  const rawItems = new Map((await getRawInventory()).map((item) => [item.id, item]))
+  const items = staleIds.flatMap((itemId) => rawItems.get(itemId) ?? [])
+
+  // Records for items no longer sold would stay stale forever
+  const goneIds = staleIds.filter((itemId) => !rawItems.has(itemId))
+  for (const itemId of goneIds) {
+    await deleteStoredEnrichment(itemId)
+  }
+
+  const cleanedNames = await cleanProductNamesSafe(items.map((item) => item.name))
+  let reenriched = 0
+  for (const [index, item] of items.entries()) {
+    try {
+      // Without a cleaned name the old record stays, so a later run can retry it
+      if (isEnrichmentComplete(await enrichAndStoreItem(item, cleanedNames[index]))) reenriched++
+    } catch (error) {
+      console.warn(`Re-enrichment failed for ${item.id}:`, error)
+    }
+  }
+
+  invalidateCatalogViews()
+  return { version, reenriched, removed: goneIds.length }
+}
+
+/**
+ * Best-known view of every item without triggering AI cleaning
+ * Uses stored enrichment (read in bulk) when available, otherwise a regex parse of the name
+ * (for searching/filtering the full catalog before pagination)
+ * Without Supabase the per-item enrichment cache stands in for the store
+ */
+async function getCatalogItems(items: CloverItem[]): Promise<EnrichedInventoryItem[]> {
+  const stored = await getStoredEnrichments(items)
+  const useCache = !isEnrichmentStoreAvailable()
+
+  return Promise.all(
+    items.map(async (item) => {
+      const record = stored.get(item.id)
+      if (record) {
+        return withParsedAttributes(withCloverState(record.data, item))
+      }
+      const cached = useCache ? await getCachedEnrichment(item.id) : null
+      return cached ? withParsedAttributes(withCloverState(cached, item)) : createFallbackItem(item)
+    })
+  )
+}
+
+/**
+ * Show staff-uploaded photos in place of catalog images
+ * Applied when items are served, so photo changes never touch cached or stored enrichment;
+ * products come from catalogItems (see getCatalogItems), so a product's photos show on every size
+ */
+export async function withManagedImages(
+  items: EnrichedInventoryItem[],
+  catalogItems: EnrichedInventoryItem[]
+): Promise<EnrichedInventoryItem[]> {
+  const itemIds = new Set(items.map((item) => item.id))
+  const products = clusterProductItems(catalogItems)
+    .filter((cluster) => cluster.some((item) => itemIds.has(item.id)))
+    .map((cluster) => cluster.map((item) => item.id))
+  const grouped = new Set(products.flat())
+  const imageUrls = await getManagedImageUrls([
+    ...products,
+    ...items.filter((item) => !grouped.has(item.id)).map((item) => [item.id]),
+  ])
+
+  return items.map((item) => {
+    const images = imageUrls.get(item.id)
+    return images ? { ...item, imageUrl: images[0], images } : item
+  })
+}
+
+/**
+ * Drop the catalog view and search index, so they are rebuilt with changed enrichment
+ */
+function invalidateCatalogViews(): void {
+  catalogItemsState = null
+  searchIndexState = null
+}
+
+/**
+ * Get the catalog view (see getCatalogItems) for a raw inventory snapshot
+ * Built once per snapshot version and shared by concurrent requests
+ */
+export async function getInventoryCatalogItems(inventory: RawInventoryResult): Promise<EnrichedInventoryItem[]> {
+  const { items, version } = inventory
+  if (catalogItemsState && catalogItemsState.builtFor === version) {
+    return catalogItemsState.items
+  }
+
+  return catalogItemsFlight(String(version), async () => {
+    const catalogItems = await getCatalogItems(items)
+    catalogItemsState = { builtFor: version, items: catalogItems }
+    return catalogItems
+  })
+}
+
+/**
+ * Get the fuzzy search index for a raw inventory snapshot
+ * Built once per snapshot version (i.e. whenever the raw cache changes) and shared by concurrent requests
+ */
+export async function getInventorySearchIndex(inventory: RawInventoryResult): Promise<SearchIndex> {
+  const { version } = inventory
+  if (searchIndexState && searchIndexState.builtFor === version) {
+    return searchIndexState.index
+  }
+
+  return searchIndexFlight(String(version), async () => {
+    const index = buildSearchIndex(await getInventoryCatalogItems(inventory))
+    searchIndexState = { builtFor: version, index }
+    return index
+  })
+}
+
+/**
+ * Main service that orchestrates Clover fetch, parsing, and KicksDB lookup
  * NOTE: This enriches ALL items - use getRawInventory + enrichItemsBatch for pagination
  */
 export async function getEnrichedInventory(): Promise<EnrichedInventoryItem[]> {
@@ -88,12 +494,26 @@ export async function getEnrichedInventory(): Promise<EnrichedInventoryItem[]> {
 
 /**
  * Enriches a single inventory item with AI-powered name and size cleaning
+ * Exported for the name cleaning evaluation (scripts/evaluate-name-cleaning.ts)
  */
-async function enrichInventoryItem(
-  item: { id: string; name: string; price?: number; stockCount?: number; [key: string]: unknown }
+export async function enrichInventoryItem(
+  item: {
+    id: string
+    name: string
+    price?: number
+    stockCount?: number
+    modifiedTime?: number
+    [key: string]: unknown
+  },
+  precleanedData?: SafeCleanedProductData
 ): Promise<EnrichedInventoryItem> {
-  // First, try AI-powered cleaning (cost-effective with caching)
-  let cleanedData = await cleanProductNameSafe(item.name)
+  // A staff review of this name wins; otherwise try AI-powered cleaning (cost-effective with caching),
+  // unless a batch already cleaned the name
+  const nameOverride = await getNameOverride(item.id)
+  const reviewed = nameOverride?.originalName === item.name ? nameOverride : null
+  const cleanedData = reviewed
+    ? toReviewedCleanedData(item.name, reviewed)
+    : precleanedData || (await cleanProductNameSafe(item.name))
   
   // Fallback to regex parsing if AI fails or isn't available
   const parsed = parseShoeName(item.name)
@@ -101,52 +521,150 @@ async function enrichInventoryItem(
   // Use AI results if available and confident, otherwise use parsed results
   const brand = cleanedData.brand || parsed.brand || ''
   const model = cleanedData.model || parsed.model || item.name
-  const size = cleanedData.size || (parsed.size ? convertSizeToStandard(parsed.size) : undefined)
+  // The size written in the Clover name wins; the AI size covers formats the regex misses
+  const sizeInfo = parseSize(parsed.size) || parseSize(cleanedData.size)
   const variant = cleanedData.variant
+  const styleCode = parsed.styleCode || cleanedData.styleCode
   const cleanedName = cleanedData.cleanedName || item.name
   
   // Build search query from cleaned data
   const searchQuery = brand && model ? `${brand} ${model}` : cleanedName
 
+  // Catalog details (images, colorway, retail price, release date) from KicksDB
+  // The regex model keeps the colorway words from the name, which helps pick the right release
+  // A style code in the name is the most reliable key, so it's looked up first
+  const { product: catalogProduct, match: catalogMatch, lookupFailed } = await resolveCatalogProduct(
+    item.id,
+    parsed.searchQuery,
+    { brand, model: parsed.model || model, sku: styleCode }
+  )
+
   return {
     id: item.id,
     name: cleanedName,
     originalName: item.name,
     brand,
     model,
-    size,
+    size: sizeInfo?.label,
+    sizeInfo,
     variant,
+    styleCode,
+    condition: parsed.condition || cleanedData.condition,
+    packaging: parsed.packaging || cleanedData.packaging,
     price: item.price,
     stockCount: item.stockCount,
-    matched: cleanedData.brand !== '', // True if we successfully extracted brand
+    modifiedTime: item.modifiedTime,
+    imageUrl: catalogProduct?.imageUrl,
+    images: catalogProduct?.images,
+    // The colorway from the name keeps every size of a shoe in one product group, even when only some match the catalog
+    colorway: cleanedData.colorway || catalogProduct?.colorway,
+    retailPrice: catalogProduct?.retailPrice,
+    releaseDate: catalogProduct?.releaseDate,
+    catalogMatch,
+    matched: catalogProduct !== null,
+    catalogLookupFailed: lookupFailed || undefined,
     searchQuery,
+    cleaning: cleanedData.cleaning,
   }
 }
 
 /**
- * Convert parsed size string to standard size format
+ * Cleaned data from a staff review (a rejected suggestion leaves the name to the regex parse)
  */
-function convertSizeToStandard(sizeStr: string): 'S' | 'M' | 'L' | 'XL' | 'XXL' | 'XXXL' | undefined {
-  const upper = sizeStr.toUpperCase().trim()
-  
-  // If already in standard format
-  if (['S', 'M', 'L', 'XL', 'XXL', 'XXXL'].includes(upper)) {
-    return upper as 'S' | 'M' | 'L' | 'XL' | 'XXL' | 'XXXL'
+function toReviewedCleanedData(originalName: string, override: NameOverride): SafeCleanedProductData {
+  if (!override.fields) {
+    return { cleanedName: originalName, brand: '', model: '', cleaning: 'reviewed' }
   }
-  
-  // Try to extract numeric size
-  const numericMatch = upper.match(/(\d+\.?\d*)/)
-  if (numericMatch) {
-    const numericSize = parseFloat(numericMatch[1])
-    if (numericSize <= 6) return 'S'
-    else if (numericSize <= 8) return 'M'
-    else if (numericSize <= 10) return 'L'
-    else if (numericSize <= 12) return 'XL'
-    else if (numericSize <= 14) return 'XXL'
-    else return 'XXXL'
+  const { cleanedName, brand, model, colorway, size, variant } = override.fields
+  return { cleanedName, brand, model, colorway, size, variant, cleaning: 'reviewed' }
+}
+
+/**
+ * Scored catalog candidates for an item, best first (for admins choosing a match override)
+ */
+export async function getCatalogCandidates(item: CloverItem): Promise<KicksDBMatch[]> {
+  const parsed = parseShoeName(item.name)
+  const cached = await getCachedEnrichment(item.id)
+  const styleCode = parsed.styleCode || cached?.styleCode
+  const [byStyleCode, byName] = await Promise.all([
+    styleCode ? searchKicksDB(styleCode) : Promise.resolve([]),
+    searchKicksDB(parsed.searchQuery),
+  ])
+  // The same product can come back from both searches
+  const products = [...byStyleCode, ...byName].filter(
+    (product, index, all) => !product.id || all.findIndex((other) => other.id === product.id) === index
+  )
+  return rankKicksDBMatches(products, {
+    brand: cached?.brand || parsed.brand,
+    model: parsed.model || cached?.model || item.name,
+    sku: styleCode,
+  })
+}
+
+/**
+ * Catalog product for an item: an admin override always wins over automatic matching
+ */
+async function resolveCatalogProduct(
+  itemId: string,
+  searchQuery: string,
+  target: KicksDBMatchTarget
+): Promise<{ product: KicksDBProduct | null; match?: CatalogMatch; lookupFailed?: boolean }> {
+  const override = await getMatchOverride(itemId)
+  if (override) {
+    return {
+      product: override.product,
+      match: {
+        productId: override.product?.id,
+        score: override.product ? 1 : 0,
+        reasons: [
+          {
+            type: 'override',
+            points: override.product ? 1 : 0,
+            detail: override.product ? 'Chosen by an admin' : 'Admin marked as not in the catalog',
+          },
+        ],
+        source: 'override',
+      },
+    }
+  }
+
+  const match = await lookupKicksDBProduct(searchQuery, target)
+  if (match === 'failed') {
+    return { product: null, lookupFailed: true }
+  }
+  if (!match) {
+    return { product: null }
+  }
+  return {
+    product: match.product,
+    match: { productId: match.product.id, score: match.score, reasons: match.reasons, source: 'auto' },
+  }
+}
+
+/**
+ * Enriched data with the item's current Clover price, stock and modified time
+ * (enrichment is kept when only those change)
+ */
+function withCloverState(enriched: EnrichedInventoryItem, item: CloverItem): EnrichedInventoryItem {
+  return { ...enriched, price: item.price, stockCount: item.stockCount, modifiedTime: item.modifiedTime }
+}
+
+/**
+ * Fill in attributes missing from items cached before they were modeled
+ * (size buckets instead of real sizes, no condition/packaging/style code)
+ */
+function withParsedAttributes(item: EnrichedInventoryItem): EnrichedInventoryItem {
+  if (item.sizeInfo && item.styleCode && (item.condition || item.packaging)) return item
+  const parsed = parseShoeName(item.originalName)
+  const sizeInfo = item.sizeInfo || parseSize(parsed.size) || parseSize(item.size)
+  return {
+    ...item,
+    size: sizeInfo?.label,
+    sizeInfo,
+    styleCode: item.styleCode || parsed.styleCode,
+    condition: item.condition || parsed.condition,
+    packaging: item.packaging || parsed.packaging,
   }
-  
-  return undefined
 }
 
 /**
@@ -157,9 +675,11 @@ function createFallbackItem(item: {
   name: string
   price?: number
   stockCount?: number
+  modifiedTime?: number
   [key: string]: unknown
 }): EnrichedInventoryItem {
   const parsed = parseShoeName(item.name)
+  const sizeInfo = parseSize(parsed.size)
 
   return {
     id: item.id,
@@ -167,9 +687,14 @@ function createFallbackItem(item: {
     originalName: item.name,
     brand: parsed.brand || '',
     model: parsed.model || item.name,
-    size: parsed.size,
+    size: sizeInfo?.label,
+    sizeInfo,
+    styleCode: parsed.styleCode,
+    condition: parsed.condition,
+    packaging: parsed.packaging,
     price: item.price,
     stockCount: item.stockCount,
+    modifiedTime: item.modifiedTime,
     matched: false,
     searchQuery: parsed.searchQuery || item.name,
   }
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import {
+  findBestKicksDBMatch,
+  MIN_MATCH_SCORE,
+  normalizeKicksDBProduct,
+  rankKicksDBMatches,
+  scoreKicksDBMatch,
+} from './kicksdb-api'
+import type { KicksDBMatchTarget } from './kicksdb-api'
+
+describe('normalizeKicksDBProduct', () => {
+  it('reads the title, gallery and traits of a catalog product', () => {
+    const product = normalizeKicksDBProduct({
+      id: 'dunk-panda',
+      title: ' Nike Dunk Low Panda ',
+      brand: 'Nike',
+      styleId: 'DD1391-100',
+      gallery: ['front.jpg', '', 'side.jpg'],
+      traits: [
+        { trait: 'Colorway', value: 'White/Black' },
+        { trait: 'Retail Price', value: '$110.00' },
+        { trait: 'Release Date', value: '2021-03-10' },
+      ],
+    })
+
+    expect(product).toMatchObject({
+      id: 'dunk-panda',
+      name: 'Nike Dunk Low Panda',
+      sku: 'DD1391-100',
+      colorway: 'White/Black',
+      imageUrl: 'front.jpg',
+      images: ['front.jpg', 'side.jpg'],
+      retailPrice: 110,
+      releaseDate: '2021-03-10',
+    })
+  })
+
+  it('leaves out a missing or zero retail price', () => {
+    expect(normalizeKicksDBProduct({ name: 'Dunk', retailPrice: 0 }).retailPrice).toBeUndefined()
+    expect(normalizeKicksDBProduct({ name: 'Dunk', retail_price: 'TBD' }).retailPrice).toBeUndefined()
+  })
+
+  it('uses a lone image as the gallery', () => {
+    expect(normalizeKicksDBProduct({ name: 'Dunk', image: 'dunk.jpg' }).images).toEqual(['dunk.jpg'])
+  })
+})
+
+describe('catalog match scoring', () => {
+  const target: KicksDBMatchTarget = { brand: 'Nike', model: 'Dunk Low', colorway: 'Panda' }
+  const panda = { id: 'panda', name: 'Nike Dunk Low Panda', brand: 'Nike', sku: 'DD1391-100' }
+  const high = { id: 'high', name: 'Nike Dunk High Panda', brand: 'Nike' }
+  const slide = { id: 'slide', name: 'Nike Dunk Low Panda Slide', brand: 'Nike', sku: 'FJ4146-100' }
+  const samba = { id: 'samba', name: 'Adidas Samba OG', brand: 'adidas' }
+
+  it('scores a product by brand and model words, with the reasons', () => {
+    const { score, reasons } = scoreKicksDBMatch(panda, target)
+
+    expect(score).toBe(1)
+    expect(reasons.map(({ type }) => type)).toEqual(['brand', 'model'])
+  })
+
+  it('trusts the style code over the name', () => {
+    const { score, reasons } = scoreKicksDBMatch(slide, { ...target, sku: 'dd1391 100' })
+
+    expect(score).toBeLessThan(MIN_MATCH_SCORE)
+    expect(reasons).toContainEqual(expect.objectContaining({ type: 'sku', points: -0.5 }))
+    expect(scoreKicksDBMatch(panda, { ...target, sku: 'dd1391 100' })).toEqual({
+      score: 1,
+      reasons: [expect.objectContaining({ type: 'sku', points: 1 })],
+    })
+  })
+
+  it('penalizes a different silhouette of the same model', () => {
+    const { score, reasons } = scoreKicksDBMatch(high, target)
+
+    expect(score).toBeLessThan(scoreKicksDBMatch(panda, target).score)
+    expect(reasons).toContainEqual(expect.objectContaining({ type: 'silhouette', detail: 'Silhouette differs (low, high)' }))
+  })
+
+  it('ranks candidates best first and only accepts a confident match', () => {
+    expect(rankKicksDBMatches([samba, high, panda], target).map(({ product }) => product.id)).toEqual([
+      'panda',
+      'high',
+      'samba',
+    ])
+    expect(findBestKicksDBMatch([samba, high, panda], target)?.product).toBe(panda)
+    expect(findBestKicksDBMatch([samba], target)).toBeNull()
+  })
+})
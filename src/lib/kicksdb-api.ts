@@ -0,0 +1,325 @@
+import { getCachedCatalogMatch, setCachedCatalogMatch } from './inventory-cache'
+import { createSingleFlight } from './single-flight'
+import { tokenize } from './search-index'
+import { getStyleCodeKey } from './style-code'
+import { getCanonicalBrand } from './brands'
+import type { KicksDBProduct, KicksDBSearchResponse, MatchReason } from '../types/inventory'
+import { getEnv } from './env'
+
+const KICKSDB_API_KEY = getEnv('KICKSDB_API_KEY')
+// Set KICKSDB_API_URL to use the fixture server (npm run kicksdb:mock) instead of the real catalog
+const KICKSDB_API_URL_OVERRIDE = getEnv('KICKSDB_API_URL')
+const KICKSDB_API_URL = KICKSDB_API_URL_OVERRIDE || 'https://api.kicks.dev/v3'
+
+const SEARCH_LIMIT = 10
+const REQUEST_TIMEOUT = 5000
+
+// Below this score a catalog product is treated as a different shoe
+export const MIN_MATCH_SCORE = 0.6
+const BRAND_WEIGHT = 0.25
+const MODEL_WEIGHT = 0.6
+// Products without a colorway put its weight on the model words
+const COLORWAY_WEIGHT = 0.15
+const SILHOUETTE_MISMATCH_PENALTY = 0.2
+// A different style code is a different release, whatever the name says
+const SKU_MISMATCH_PENALTY = 0.5
+
+// Words that tell silhouettes of one model line apart ("Jordan 1 Low" vs "Jordan 1 High")
+const SILHOUETTE_WORDS = new Set(['low', 'mid', 'high', 'slide', 'mule', 'gs', 'ps', 'td'])
+
+// Concurrent enrichments of the same product share one catalog lookup
+const lookupFlight = createSingleFlight<KicksDBProduct | null | 'failed'>()
+
+/**
+ * Whether catalog lookups are enabled (an API key, or a stand-in server URL)
+ */
+export function isKicksDBConfigured(): boolean {
+  return Boolean(KICKSDB_API_KEY || KICKSDB_API_URL_OVERRIDE)
+}
+
+/**
+ * What an inventory item is known to be, for scoring catalog candidates
+ */
+export interface KicksDBMatchTarget {
+  brand: string
+  model: string
+  colorway?: string
+  sku?: string
+}
+
+/**
+ * Score of a catalog product against an inventory item, with what contributed to it
+ */
+export interface KicksDBMatchScore {
+  score: number
+  reasons: MatchReason[]
+}
+
+/**
+ * A catalog product chosen for an inventory item
+ */
+export interface KicksDBMatch extends KicksDBMatchScore {
+  product: KicksDBProduct
+}
+
+/**
+ * Read a "Retail Price"/"Release Date"/"Colorway" trait from a raw catalog product
+ */
+function getTrait(raw: Record<string, unknown>, name: string): string | undefined {
+  if (!Array.isArray(raw.traits)) return undefined
+  const trait = raw.traits.find(
+    (entry): entry is { trait: string; value: unknown } =>
+      typeof entry === 'object' && entry !== null && (entry as { trait?: unknown }).trait === name
+  )
+  return trait && trait.value !== undefined && trait.value !== null ? String(trait.value) : undefined
+}
+
+/**
+ * Normalize a catalog product from the API (title/image/gallery/traits) into KicksDBProduct
+ */
+export function normalizeKicksDBProduct(raw: Record<string, unknown>): KicksDBProduct {
+  const asString = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() ? value.trim() : undefined
+
+  const retailPriceText = raw.retailPrice ?? raw.retail_price ?? getTrait(raw, 'Retail Price')
+  const retailPrice =
+    typeof retailPriceText === 'number' ? retailPriceText : parseFloat(String(retailPriceText ?? '').replace(/[^\d.]/g, ''))
+
+  const imageUrl = asString(raw.imageUrl) || asString(raw.image)
+  const gallery = Array.isArray(raw.images) ? raw.images : Array.isArray(raw.gallery) ? raw.gallery : []
+  const images = gallery.filter((image): image is string => typeof image === 'string' && image.length > 0)
+
+  return {
+    ...raw,
+    id: asString(raw.id),
+    name: asString(raw.name) || asString(raw.title),
+    brand: asString(raw.brand),
+    model: asString(raw.model),
+    sku: asString(raw.sku) || asString(raw.styleId) || asString(raw.style_id),
+    colorway: asString(raw.colorway) || getTrait(raw, 'Colorway'),
+    imageUrl: imageUrl || images[0],
+    images: images.length > 0 ? images : imageUrl ? [imageUrl] : undefined,
+    retailPrice: isNaN(retailPrice) || retailPrice <= 0 ? undefined : retailPrice,
+    releaseDate: asString(raw.releaseDate) || asString(raw.release_date) || getTrait(raw, 'Release Date'),
+  }
+}
+
+/**
+ * Search the sneaker catalog
+ * Returns [] when KicksDB isn't configured; throws on request failures so they aren't cached as misses
+ */
+export async function searchKicksDB(query: string, limit = SEARCH_LIMIT): Promise<KicksDBProduct[]> {
+  if (!isKicksDBConfigured()) {
+    return []
+  }
+
+  const url = `${KICKSDB_API_URL}/stockx/products?query=${encodeURIComponent(query)}&limit=${limit}`
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: {
+      ...(KICKSDB_API_KEY ? { Authorization: `Bearer ${KICKSDB_API_KEY}` } : {}),
+      'Content-Type': 'application/json',
+    },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  })
+
+  if (!response.ok) {
+    throw new Error(`KicksDB API returned ${response.status}`)
+  }
+
+  const data = (await response.json()) as KicksDBSearchResponse & { data?: unknown }
+  const products = Array.isArray(data.data) ? data.data : data.products || []
+  return products
+    .filter((product): product is Record<string, unknown> => typeof product === 'object' && product !== null)
+    .map(normalizeKicksDBProduct)
+}
+
+/**
+ * Round a score to two decimals for display
+ */
+function roundScore(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Score how well a catalog product matches an inventory item (0-1), with the reasons
+ * Brand agreement, the share of the item's model words found in the product and the share of the
+ * product's colorway found in the item; an exact style code match is decisive. Penalties when the
+ * item names a silhouette (low, high, GS, ...) the product doesn't share, or a different style code
+ */
+export function scoreKicksDBMatch(product: KicksDBProduct, target: KicksDBMatchTarget): KicksDBMatchScore {
+  const reasons: MatchReason[] = []
+  const productTokens = new Set(
+    tokenize([product.name, product.brand, product.model, product.colorway].filter(Boolean).join(' '))
+  )
+  const targetTokens = Array.from(new Set(tokenize(`${target.model} ${target.colorway || ''}`)))
+
+  if (target.sku && product.sku) {
+    if (getStyleCodeKey(target.sku) === getStyleCodeKey(product.sku)) {
+      return {
+        score: 1,
+        reasons: [{ type: 'sku', points: 1, detail: `Style code ${product.sku} matches` }],
+      }
+    }
+    reasons.push({
+      type: 'sku',
+      points: -SKU_MISMATCH_PENALTY,
+      detail: `Style code ${product.sku} differs from ${target.sku}`,
+    })
+  }
+
+  if (targetTokens.length === 0) return { score: 0, reasons }
+
+  const targetBrand = getCanonicalBrand(target.brand).toLowerCase()
+  const productBrand = getCanonicalBrand(product.brand || '').toLowerCase()
+  const brandMatches =
+    !targetBrand ||
+    productBrand === targetBrand ||
+    tokenize(targetBrand).every((token) => productTokens.has(token))
+  reasons.push({
+    type: 'brand',
+    points: brandMatches ? BRAND_WEIGHT : 0,
+    detail: brandMatches ? 'Brand matches' : `Brand ${product.brand || 'unknown'} differs from ${target.brand}`,
+  })
+
+  const productColorwayTokens = Array.from(new Set(tokenize(product.colorway || '')))
+  const modelWeight = productColorwayTokens.length > 0 ? MODEL_WEIGHT : MODEL_WEIGHT + COLORWAY_WEIGHT
+  const matchedTokens = targetTokens.filter((token) => productTokens.has(token)).length
+  reasons.push({
+    type: 'model',
+    points: (modelWeight * matchedTokens) / targetTokens.length,
+    detail: `${matchedTokens} of ${targetTokens.length} model words found`,
+  })
+
+  if (productColorwayTokens.length > 0) {
+    const targetTokenSet = new Set(targetTokens)
+    const matchedColorway = productColorwayTokens.filter((token) => targetTokenSet.has(token)).length
+    reasons.push({
+      type: 'colorway',
+      points: (COLORWAY_WEIGHT * matchedColorway) / productColorwayTokens.length,
+      detail: `${matchedColorway} of ${productColorwayTokens.length} colorway words found`,
+    })
+  }
+
+  // Names without a silhouette ("Jordan 1 Chicago") don't rule any out
+  const targetSilhouettes = targetTokens.filter((token) => SILHOUETTE_WORDS.has(token))
+  const silhouetteMismatches =
+    targetSilhouettes.length === 0
+      ? []
+      : Array.from(SILHOUETTE_WORDS).filter((word) => productTokens.has(word) !== targetSilhouettes.includes(word))
+  if (silhouetteMismatches.length > 0) {
+    reasons.push({
+      type: 'silhouette',
+      points: -SILHOUETTE_MISMATCH_PENALTY * silhouetteMismatches.length,
+      detail: `Silhouette differs (${silhouetteMismatches.join(', ')})`,
+    })
+  }
+
+  const total = reasons.reduce((sum, reason) => sum + reason.points, 0)
+  return {
+    score: roundScore(Math.max(0, Math.min(1, total))),
+    reasons: reasons.map((reason) => ({ ...reason, points: roundScore(reason.points) })),
+  }
+}
+
+/**
+ * Score catalog products against an item, best first (ties keep the catalog's order)
+ */
+export function rankKicksDBMatches(products: KicksDBProduct[], target: KicksDBMatchTarget): KicksDBMatch[] {
+  return products
+    .map((product) => ({ product, ...scoreKicksDBMatch(product, target) }))
+    .sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Pick the best-scoring catalog product, or null if none is a confident match
+ */
+export function findBestKicksDBMatch(products: KicksDBProduct[], target: KicksDBMatchTarget): KicksDBMatch | null {
+  const [best] = rankKicksDBMatches(products, target)
+  return best && best.score >= MIN_MATCH_SCORE ? best : null
+}
+
+/**
+ * Fetch one catalog product by its KicksDB ID (null if it doesn't exist)
+ */
+export async function getKicksDBProduct(productId: string): Promise<KicksDBProduct | null> {
+  if (!isKicksDBConfigured()) {
+    return null
+  }
+
+  const response = await fetch(`${KICKSDB_API_URL}/stockx/products/${encodeURIComponent(productId)}`, {
+    method: 'GET',
+    headers: {
+      ...(KICKSDB_API_KEY ? { Authorization: `Bearer ${KICKSDB_API_KEY}` } : {}),
+      'Content-Type': 'application/json',
+    },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  })
+
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw new Error(`KicksDB API returned ${response.status}`)
+  }
+
+  const data = (await response.json()) as { data?: unknown }
+  const raw = data.data ?? data
+  return typeof raw === 'object' && raw !== null ? normalizeKicksDBProduct(raw as Record<string, unknown>) : null
+}
+
+/**
+ * Best catalog product for a search query, cached per query (including misses)
+ * 'failed' when KicksDB couldn't be searched (not cached)
+ */
+async function findCatalogProduct(
+  query: string,
+  target: KicksDBMatchTarget
+): Promise<KicksDBProduct | null | 'failed'> {
+  const cached = await getCachedCatalogMatch(query)
+  if (cached !== undefined) {
+    return cached
+  }
+
+  return lookupFlight(query.toLowerCase(), async () => {
+    try {
+      const products = await searchKicksDB(query)
+      const match = findBestKicksDBMatch(products, target)
+      await setCachedCatalogMatch(query, match?.product ?? null)
+      return match?.product ?? null
+    } catch (error) {
+      // Don't cache failures - the next enrichment retries
+      console.warn('KicksDB lookup failed:', error instanceof Error ? error.message : error)
+      return 'failed'
+    }
+  })
+}
+
+/**
+ * Look up the catalog product for an inventory item (images, colorway, retail price, release date)
+ * Searches by style code first when the item has one, then by the searchQuery from parseShoeName.
+ * Cached products are re-scored against each item, so every item gets its own confidence.
+ * null means the catalog has no confident match; 'failed' means a search errored before one was found
+ */
+export async function lookupKicksDBProduct(
+  searchQuery: string,
+  target: KicksDBMatchTarget
+): Promise<KicksDBMatch | null | 'failed'> {
+  if (!isKicksDBConfigured()) return null
+
+  let failed = false
+  const queries = [target.sku, searchQuery].filter((query): query is string => Boolean(query?.trim()))
+  for (const query of queries) {
+    const product = await findCatalogProduct(query, target)
+    if (product === 'failed') {
+      failed = true
+      continue
+    }
+    if (!product) continue
+    const match = scoreKicksDBMatch(product, target)
+    if (match.score >= MIN_MATCH_SCORE) {
+      return { product, ...match }
+    }
+  }
+  return failed ? 'failed' : null
+}
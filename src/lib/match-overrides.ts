@@ -0,0 +1,100 @@
+import type { KicksDBProduct } from '../types/inventory'
+
+/**
+ * Admin-chosen catalog matches, keyed by Clover item ID
+ * Expects a table:
+ *   create table "MatchOverride" (
+ *     "itemId" text primary key,
+ *     "product" jsonb,
+ *     "createdBy" text,
+ *     "updatedAt" timestamptz not null
+ *   );
+ */
+
+const TABLE_NAME = 'MatchOverride'
+
+// Imported lazily so the storefront still works without Supabase env vars
+const getClient = async () => (await import('./supabase-admin')).supabaseAdmin
+
+export interface MatchOverride {
+  itemId: string
+  product: KicksDBProduct | null // null means "no catalog product" (rejects automatic matches)
+  createdBy: string | null
+  updatedAt: string
+}
+
+/**
+ * Get the override for an item
+ * Read failures are logged and treated as "no override" so enrichment keeps working
+ */
+export async function getMatchOverride(itemId: string): Promise<MatchOverride | null> {
+  try {
+    const supabase = await getClient()
+    const { data, error } = await supabase
+      .from(TABLE_NAME)
+      .select('*')
+      .eq('itemId', itemId)
+      .maybeSingle()
+
+    if (error) {
+      console.warn(`Match override read failed for ${itemId}:`, error.message)
+      return null
+    }
+    return (data as MatchOverride | null) ?? null
+  } catch (error) {
+    console.warn(`Match override read failed for ${itemId}:`, error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+/**
+ * List all overrides, most recently changed first
+ */
+export async function listMatchOverrides(): Promise<MatchOverride[]> {
+  const supabase = await getClient()
+  const { data, error } = await supabase
+    .from(TABLE_NAME)
+    .select('*')
+    .order('updatedAt', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to list match overrides: ${error.message}`)
+  }
+  return (data || []) as MatchOverride[]
+}
+
+/**
+ * Create or replace the override for an item
+ */
+export async function setMatchOverride(
+  itemId: string,
+  product: KicksDBProduct | null,
+  createdBy: string | null
+): Promise<MatchOverride> {
+  const override: MatchOverride = {
+    itemId,
+    product,
+    createdBy,
+    updatedAt: new Date().toISOString(),
+  }
+
+  const supabase = await getClient()
+  const { error } = await supabase.from(TABLE_NAME).upsert(override)
+
+  if (error) {
+    throw new Error(`Failed to save match override: ${error.message}`)
+  }
+  return override
+}
+
+/**
+ * Remove the override for an item (automatic matching applies again)
+ */
+export async function deleteMatchOverride(itemId: string): Promise<void> {
+  const supabase = await getClient()
+  const { error } = await supabase.from(TABLE_NAME).delete().eq('itemId', itemId)
+
+  if (error) {
+    throw new Error(`Failed to delete match override: ${error.message}`)
+  }
+}
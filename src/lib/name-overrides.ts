@@ -0,0 +1,113 @@
+import type { CleanedProductData } from './ai-product-cleaner'
+
+/**
+ * Staff-reviewed product names, keyed by Clover item ID
+ * Expects a table:
+ *   create table "NameOverride" (
+ *     "itemId" text primary key,
+ *     "originalName" text not null,
+ *     "decision" text not null,
+ *     "fields" jsonb,
+ *     "suggestion" jsonb,
+ *     "reviewedBy" text,
+ *     "updatedAt" timestamptz not null
+ *   );
+ */
+
+const TABLE_NAME = 'NameOverride'
+
+// Imported lazily so the storefront still works without Supabase env vars
+const getClient = async () => (await import('./supabase-admin')).supabaseAdmin
+
+/**
+ * accepted: the AI suggestion as-is, edited: staff corrected it, rejected: the regex parse is used
+ */
+export type NameReviewDecision = 'accepted' | 'edited' | 'rejected'
+
+export interface ReviewedNameFields {
+  cleanedName: string
+  brand: string
+  model: string
+  colorway?: string
+  size?: string
+  variant?: string
+}
+
+export interface NameOverride {
+  itemId: string
+  originalName: string // The reviewed Clover name; the override is ignored once the item is renamed
+  decision: NameReviewDecision
+  fields: ReviewedNameFields | null // null when rejected
+  suggestion: CleanedProductData | null // AI suggestion shown to the reviewer (recorded for the golden dataset)
+  reviewedBy: string | null
+  updatedAt: string
+}
+
+/**
+ * Get the override for an item
+ * Read failures are logged and treated as "no override" so enrichment keeps working
+ */
+export async function getNameOverride(itemId: string): Promise<NameOverride | null> {
+  try {
+    const supabase = await getClient()
+    const { data, error } = await supabase
+      .from(TABLE_NAME)
+      .select('*')
+      .eq('itemId', itemId)
+      .maybeSingle()
+
+    if (error) {
+      console.warn(`Name override read failed for ${itemId}:`, error.message)
+      return null
+    }
+    return (data as NameOverride | null) ?? null
+  } catch (error) {
+    console.warn(`Name override read failed for ${itemId}:`, error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+/**
+ * List all overrides, most recently reviewed first
+ */
+export async function listNameOverrides(): Promise<NameOverride[]> {
+  const supabase = await getClient()
+  const { data, error } = await supabase
+    .from(TABLE_NAME)
+    .select('*')
+    .order('updatedAt', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to list name overrides: ${error.message}`)
+  }
+  return (data || []) as NameOverride[]
+}
+
+/**
+ * Create or replace the override for an item
+ */
+export async function setNameOverride(
+  override: Omit<NameOverride, 'updatedAt'>
+): Promise<NameOverride> {
+  const saved: NameOverride = { ...override, updatedAt: new Date().toISOString() }
+
+  const supabase = await getClient()
+  const { error } = await supabase.from(TABLE_NAME).upsert(saved)
+
+  if (error) {
+    throw new Error(`Failed to save name override: ${error.message}`)
+  }
+  return saved
+}
+
+/**
+ * Remove the override for an item (AI cleaning applies again)
+ */
+export async function deleteNameOverride(itemId: string): Promise<void> {
+  const supabase = await getClient()
+  const { error } = await supabase.from(TABLE_NAME).delete().eq('itemId', itemId)
+
+  if (error) {
+    throw new Error(`Failed to delete name override: ${error.message}`)
+  }
+}
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createMemoryCacheStore, setCacheStore } from './cache-store'
+import type { CleanedProductData } from './ai-product-cleaner'
+import type { EnrichedInventoryItem } from '../types/inventory'
+
+const batchCleanProductNames = vi.fn<(names: string[]) => Promise<(CleanedProductData | null)[]>>()
+
+vi.mock('./product-name-cleaner', () => ({
+  batchCleanProductNames: (names: string[]) => batchCleanProductNames(names),
+  getProductNameCleaner: () => ({ version: 'test:prompt-1' }),
+}))
+
+const { buildNameReviewItems, nameReviewSchema } = await import('./name-review')
+
+const suggestion: CleanedProductData = {
+  cleanedName: 'Nike Dunk Low Panda',
+  brand: 'Nike',
+  model: 'Dunk Low',
+  colorway: 'Panda',
+  size: '10',
+  confidence: 'medium',
+}
+
+const candidate = (originalName: string) => ({
+  item: { id: originalName, originalName, name: originalName, matched: false } as EnrichedInventoryItem,
+  reason: 'low-confidence' as const,
+})
+
+describe('nameReviewSchema', () => {
+  it('requires fields unless the suggestion is rejected', () => {
+    expect(nameReviewSchema.safeParse({ decision: 'rejected' }).success).toBe(true)
+    expect(nameReviewSchema.safeParse({ decision: 'edited' }).success).toBe(false)
+    expect(
+      nameReviewSchema.safeParse({ decision: 'edited', fields: { cleanedName: 'Dunk Low', brand: 'Nike', model: 'Dunk' } })
+        .success
+    ).toBe(true)
+  })
+
+  it("rejects suggestions that don't match the cleaner output", () => {
+    const result = nameReviewSchema.safeParse({ decision: 'rejected', suggestion: { cleanedName: 'Dunk Low' } })
+
+    expect(result.success).toBe(false)
+  })
+
+  it('normalizes the suggestion that was shown', () => {
+    const result = nameReviewSchema.parse({ decision: 'rejected', suggestion: { ...suggestion, size: '10M' } })
+
+    expect(result.suggestion?.size).toBe('10')
+  })
+})
+
+describe('buildNameReviewItems', () => {
+  beforeEach(() => {
+    setCacheStore(createMemoryCacheStore())
+    batchCleanProductNames.mockReset()
+  })
+
+  it('only cleans names without a cached suggestion', async () => {
+    batchCleanProductNames.mockImplementation(async (names) => names.map(() => suggestion))
+    await buildNameReviewItems([candidate('Dunk Low Panda 10M')])
+
+    const items = await buildNameReviewItems([candidate('Dunk Low Panda 10M'), candidate('AJ1 Chicago 9')])
+
+    expect(batchCleanProductNames.mock.calls).toEqual([[['Dunk Low Panda 10M']], [['AJ1 Chicago 9']]])
+    expect(items.map((item) => item.suggestion)).toEqual([suggestion, suggestion])
+  })
+
+  it('asks again for names the cleaner failed on', async () => {
+    batchCleanProductNames.mockResolvedValue([null])
+    await buildNameReviewItems([candidate('Labubu Macaron')])
+    await buildNameReviewItems([candidate('Labubu Macaron')])
+
+    expect(batchCleanProductNames).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,142 @@
+/**
+ * Review queue for names the AI was unsure about and items with no catalog match
+ * Staff see the raw Clover name, the regex parse and the AI suggestion side by side; their decision is saved
+ * as a name override (see name-overrides.ts) and can be imported into the golden dataset (npm run golden:import)
+ */
+
+import { z } from 'zod'
+import { getRawInventory } from './inventory-service'
+import { getCachedEnrichment, getCachedReviewSuggestion, setCachedReviewSuggestion } from './inventory-cache'
+import { getStoredEnrichments, isEnrichmentStoreAvailable } from './enrichment-store'
+import { isKicksDBConfigured } from './kicksdb-api'
+import { parseShoeName } from './shoe-parser'
+import { batchCleanProductNames, getProductNameCleaner } from './product-name-cleaner'
+import { parseCleanedProductData } from './ai-product-cleaner'
+import type { CleanedProductData } from './ai-product-cleaner'
+import type { EnrichedInventoryItem, ParsedShoe } from '../types/inventory'
+
+export type NameReviewReason = 'low-confidence' | 'unmatched'
+
+export interface NameReviewItem {
+  itemId: string
+  name: string // Raw Clover name
+  reason: NameReviewReason
+  current: Pick<EnrichedInventoryItem, 'name' | 'brand' | 'model' | 'size' | 'variant' | 'colorway'>
+  regex: ParsedShoe
+  suggestion: CleanedProductData | null // Includes low-confidence results the storefront doesn't use
+}
+
+/**
+ * Body for saving a review; fields are required unless the suggestion is rejected
+ */
+export const nameReviewSchema = z
+  .object({
+    decision: z.enum(['accepted', 'edited', 'rejected']),
+    fields: z
+      .object({
+        cleanedName: z.string().trim().min(1),
+        brand: z.string().trim(),
+        model: z.string().trim().min(1),
+        colorway: z.string().trim().optional(),
+        size: z.string().trim().optional(),
+        variant: z.string().trim().optional(),
+      })
+      .nullish(),
+    // The AI suggestion that was shown, checked against the cleaner's output schema before it's stored
+    suggestion: z
+      .record(z.string(), z.unknown())
+      .nullish()
+      .transform((value, ctx) => {
+        if (!value) return null
+        const suggestion = parseCleanedProductData(value)
+        if (!suggestion) {
+          ctx.addIssue({ code: 'custom', message: "suggestion doesn't match the name cleaner's output" })
+          return z.NEVER
+        }
+        return suggestion
+      }),
+  })
+  .refine((review) => review.decision === 'rejected' || review.fields, {
+    message: 'fields are required to accept or edit a name',
+    path: ['fields'],
+  })
+
+/**
+ * Unmatched items are only listed while catalog lookups are on, and until staff mark them as not in the catalog
+ * (a match override without a product) or the lookup failed rather than found nothing
+ */
+function getReviewReason(item: EnrichedInventoryItem): NameReviewReason | null {
+  if (item.cleaning === 'reviewed') return null
+  if (item.cleaning === 'low-confidence') return 'low-confidence'
+  if (item.matched || item.catalogLookupFailed || item.catalogMatch?.source === 'override') return null
+  return isKicksDBConfigured() ? 'unmatched' : null
+}
+
+/**
+ * Enriched items that need a review, low-confidence names first
+ * Items show up once they've been enriched (e.g. after their shop page was viewed or by the enrichment queue)
+ * Built from one enrichment store read; without Supabase the enrichment cache stands in
+ */
+export async function listNameReviewCandidates(): Promise<
+  { item: EnrichedInventoryItem; reason: NameReviewReason }[]
+> {
+  const rawItems = await getRawInventory()
+  const stored = await getStoredEnrichments(rawItems)
+  const useCache = !isEnrichmentStoreAvailable()
+
+  const candidates: { item: EnrichedInventoryItem; reason: NameReviewReason }[] = []
+  for (const rawItem of rawItems) {
+    const item = stored.get(rawItem.id)?.data ?? (useCache ? await getCachedEnrichment(rawItem.id) : null)
+    const reason = item && item.originalName === rawItem.name ? getReviewReason(item) : null
+    if (item && reason) candidates.push({ item, reason })
+  }
+
+  return candidates.sort((a, b) => Number(b.reason === 'low-confidence') - Number(a.reason === 'low-confidence'))
+}
+
+/**
+ * AI suggestions for raw names, cached per name and cleaner version so the review page only asks the
+ * cleaner about names it hasn't seen
+ */
+async function getReviewSuggestions(names: string[]): Promise<(CleanedProductData | null)[]> {
+  const { version } = getProductNameCleaner()
+  const suggestions = await Promise.all(names.map((name) => getCachedReviewSuggestion(version, name)))
+
+  const missing = [...new Set(names.filter((_, index) => !suggestions[index]))]
+  if (missing.length === 0) return suggestions
+
+  const cleaned = new Map<string, CleanedProductData | null>()
+  const results = await batchCleanProductNames(missing)
+  for (const [index, name] of missing.entries()) {
+    const suggestion = results[index]
+    cleaned.set(name, suggestion)
+    // Failures aren't cached, so they're retried on the next visit
+    if (suggestion) await setCachedReviewSuggestion(version, name, suggestion)
+  }
+  return names.map((name, index) => suggestions[index] ?? cleaned.get(name) ?? null)
+}
+
+/**
+ * Regex parse and an AI suggestion for each candidate
+ */
+export async function buildNameReviewItems(
+  candidates: { item: EnrichedInventoryItem; reason: NameReviewReason }[]
+): Promise<NameReviewItem[]> {
+  const suggestions = await getReviewSuggestions(candidates.map(({ item }) => item.originalName))
+
+  return candidates.map(({ item, reason }, index) => ({
+    itemId: item.id,
+    name: item.originalName,
+    reason,
+    current: {
+      name: item.name,
+      brand: item.brand,
+      model: item.model,
+      size: item.size,
+      variant: item.variant,
+      colorway: item.colorway,
+    },
+    regex: parseShoeName(item.originalName),
+    suggestion: suggestions[index],
+  }))
+}
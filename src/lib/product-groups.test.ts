@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import { buildProductGroup, findProductItems, getProductGroupKey, groupInventoryItems } from './product-groups'
+import { parseSize } from './sizes'
+import type { EnrichedInventoryItem } from '../types/inventory'
+
+function makeItem(item: Partial<EnrichedInventoryItem> & { id: string; size?: string }): EnrichedInventoryItem {
+  const sizeInfo = parseSize(item.size)
+  return {
+    name: 'Air Jordan 1 Retro High OG Chicago',
+    originalName: 'Air Jordan 1 Retro High OG Chicago',
+    brand: 'Jordan',
+    model: 'Air Jordan 1 Retro High OG',
+    colorway: 'Chicago',
+    matched: false,
+    searchQuery: 'Air Jordan 1 Retro High OG Chicago',
+    ...item,
+    size: sizeInfo?.label,
+    sizeInfo,
+  }
+}
+
+describe('getProductGroupKey', () => {
+  it('ignores case and punctuation', () => {
+    const cleaned = makeItem({ id: 'a' })
+    const shouted = makeItem({ id: 'b', brand: 'JORDAN', model: 'Air-Jordan 1 Retro High OG', colorway: 'CHICAGO' })
+    expect(getProductGroupKey(shouted)).toBe(getProductGroupKey(cleaned))
+  })
+
+  it('keys a regex parse with the colorway still in the model like a cleaned item', () => {
+    const cleaned = makeItem({ id: 'a' })
+    const parsed = makeItem({ id: 'b', model: 'Air Jordan 1 Retro High OG Chicago', colorway: undefined })
+    expect(getProductGroupKey(parsed)).toBe(getProductGroupKey(cleaned))
+  })
+
+  it('puts used pairs in their own group and treats DS like unmarked pairs', () => {
+    const unmarked = makeItem({ id: 'a' })
+    const deadstock = makeItem({ id: 'b', condition: { type: 'DS', label: 'DS' } })
+    const used = makeItem({ id: 'c', condition: { type: 'Used', grade: 8, label: 'Used 8/10' } })
+    expect(getProductGroupKey(deadstock)).toBe(getProductGroupKey(unmarked))
+    expect(getProductGroupKey(used)).not.toBe(getProductGroupKey(unmarked))
+  })
+})
+
+describe('groupInventoryItems', () => {
+  it('groups every size of a shoe, keeping the order products first appear in', () => {
+    const groups = groupInventoryItems([
+      makeItem({ id: 'chicago-10', size: '10' }),
+      makeItem({ id: 'dunk-9', brand: 'Nike', model: 'Dunk Low', colorway: 'Panda', size: '9' }),
+      makeItem({ id: 'chicago-9', size: '9' }),
+    ])
+
+    expect(groups.map((group) => group.sizes.map((size) => size.itemId))).toEqual([
+      ['chicago-9', 'chicago-10'],
+      ['dunk-9'],
+    ])
+  })
+})
+
+describe('buildProductGroup', () => {
+  it('sorts sizes and sums prices and stock across them', () => {
+    const group = buildProductGroup([
+      makeItem({ id: 'a', size: '11', price: 30000, stockCount: 1 }),
+      makeItem({ id: 'b', size: '6.5W', price: 25000, stockCount: 2 }),
+      makeItem({ id: 'c', size: '9.5', price: 28000, stockCount: 1 }),
+    ])
+
+    expect(group.sizes.map((size) => size.size)).toEqual(['9.5', '11', '6.5W'])
+    expect(group.minPrice).toBe(25000)
+    expect(group.maxPrice).toBe(30000)
+    expect(group.totalStock).toBe(4)
+  })
+
+  it('takes shared details from a matched item and keeps a given group key', () => {
+    const group = buildProductGroup(
+      [
+        makeItem({ id: 'a', size: '9' }),
+        makeItem({ id: 'b', size: '10', matched: true, imageUrl: 'https://example.com/chicago.jpg', retailPrice: 180 }),
+      ],
+      'catalog-view-key'
+    )
+
+    expect(group.id).toBe('catalog-view-key')
+    expect(group.imageUrl).toBe('https://example.com/chicago.jpg')
+    expect(group.retailPrice).toBe(180)
+    expect(group.matched).toBe(true)
+  })
+
+  it('throws without items', () => {
+    expect(() => buildProductGroup([])).toThrow()
+  })
+})
+
+describe('findProductItems', () => {
+  it('finds the other sizes of an item', () => {
+    const items = [
+      makeItem({ id: 'chicago-9', size: '9' }),
+      makeItem({ id: 'dunk-9', brand: 'Nike', model: 'Dunk Low', colorway: 'Panda', size: '9' }),
+      makeItem({ id: 'chicago-10', size: '10' }),
+    ]
+
+    expect(findProductItems(items, 'chicago-10')?.map((item) => item.id)).toEqual(['chicago-9', 'chicago-10'])
+    expect(findProductItems(items, 'missing')).toBeNull()
+  })
+})
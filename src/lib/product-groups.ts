@@ -0,0 +1,134 @@
+import { compareSizeLabels } from './sizes'
+import { convertSize } from './size-conversion'
+import { getCanonicalBrand } from './brands'
+import type { EnrichedInventoryItem, ProductGroup, ProductGroupSize } from '../types/inventory'
+
+/**
+ * Product grouping
+ * Clover has one item per pair, so items are clustered by normalized brand + model + colorway
+ */
+
+const ONE_SIZE = 'One Size'
+
+/**
+ * Normalize a name part for grouping ("Air Jordan 1" and "air-jordan 1" group together)
+ */
+function normalizeGroupPart(value: string | undefined): string {
+  return (value || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+/**
+ * Grouping key for an item (also used as the group ID)
+ * Model and colorway form one part, so an item whose colorway is still inside the model (regex parse)
+ * keys the same as a cleaned one; used and VNDS pairs get their own group, unmarked pairs are new, same as DS
+ * Compute keys for a set of items from one item view (see getCatalogItems), so sizes don't split across views
+ */
+export function getProductGroupKey(item: EnrichedInventoryItem): string {
+  const condition = item.condition && item.condition.type !== 'DS' ? item.condition.label : undefined
+  return [getCanonicalBrand(item.brand), `${item.model} ${item.colorway || ''}`, item.variant, condition]
+    .map(normalizeGroupPart)
+    .join('|')
+}
+
+/**
+ * Display size for one item of a group, e.g. "10.5" or "5Y"
+ */
+export function getItemSizeLabel(item: EnrichedInventoryItem): string {
+  return item.sizeInfo?.label || item.size || ONE_SIZE
+}
+
+/**
+ * Cluster items by product, keeping the order in which each product first appears
+ */
+export function clusterProductItems(items: EnrichedInventoryItem[]): EnrichedInventoryItem[][] {
+  const clusters = new Map<string, EnrichedInventoryItem[]>()
+  for (const item of items) {
+    const key = getProductGroupKey(item)
+    const cluster = clusters.get(key)
+    if (cluster) {
+      cluster.push(item)
+    } else {
+      clusters.set(key, [item])
+    }
+  }
+  return Array.from(clusters.values())
+}
+
+/**
+ * Build a product group from items of the same product
+ * Shared details come from the best-enriched item; sizes are sorted smallest first
+ * Pass the key the items were clustered under when they were grouped from another item view
+ */
+export function buildProductGroup(items: EnrichedInventoryItem[], groupKey?: string): ProductGroup {
+  if (items.length === 0) {
+    throw new Error('Cannot build a product group without items')
+  }
+
+  const representative = items.find((item) => item.matched && item.imageUrl) ||
+    items.find((item) => item.matched) ||
+    items[0]
+
+  // Images stay together, so the gallery matches the main image
+  const imageItem = representative.imageUrl ? representative : items.find((item) => item.imageUrl)
+
+  const sizes: ProductGroupSize[] = items
+    .map((item) => ({
+      itemId: item.id,
+      size: getItemSizeLabel(item),
+      conversions: convertSize(item.sizeInfo, item.brand, item.model),
+      packaging: item.packaging,
+      price: item.price,
+      stockCount: item.stockCount,
+    }))
+    .sort((a, b) => compareSizeLabels(a.size, b.size))
+
+  const prices = items
+    .map((item) => item.price)
+    .filter((price): price is number => price !== undefined)
+  const stockCounts = items
+    .map((item) => item.stockCount)
+    .filter((stockCount): stockCount is number => stockCount !== undefined && stockCount !== null)
+
+  return {
+    id: groupKey ?? getProductGroupKey(representative),
+    name: representative.name,
+    brand: representative.brand,
+    model: representative.model,
+    colorway: representative.colorway,
+    variant: representative.variant,
+    styleCode: representative.styleCode || items.find((item) => item.styleCode)?.styleCode,
+    condition: representative.condition,
+    imageUrl: imageItem?.imageUrl,
+    images: imageItem?.images,
+    retailPrice: representative.retailPrice,
+    releaseDate: representative.releaseDate,
+    matched: representative.matched,
+    minPrice: prices.length > 0 ? Math.min(...prices) : undefined,
+    maxPrice: prices.length > 0 ? Math.max(...prices) : undefined,
+    totalStock: stockCounts.length > 0 ? stockCounts.reduce((sum, count) => sum + count, 0) : undefined,
+    sizes,
+  }
+}
+
+/**
+ * Group items into products
+ */
+export function groupInventoryItems(items: EnrichedInventoryItem[]): ProductGroup[] {
+  return clusterProductItems(items).map((cluster) => buildProductGroup(cluster))
+}
+
+/**
+ * Find the items of the product an item belongs to
+ */
+export function findProductItems(
+  items: EnrichedInventoryItem[],
+  itemId: string
+): EnrichedInventoryItem[] | null {
+  const item = items.find((candidate) => candidate.id === itemId)
+  if (!item) return null
+  const key = getProductGroupKey(item)
+  return items.filter((candidate) => getProductGroupKey(candidate) === key)
+}
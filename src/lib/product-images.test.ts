@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ProductImage } from './product-images'
+
+const tables: Record<string, object[]> = {}
+const writes: string[] = []
+
+// Just enough of the Supabase query builder for the image lookups
+vi.mock('./supabase-admin', () => {
+  const rows = (table: string) => tables[table] as Record<string, unknown>[]
+  const select = (table: string) => ({
+    in: async (column: string, values: string[]) => ({
+      data: rows(table).filter((row) => values.includes(row[column] as string)),
+      error: null,
+    }),
+    overlaps: async (column: string, values: string[]) => ({
+      data: rows(table).filter((row) => (row[column] as string[]).some((value) => values.includes(value))),
+      error: null,
+    }),
+  })
+  const write = (table: string) => () => {
+    writes.push(table)
+    return { eq: async () => ({ error: null }), error: null }
+  }
+
+  return {
+    supabaseAdmin: {
+      from: (table: string) => ({
+        select: () => select(table),
+        insert: write(table),
+        update: write(table),
+      }),
+    },
+  }
+})
+
+const { getManagedImageUrls, recordProductImageGroup } = await import('./product-images')
+
+const image = (ownerType: 'item' | 'group', ownerId: string, url: string, position: number): ProductImage => ({
+  id: url,
+  ownerType,
+  ownerId,
+  path: url,
+  url,
+  position,
+  isPrimary: false,
+  createdBy: null,
+  createdAt: '2026-01-01T00:00:00Z',
+})
+
+describe('product images', () => {
+  beforeEach(() => {
+    tables.ProductImageGroup = [{ id: 'group-1', itemIds: ['sold-size', 'size-9'] }]
+    tables.ProductImage = [
+      image('group', 'group-1', 'group-b.jpg', 1),
+      image('group', 'group-1', 'group-a.jpg', 0),
+      image('item', 'size-10', 'own.jpg', 0),
+    ]
+    writes.length = 0
+  })
+
+  it('shows item photos over group photos, in position order', async () => {
+    const imageUrls = await getManagedImageUrls([['size-9', 'size-10'], ['other']])
+
+    expect(Object.fromEntries(imageUrls)).toEqual({
+      'size-9': ['group-a.jpg', 'group-b.jpg'],
+      'size-10': ['own.jpg'],
+    })
+  })
+
+  it('never writes when serving photos', async () => {
+    await getManagedImageUrls([['size-9', 'restocked-size']])
+
+    expect(writes).toEqual([])
+  })
+
+  it('records new sizes of an existing group', async () => {
+    expect(await recordProductImageGroup(['size-9', 'restocked-size'], false)).toBe('group-1')
+    expect(writes).toEqual(['ProductImageGroup'])
+  })
+
+  it('creates a group only when asked to', async () => {
+    expect(await recordProductImageGroup(['new-product'], false)).toBeNull()
+    expect(writes).toEqual([])
+
+    expect(await recordProductImageGroup(['new-product'], true)).toEqual(expect.any(String))
+    expect(writes).toEqual(['ProductImageGroup'])
+  })
+})
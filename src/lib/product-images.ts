@@ -0,0 +1,324 @@
+/**
+ * Staff-uploaded product photos, for items the catalog has no images for (Labubus, keychains, apparel)
+ * Files live in a public Supabase Storage bucket (PRODUCT_IMAGES_BUCKET, default "product-images"),
+ * attached to one Clover item or to a whole product (every size) through an image group: a stable ID plus the
+ * Clover items known to be sizes of the product, so renamed or re-enriched items keep their photos
+ * Photos are read when items are served, so changing them never touches stored enrichment
+ * Expects tables:
+ *   create table "ProductImage" (
+ *     "id" uuid primary key,
+ *     "ownerType" text not null,
+ *     "ownerId" text not null,
+ *     "path" text not null,
+ *     "url" text not null,
+ *     "position" integer not null,
+ *     "isPrimary" boolean not null default false,
+ *     "createdBy" text,
+ *     "createdAt" timestamptz not null
+ *   );
+ *   create index on "ProductImage" ("ownerId");
+ *   create table "ProductImageGroup" (
+ *     "id" uuid primary key,
+ *     "itemIds" text[] not null
+ *   );
+ *   create index on "ProductImageGroup" using gin ("itemIds");
+ */
+
+import { getEnv } from './env'
+
+const TABLE_NAME = 'ProductImage'
+const GROUP_TABLE_NAME = 'ProductImageGroup'
+
+// Supabase caps "in" filters by URL length, so look items up in chunks
+const LOOKUP_CHUNK_SIZE = 100
+const BUCKET_NAME = getEnv('PRODUCT_IMAGES_BUCKET') || 'product-images'
+
+export const MAX_PRODUCT_IMAGE_BYTES = 10 * 1024 * 1024
+
+// Imported lazily so the storefront still works without Supabase env vars
+const getClient = async () => (await import('./supabase-admin')).supabaseAdmin
+
+/**
+ * item: one Clover item (one size), group: every size of a product
+ */
+export type ProductImageOwnerType = 'item' | 'group'
+
+export interface ProductImageOwner {
+  ownerType: ProductImageOwnerType
+  ownerId: string // Clover item ID or image group ID
+}
+
+interface ProductImageGroup {
+  id: string
+  itemIds: string[] // Clover items seen as sizes of the product (sold ones stay, restocks are added by admin changes)
+}
+
+export interface ProductImage extends ProductImageOwner {
+  id: string
+  path: string // Path in the storage bucket
+  url: string // Public URL
+  position: number
+  isPrimary: boolean
+  createdBy: string | null
+  createdAt: string
+}
+
+/**
+ * Primary image first, then by position
+ */
+function sortImages(images: ProductImage[]): ProductImage[] {
+  return [...images].sort((a, b) => Number(b.isPrimary) - Number(a.isPrimary) || a.position - b.position)
+}
+
+/**
+ * Rows of a table whose column matches any of the values, looked up in chunks
+ */
+async function selectInChunks<T>(
+  table: string,
+  column: string,
+  values: string[],
+  filter: 'in' | 'overlaps'
+): Promise<T[]> {
+  const supabase = await getClient()
+  const rows: T[] = []
+
+  for (let i = 0; i < values.length; i += LOOKUP_CHUNK_SIZE) {
+    const chunk = values.slice(i, i + LOOKUP_CHUNK_SIZE)
+    const query = supabase.from(table).select('*')
+    const { data, error } = await (filter === 'in' ? query.in(column, chunk) : query.overlaps(column, chunk))
+
+    if (error) {
+      throw new Error(error.message)
+    }
+    rows.push(...((data || []) as T[]))
+  }
+  return rows
+}
+
+/**
+ * Image groups any of the items belong to
+ */
+async function findImageGroups(itemIds: string[]): Promise<ProductImageGroup[]> {
+  const groups = await selectInChunks<ProductImageGroup>(GROUP_TABLE_NAME, 'itemIds', itemIds, 'overlaps')
+  return groups.filter((group, index) => groups.findIndex((other) => other.id === group.id) === index)
+}
+
+/**
+ * Record sizes of a product the image group doesn't know yet (e.g. a restock with a new Clover item)
+ */
+async function addImageGroupItems(group: ProductImageGroup, itemIds: string[]): Promise<void> {
+  const missing = itemIds.filter((itemId) => !group.itemIds.includes(itemId))
+  if (missing.length === 0) return
+
+  const supabase = await getClient()
+  const { error } = await supabase
+    .from(GROUP_TABLE_NAME)
+    .update({ itemIds: [...group.itemIds, ...missing] })
+    .eq('id', group.id)
+
+  if (error) {
+    throw new Error(`Failed to update product image group: ${error.message}`)
+  }
+}
+
+/**
+ * Image group of a product, from the Clover item IDs of its sizes; null when it has none
+ */
+export async function findProductImageGroupId(itemIds: string[]): Promise<string | null> {
+  const [group] = await findImageGroups(itemIds)
+  return group ? group.id : null
+}
+
+/**
+ * Image group of a product, recording sizes it doesn't know yet so its photos outlive sold sizes
+ * Creates one when create is set and the product has none yet; null otherwise
+ * Only used by admin image changes: the group's item list is rewritten as a whole, so it isn't safe under
+ * concurrent page views
+ */
+export async function recordProductImageGroup(itemIds: string[], create: boolean): Promise<string | null> {
+  const [group] = await findImageGroups(itemIds)
+  if (group) {
+    await addImageGroupItems(group, itemIds)
+    return group.id
+  }
+  if (!create) return null
+
+  const supabase = await getClient()
+  const created: ProductImageGroup = { id: crypto.randomUUID(), itemIds }
+  const { error } = await supabase.from(GROUP_TABLE_NAME).insert(created)
+
+  if (error) {
+    throw new Error(`Failed to create product image group: ${error.message}`)
+  }
+  return created.id
+}
+
+/**
+ * Image URLs to show for each item (primary first): its own images, otherwise its product's
+ * products are the Clover item IDs of each product's sizes; items without uploaded images are left out
+ * Read-only; read failures are logged and treated as "no images" so the storefront keeps working
+ */
+export async function getManagedImageUrls(products: string[][]): Promise<Map<string, string[]>> {
+  const imageUrls = new Map<string, string[]>()
+  const itemIds = products.flat()
+  if (itemIds.length === 0) return imageUrls
+
+  try {
+    const groups = await findImageGroups(itemIds)
+    const groupByProduct = products.map((product) =>
+      groups.find((group) => product.some((itemId) => group.itemIds.includes(itemId)))
+    )
+    const images = await selectInChunks<ProductImage>(
+      TABLE_NAME,
+      'ownerId',
+      [...itemIds, ...groups.map((group) => group.id)],
+      'in'
+    )
+
+    for (const [index, product] of products.entries()) {
+      const group = groupByProduct[index]
+      const groupImages = group
+        ? images.filter((image) => image.ownerType === 'group' && image.ownerId === group.id)
+        : []
+      for (const itemId of product) {
+        const itemImages = images.filter((image) => image.ownerType === 'item' && image.ownerId === itemId)
+        const shown = itemImages.length > 0 ? itemImages : groupImages
+        if (shown.length > 0) imageUrls.set(itemId, sortImages(shown).map((image) => image.url))
+      }
+    }
+  } catch (error) {
+    console.warn('Product image read failed:', error instanceof Error ? error.message : error)
+  }
+  return imageUrls
+}
+
+/**
+ * List an owner's images, primary first
+ */
+export async function listProductImages(owner: ProductImageOwner): Promise<ProductImage[]> {
+  const supabase = await getClient()
+  const { data, error } = await supabase
+    .from(TABLE_NAME)
+    .select('*')
+    .eq('ownerType', owner.ownerType)
+    .eq('ownerId', owner.ownerId)
+
+  if (error) {
+    throw new Error(`Failed to list product images: ${error.message}`)
+  }
+  return sortImages((data || []) as ProductImage[])
+}
+
+/**
+ * Upload a photo and add it after the owner's existing images (the first one becomes primary)
+ */
+export async function uploadProductImage(
+  owner: ProductImageOwner,
+  file: File,
+  createdBy: string | null
+): Promise<ProductImage> {
+  const existing = await listProductImages(owner)
+  const id = crypto.randomUUID()
+  const extension = file.name.split('.').pop()?.toLowerCase().replace(/[^a-z0-9]/g, '') || 'jpg'
+  const path = `${owner.ownerType}/${encodeURIComponent(owner.ownerId)}/${id}.${extension}`
+
+  const supabase = await getClient()
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET_NAME)
+    .upload(path, file, { contentType: file.type, upsert: false })
+
+  if (uploadError) {
+    throw new Error(`Failed to upload product image: ${uploadError.message}`)
+  }
+
+  const image: ProductImage = {
+    ...owner,
+    id,
+    path,
+    url: supabase.storage.from(BUCKET_NAME).getPublicUrl(path).data.publicUrl,
+    position: existing.reduce((max, current) => Math.max(max, current.position + 1), 0),
+    isPrimary: existing.length === 0,
+    createdBy,
+    createdAt: new Date().toISOString(),
+  }
+
+  const { error } = await supabase.from(TABLE_NAME).insert(image)
+  if (error) {
+    await supabase.storage.from(BUCKET_NAME).remove([path])
+    throw new Error(`Failed to save product image: ${error.message}`)
+  }
+  return image
+}
+
+/**
+ * Set the display order (image IDs, first shown first) and optionally the primary image
+ * Images missing from the order keep their relative order after the listed ones
+ */
+export async function arrangeProductImages(
+  owner: ProductImageOwner,
+  order: string[],
+  primaryId?: string
+): Promise<ProductImage[]> {
+  const images = await listProductImages(owner)
+  const unknownId = [...order, ...(primaryId ? [primaryId] : [])].find(
+    (imageId) => !images.some((image) => image.id === imageId)
+  )
+  if (unknownId) {
+    throw new Error(`Image ${unknownId} does not belong to this ${owner.ownerType}`)
+  }
+
+  const ordered = [
+    ...order.map((imageId) => images.find((image) => image.id === imageId)!),
+    ...images.filter((image) => !order.includes(image.id)).sort((a, b) => a.position - b.position),
+  ]
+  const primary = primaryId ?? images.find((image) => image.isPrimary)?.id
+
+  const supabase = await getClient()
+  const arranged = ordered.map((image, position) => ({ ...image, position, isPrimary: image.id === primary }))
+  for (const image of arranged) {
+    const { error } = await supabase
+      .from(TABLE_NAME)
+      .update({ position: image.position, isPrimary: image.isPrimary })
+      .eq('id', image.id)
+
+    if (error) {
+      throw new Error(`Failed to arrange product images: ${error.message}`)
+    }
+  }
+  return sortImages(arranged)
+}
+
+/**
+ * Delete an image and its file; the next image becomes primary if the primary one is removed
+ * Returns the owner the image belonged to, or null if there was no such image
+ */
+export async function deleteProductImage(imageId: string): Promise<ProductImageOwner | null> {
+  const supabase = await getClient()
+  const { data: image, error: readError } = await supabase
+    .from(TABLE_NAME)
+    .select('*')
+    .eq('id', imageId)
+    .maybeSingle()
+
+  if (readError) {
+    throw new Error(`Failed to delete product image: ${readError.message}`)
+  }
+  if (!image) return null
+
+  const { error } = await supabase.from(TABLE_NAME).delete().eq('id', imageId)
+  if (error) {
+    throw new Error(`Failed to delete product image: ${error.message}`)
+  }
+
+  const { error: storageError } = await supabase.storage.from(BUCKET_NAME).remove([image.path])
+  if (storageError) {
+    console.warn(`Product image file ${image.path} was not removed:`, storageError.message)
+  }
+
+  const owner: ProductImageOwner = { ownerType: image.ownerType, ownerId: image.ownerId }
+  if (image.isPrimary) {
+    const [next] = await listProductImages(owner)
+    if (next) await arrangeProductImages(owner, [], next.id)
+  }
+  return owner
+}
@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createMemoryCacheStore, setCacheStore } from './cache-store'
+import { createProductNameCleaner } from './product-name-cleaner'
+
+describe('name cleaner providers', () => {
+  beforeEach(() => {
+    setCacheStore(createMemoryCacheStore())
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('replays recorded responses through the same validation as live ones', async () => {
+    const cleaner = createProductNameCleaner('fixture')
+
+    expect(cleaner.version).toMatch(/^fixture:prompt-\d+$/)
+    expect(await cleaner.cleanName('J1 Low Chicago 553558-163 (9)')).toMatchObject({
+      cleanedName: 'Jordan 1 Low Chicago',
+      brand: 'Jordan',
+      size: '9',
+      styleCode: '553558-163',
+    })
+  })
+
+  it("doesn't clean names without a recorded response", async () => {
+    const cleaner = createProductNameCleaner('fixture')
+
+    expect(await cleaner.cleanNames(['Jordan 1 High Lost and Found 10.5', 'Mystery item'])).toEqual([
+      expect.objectContaining({ colorway: 'Lost and Found' }),
+      null,
+    ])
+  })
+
+  it('keeps original names with no provider', async () => {
+    const cleaner = createProductNameCleaner('none')
+
+    expect(await cleaner.cleanNames(['Dunk Low Panda 10'])).toEqual([null])
+  })
+})
@@ -0,0 +1,267 @@
+/**
+ * Product name cleaner providers
+ * NAME_CLEANER_PROVIDER picks the backend used to clean Clover names:
+ *   openai      - OpenAI (OPENAI_API_KEY, OPENAI_MODEL, default gpt-4o-mini)
+ *   local       - any OpenAI-compatible endpoint such as llama.cpp or Ollama (LOCAL_LLM_BASE_URL, LOCAL_LLM_MODEL)
+ *   huggingface - HuggingFace Inference API (HUGGINGFACE_API_KEY, HUGGINGFACE_MODEL)
+ *   fixture     - replays recorded responses from NAME_CLEANER_FIXTURES, no network needed
+ *   none        - no cleaning, original names are used
+ * Defaults to openai when an OpenAI key is set, otherwise none
+ */
+
+import {
+  CLEANING_PROMPT_VERSION,
+  MAX_BATCH_SIZE,
+  createChatModelCleaner,
+  getCleaningPromptText,
+  parseCleanedProductResponse,
+  recordCleaningRejection,
+} from './ai-product-cleaner'
+import type { CleanedProductData } from './ai-product-cleaner'
+import { HUGGINGFACE_MODEL, generateHuggingFaceText, isHuggingFaceConfigured } from './huggingface-api'
+import type { NameCleaningStatus } from '../types/inventory'
+import { getEnv } from './env'
+
+export const NAME_CLEANER_PROVIDERS = ['openai', 'local', 'huggingface', 'fixture', 'none'] as const
+
+export type NameCleanerProvider = (typeof NAME_CLEANER_PROVIDERS)[number]
+
+/**
+ * A backend that turns raw Clover names into structured product data
+ * Both methods resolve to null for names they couldn't clean (never throw)
+ */
+export interface ProductNameCleaner {
+  provider: NameCleanerProvider
+  version: string // Provider, model and prompt version, stored with enrichment results
+  cleanName: (originalName: string) => Promise<CleanedProductData | null>
+  cleanNames: (originalNames: string[]) => Promise<(CleanedProductData | null)[]>
+}
+
+const OPENAI_API_KEY = getEnv('VITE_OPENAI_API_KEY') || getEnv('OPENAI_API_KEY')
+// gpt-4o-mini for cost-effectiveness: ~$0.15 per 1M input tokens, ~$0.60 per 1M output tokens
+const OPENAI_MODEL = getEnv('OPENAI_MODEL') || 'gpt-4o-mini'
+// Ollama's OpenAI-compatible endpoint by default; llama.cpp's server uses http://localhost:8080/v1
+const LOCAL_LLM_BASE_URL = getEnv('LOCAL_LLM_BASE_URL') || 'http://localhost:11434/v1'
+const LOCAL_LLM_MODEL = getEnv('LOCAL_LLM_MODEL') || 'llama3.1'
+const LOCAL_LLM_API_KEY = getEnv('LOCAL_LLM_API_KEY') || 'local' // Most local servers ignore the key
+const NAME_CLEANER_FIXTURES = getEnv('NAME_CLEANER_FIXTURES') || 'scripts/fixtures/name-cleaner-responses.json'
+
+/**
+ * Provider from NAME_CLEANER_PROVIDER, or the default for the configured keys
+ */
+function getConfiguredProvider(): NameCleanerProvider {
+  const configured = getEnv('NAME_CLEANER_PROVIDER')?.trim().toLowerCase()
+  if (configured) {
+    if ((NAME_CLEANER_PROVIDERS as readonly string[]).includes(configured)) {
+      return configured as NameCleanerProvider
+    }
+    console.warn(
+      `Unknown NAME_CLEANER_PROVIDER "${configured}", expected one of: ${NAME_CLEANER_PROVIDERS.join(', ')}`
+    )
+  }
+  return OPENAI_API_KEY ? 'openai' : 'none'
+}
+
+const noneCleaner: ProductNameCleaner = {
+  provider: 'none',
+  version: 'none',
+  cleanName: async () => null,
+  cleanNames: async (originalNames) => originalNames.map(() => null),
+}
+
+/**
+ * HuggingFace text generation has no structured output mode, so the schema goes in the prompt
+ * and the JSON object is taken out of the reply before validation
+ */
+function createHuggingFaceCleaner(): ProductNameCleaner {
+  async function cleanName(originalName: string): Promise<CleanedProductData | null> {
+    let content: string
+    try {
+      content = await generateHuggingFaceText(getCleaningPromptText(originalName))
+    } catch (error) {
+      recordCleaningRejection('request_failed', originalName, error)
+      return null
+    }
+    return parseCleanedProductResponse(originalName, content.match(/\{[\s\S]*\}/)?.[0] ?? content)
+  }
+
+  return {
+    provider: 'huggingface',
+    version: `huggingface:${HUGGINGFACE_MODEL}:prompt-${CLEANING_PROMPT_VERSION}`,
+    cleanName,
+    cleanNames: (originalNames) => Promise.all(originalNames.map(cleanName)),
+  }
+}
+
+/**
+ * Replays recorded model responses from a JSON file of { "<original name>": <response object> }
+ * Responses go through the same validation as live ones; unknown names aren't cleaned
+ */
+function createFixtureCleaner(fixturePath: string): ProductNameCleaner {
+  let fixtures: Promise<Record<string, unknown>> | null = null
+
+  const loadFixtures = () => {
+    fixtures ??= (async () => {
+      try {
+        const { readFile } = await import('node:fs/promises')
+        return JSON.parse(await readFile(fixturePath, 'utf8')) as Record<string, unknown>
+      } catch (error) {
+        console.warn(`Could not load name cleaner fixtures from ${fixturePath}:`, error)
+        return {}
+      }
+    })()
+    return fixtures
+  }
+
+  async function cleanName(originalName: string): Promise<CleanedProductData | null> {
+    const recorded = (await loadFixtures())[originalName]
+    if (recorded === undefined) {
+      return null
+    }
+    return parseCleanedProductResponse(originalName, JSON.stringify(recorded))
+  }
+
+  return {
+    provider: 'fixture',
+    version: `fixture:prompt-${CLEANING_PROMPT_VERSION}`,
+    cleanName,
+    cleanNames: (originalNames) => Promise.all(originalNames.map(cleanName)),
+  }
+}
+
+/**
+ * Build a cleaner for a provider
+ * Providers missing their credentials fall back to "none" with a warning
+ */
+export function createProductNameCleaner(provider: NameCleanerProvider): ProductNameCleaner {
+  switch (provider) {
+    case 'openai':
+      if (!OPENAI_API_KEY) {
+        console.warn('OpenAI API key not found. Set VITE_OPENAI_API_KEY or OPENAI_API_KEY')
+        return noneCleaner
+      }
+      return createChatModelCleaner({ provider, model: OPENAI_MODEL, apiKey: OPENAI_API_KEY })
+    case 'local':
+      return createChatModelCleaner({
+        provider,
+        model: LOCAL_LLM_MODEL,
+        apiKey: LOCAL_LLM_API_KEY,
+        baseURL: LOCAL_LLM_BASE_URL,
+      })
+    case 'huggingface':
+      if (!isHuggingFaceConfigured()) {
+        console.warn('HuggingFace API key not found. Set VITE_HUGGINGFACE_API_KEY or HUGGINGFACE_API_KEY')
+        return noneCleaner
+      }
+      return createHuggingFaceCleaner()
+    case 'fixture':
+      return createFixtureCleaner(NAME_CLEANER_FIXTURES)
+    case 'none':
+      return noneCleaner
+  }
+}
+
+let productNameCleaner: ProductNameCleaner | null = null
+
+/**
+ * The configured cleaner (created on first use)
+ */
+export function getProductNameCleaner(): ProductNameCleaner {
+  productNameCleaner ??= createProductNameCleaner(getConfiguredProvider())
+  return productNameCleaner
+}
+
+/**
+ * Clean and normalize a single product name with the configured provider
+ * Returns structured data with brand, model, size, etc.
+ */
+export async function cleanProductName(originalName: string): Promise<CleanedProductData | null> {
+  return getProductNameCleaner().cleanName(originalName)
+}
+
+/**
+ * Batch clean multiple product names efficiently
+ * Sends batchSize names per request, with a short delay between requests
+ */
+export async function batchCleanProductNames(
+  productNames: string[],
+  batchSize: number = 10,
+  delayMs: number = 100
+): Promise<(CleanedProductData | null)[]> {
+  const cleaner = getProductNameCleaner()
+  if (cleaner.provider === 'none') {
+    return productNames.map(() => null)
+  }
+
+  const results: (CleanedProductData | null)[] = []
+  const namesPerRequest = Math.max(1, Math.min(batchSize, MAX_BATCH_SIZE))
+
+  // Process in batches to avoid rate limits
+  for (let i = 0; i < productNames.length; i += namesPerRequest) {
+    const batch = productNames.slice(i, i + namesPerRequest)
+    results.push(...(await cleaner.cleanNames(batch)))
+
+    // Small delay between batches to respect rate limits
+    if (i + namesPerRequest < productNames.length) {
+      await new Promise((resolve) => setTimeout(resolve, delayMs))
+    }
+  }
+
+  return results
+}
+
+/**
+ * Cleaned data used for enrichment (AI result, or the original name when AI is unavailable)
+ */
+export type SafeCleanedProductData = Omit<CleanedProductData, 'confidence'> & {
+  cleaning: NameCleaningStatus
+}
+
+/**
+ * Use a confident AI result, otherwise fall back to the original name
+ */
+function toSafeCleanedData(
+  originalName: string,
+  aiResult: CleanedProductData | null
+): SafeCleanedProductData {
+  if (aiResult && aiResult.confidence !== 'low') {
+    return {
+      cleanedName: aiResult.cleanedName,
+      brand: aiResult.brand,
+      model: aiResult.model,
+      size: aiResult.size,
+      variant: aiResult.variant,
+      colorway: aiResult.colorway,
+      styleCode: aiResult.styleCode,
+      condition: aiResult.condition,
+      packaging: aiResult.packaging,
+      cleaning: 'ai',
+    }
+  }
+
+  // Fallback to original name if AI fails
+  return {
+    cleanedName: originalName,
+    brand: '',
+    model: originalName,
+    size: undefined,
+    variant: undefined,
+    cleaning: aiResult ? 'low-confidence' : 'unavailable',
+  }
+}
+
+/**
+ * Clean product name with fallback to original parsing
+ * Returns the best available cleaned data
+ */
+export async function cleanProductNameSafe(originalName: string): Promise<SafeCleanedProductData> {
+  return toSafeCleanedData(originalName, await cleanProductName(originalName))
+}
+
+/**
+ * Clean several product names in batched requests, with the same fallback as cleanProductNameSafe
+ */
+export async function cleanProductNamesSafe(originalNames: string[]): Promise<SafeCleanedProductData[]> {
+  const aiResults = await batchCleanProductNames(originalNames)
+  return originalNames.map((name, index) => toSafeCleanedData(name, aiResults[index]))
+}
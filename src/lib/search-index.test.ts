@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { buildSearchIndex, tokenize } from './search-index'
+import type { EnrichedInventoryItem } from '../types/inventory'
+
+function makeItem(id: string, brand: string, model: string, colorway?: string): EnrichedInventoryItem {
+  const name = [brand, model, colorway].filter(Boolean).join(' ')
+  return { id, name, originalName: name, brand, model, colorway, matched: false, searchQuery: name }
+}
+
+const index = buildSearchIndex([
+  makeItem('jordan-1', 'Jordan', 'Jordan 1 Retro High OG', 'Chicago'),
+  makeItem('air-jordan-1', 'Nike', 'Air Jordan 1 Low', 'Bred'),
+  makeItem('aj1-listing', 'Nike', 'AJ1 Mid', 'Panda'),
+  makeItem('jordan-4', 'Jordan', 'Jordan 4 Retro', 'Black Cat'),
+  makeItem('af1', 'Nike', 'Air Force 1 Low', 'White'),
+  makeItem('dunk', 'Nike', 'Dunk Low', 'Panda'),
+])
+
+const searchIds = (query: string) => Array.from(index.search(query).keys()).sort()
+
+describe('tokenize', () => {
+  it('splits letter/digit boundaries so "aj1" and "AJ 1" match', () => {
+    expect(tokenize('aj1')).toEqual(['aj', '1'])
+    expect(tokenize('AJ 1')).toEqual(['aj', '1'])
+  })
+})
+
+describe('search synonyms', () => {
+  it('finds Jordan 1 listings with or without "Air" for aj1', () => {
+    expect(searchIds('aj1')).toEqual(['air-jordan-1', 'aj1-listing', 'jordan-1'])
+    expect(searchIds('aj 1')).toEqual(['air-jordan-1', 'aj1-listing', 'jordan-1'])
+  })
+
+  it('finds abbreviated listings when the full name is searched', () => {
+    expect(searchIds('air jordan 1')).toEqual(['air-jordan-1', 'aj1-listing'])
+  })
+
+  it('keeps the model number required', () => {
+    expect(searchIds('aj4')).toEqual(['jordan-4'])
+  })
+
+  it('expands af1 to Air Force 1', () => {
+    expect(searchIds('af1')).toEqual(['af1'])
+  })
+})
+
+describe('search', () => {
+  it('requires every query word to match', () => {
+    expect(searchIds('panda')).toEqual(['aj1-listing', 'dunk'])
+    expect(searchIds('dunk panda')).toEqual(['dunk'])
+  })
+
+  it('tolerates typos in longer words', () => {
+    expect(searchIds('chicgo')).toEqual(['jordan-1'])
+  })
+})
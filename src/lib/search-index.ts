@@ -0,0 +1,347 @@
+import type { EnrichedInventoryItem } from '../types/inventory'
+import { SNEAKER_ABBREVIATIONS } from './sneaker-abbreviations'
+import { extractStyleCode, getStyleCodeKey } from './style-code'
+
+/**
+ * Fuzzy product search index
+ * Tolerates typos ("jordon 4", "yezzy") and abbreviations ("af 1", "aj1") and ranks by relevance
+ */
+
+// How much a match in each field counts towards the relevance score
+const FIELD_WEIGHTS = {
+  brand: 3,
+  model: 3,
+  styleCode: 3,
+  colorway: 2,
+  name: 1.5,
+  originalName: 1,
+} as const
+
+type SearchField = keyof typeof FIELD_WEIGHTS
+
+// Match quality multipliers
+const EXACT_MATCH_SCORE = 1
+const PREFIX_MATCH_SCORE = 0.8
+const TYPO_PENALTY = 0.3
+// A query that is exactly an item's style code ranks it above any name match
+const STYLE_CODE_MATCH_SCORE = 100
+
+// Prefix matches only for query tokens at least this long ("j" should not match everything)
+const MIN_PREFIX_LENGTH = 2
+
+// Fields offered as search-as-you-type completions
+const COMPLETION_FIELDS = ['brand', 'model', 'colorway'] as const
+
+export type CompletionType = (typeof COMPLETION_FIELDS)[number]
+
+export interface SearchCompletion {
+  type: CompletionType
+  value: string
+  /** Number of items with this value */
+  count: number
+}
+
+export interface SearchSuggestions {
+  completions: SearchCompletion[]
+  products: EnrichedInventoryItem[]
+}
+
+export interface SearchIndex {
+  /** Number of indexed items */
+  size: number
+  /** Relevance score by item ID for items matching every query term (empty if none match) */
+  search: (query: string) => Map<string, number>
+  /** Completions and top product hits for a partial query (last word matched as a prefix) */
+  suggest: (query: string, limit?: number) => SearchSuggestions
+}
+
+// Abbreviation (lowercase) -> expanded tokens, e.g. af1 -> [air, force, 1]
+// Queries expand to the words every listing shares (aj -> [jordan]); item names index the full expansion
+const SYNONYMS = new Map<string, string[]>()
+const INDEXED_SYNONYMS = new Map<string, string[]>()
+for (const entry of SNEAKER_ABBREVIATIONS) {
+  const expansion = tokenize(entry.expansion)
+  const searchExpansion = entry.searchExpansion ? tokenize(entry.searchExpansion) : expansion
+  for (const abbreviation of entry.abbreviations) {
+    SYNONYMS.set(abbreviation.toLowerCase(), searchExpansion)
+    INDEXED_SYNONYMS.set(abbreviation.toLowerCase(), expansion)
+  }
+}
+
+/**
+ * Split text into lowercase search tokens
+ * Letter/digit boundaries are split too, so "aj1" and "AJ 1" tokenize the same
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/([a-z])(\d)/g, '$1 $2')
+    .replace(/(\d)([a-z])/g, '$1 $2')
+    .split(/[^a-z0-9.]+/)
+    .map((token) => token.replace(/^\.+|\.+$/g, ''))
+    .filter(Boolean)
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds maxDistance
+ */
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let rowMin = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+      rowMin = Math.min(rowMin, current[j])
+    }
+    if (rowMin > maxDistance) return maxDistance + 1
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Typos allowed for a query token - none for short tokens or anything with digits (sizes, model numbers)
+ */
+function allowedTypos(token: string): number {
+  if (/\d/.test(token) || token.length <= 3) return 0
+  return token.length <= 6 ? 1 : 2
+}
+
+/**
+ * Expand a query into term groups - an item must match every group
+ * Each group lists alternatives: the literal token, or its abbreviation expansion
+ */
+function parseQuery(query: string): string[][][] {
+  // Match abbreviations before letter/digit splitting so "af1" expands as a whole
+  const groups: string[][][] = []
+  for (const word of query.toLowerCase().split(/\s+/).filter(Boolean)) {
+    const synonym = SYNONYMS.get(word.replace(/[^a-z0-9]/g, ''))
+    const tokens = tokenize(word)
+    if (synonym) {
+      groups.push([tokens, synonym])
+      continue
+    }
+    for (const token of tokens) {
+      const expansion = SYNONYMS.get(token)
+      groups.push(expansion ? [[token], expansion] : [[token]])
+    }
+  }
+  return groups
+}
+
+/**
+ * Build a search index over enriched (or fallback-parsed) catalog items
+ */
+export function buildSearchIndex(items: EnrichedInventoryItem[]): SearchIndex {
+  // term -> item ID -> best field weight for that term
+  const postings = new Map<string, Map<string, number>>()
+
+  const addTerm = (term: string, itemId: string, weight: number) => {
+    let itemWeights = postings.get(term)
+    if (!itemWeights) {
+      itemWeights = new Map()
+      postings.set(term, itemWeights)
+    }
+    itemWeights.set(itemId, Math.max(itemWeights.get(itemId) || 0, weight))
+  }
+
+  for (const item of items) {
+    for (const field of Object.keys(FIELD_WEIGHTS) as SearchField[]) {
+      const value = item[field]
+      if (!value) continue
+      for (const token of tokenize(value)) {
+        addTerm(token, item.id, FIELD_WEIGHTS[field])
+        // Index abbreviations in item names under their expansion too ("AF1" -> air force 1)
+        for (const expanded of INDEXED_SYNONYMS.get(token) || []) {
+          addTerm(expanded, item.id, FIELD_WEIGHTS[field])
+        }
+      }
+    }
+  }
+
+  const vocabulary = Array.from(postings.keys())
+
+  // Style code key ("DD1391100") -> item IDs, for exact lookups however the code is typed
+  const styleCodeItems = new Map<string, string[]>()
+  for (const item of items) {
+    if (!item.styleCode) continue
+    const key = getStyleCodeKey(item.styleCode)
+    styleCodeItems.set(key, [...(styleCodeItems.get(key) || []), item.id])
+  }
+
+  /**
+   * Score each item for a single query token (best matching term per item)
+   */
+  const matchToken = (token: string): Map<string, number> => {
+    const scores = new Map<string, number>()
+    const maxTypos = allowedTypos(token)
+
+    const addMatches = (term: string, quality: number) => {
+      for (const [itemId, weight] of postings.get(term) || []) {
+        const score = quality * weight
+        if (score > (scores.get(itemId) || 0)) scores.set(itemId, score)
+      }
+    }
+
+    for (const term of vocabulary) {
+      if (term === token) {
+        addMatches(term, EXACT_MATCH_SCORE)
+      } else if (token.length >= MIN_PREFIX_LENGTH && !/^\d+$/.test(token) && term.startsWith(token)) {
+        addMatches(term, PREFIX_MATCH_SCORE)
+      } else if (maxTypos > 0 && !/\d/.test(term)) {
+        const distance = editDistance(token, term, maxTypos)
+        if (distance <= maxTypos) {
+          addMatches(term, EXACT_MATCH_SCORE - distance * TYPO_PENALTY)
+        }
+      }
+    }
+
+    return scores
+  }
+
+  /**
+   * Score items for one alternative (all of its tokens must match)
+   */
+  const matchAlternative = (tokens: string[]): Map<string, number> => {
+    let result: Map<string, number> | null = null
+    for (const token of tokens) {
+      const tokenScores = matchToken(token)
+      if (!result) {
+        result = tokenScores
+        continue
+      }
+      const merged = new Map<string, number>()
+      for (const [itemId, score] of result) {
+        const tokenScore = tokenScores.get(itemId)
+        if (tokenScore !== undefined) merged.set(itemId, score + tokenScore)
+      }
+      result = merged
+    }
+    return result || new Map()
+  }
+
+  const search = (query: string): Map<string, number> => {
+    const { name: rest, styleCode } = extractStyleCode(query.trim())
+    const styleCodeMatches = styleCode ? styleCodeItems.get(getStyleCodeKey(styleCode)) : undefined
+    if (styleCodeMatches && !rest) {
+      return new Map(styleCodeMatches.map((itemId) => [itemId, STYLE_CODE_MATCH_SCORE]))
+    }
+
+    const groups = parseQuery(query)
+    let result: Map<string, number> | null = null
+
+    for (const alternatives of groups) {
+      // Best alternative per item (expansions are normalized by their length)
+      const groupScores = new Map<string, number>()
+      for (const tokens of alternatives) {
+        for (const [itemId, score] of matchAlternative(tokens)) {
+          const normalized = score / tokens.length
+          if (normalized > (groupScores.get(itemId) || 0)) groupScores.set(itemId, normalized)
+        }
+      }
+
+      if (!result) {
+        result = groupScores
+        continue
+      }
+      const merged = new Map<string, number>()
+      for (const [itemId, score] of result) {
+        const groupScore = groupScores.get(itemId)
+        if (groupScore !== undefined) merged.set(itemId, score + groupScore)
+      }
+      result = merged
+    }
+
+    return result || new Map()
+  }
+
+  // Distinct brand/model/colorway values with item counts, for completions
+  const completionCounts = new Map<string, SearchCompletion & { tokens: string[] }>()
+  for (const item of items) {
+    for (const type of COMPLETION_FIELDS) {
+      const value = item[type]?.trim()
+      if (!value) continue
+      const key = `${type}:${value.toLowerCase()}`
+      const existing = completionCounts.get(key)
+      if (existing) {
+        existing.count++
+      } else {
+        completionCounts.set(key, { type, value, count: 1, tokens: tokenize(value) })
+      }
+    }
+  }
+  const completionEntries = Array.from(completionCounts.values())
+  const itemsById = new Map(items.map((item) => [item.id, item]))
+
+  /**
+   * Score how well a completion's tokens cover the query (0 if any query term is missing)
+   */
+  const scoreCompletion = (valueTokens: string[], groups: string[][][]): number => {
+    let total = 0
+    for (const alternatives of groups) {
+      let best = 0
+      for (const tokens of alternatives) {
+        let score = 0
+        for (const token of tokens) {
+          let tokenScore = 0
+          for (const valueToken of valueTokens) {
+            if (valueToken === token) {
+              tokenScore = EXACT_MATCH_SCORE
+              break
+            }
+            if (valueToken.startsWith(token) && !/^\d+$/.test(token)) {
+              tokenScore = Math.max(tokenScore, PREFIX_MATCH_SCORE)
+            } else if (allowedTypos(token) > 0) {
+              // Typos are tolerated against the whole word or, while typing, its prefix
+              const maxTypos = allowedTypos(token)
+              const distance = Math.min(
+                editDistance(token, valueToken, maxTypos),
+                editDistance(token, valueToken.slice(0, token.length), maxTypos)
+              )
+              if (distance <= maxTypos) {
+                tokenScore = Math.max(tokenScore, PREFIX_MATCH_SCORE - distance * TYPO_PENALTY)
+              }
+            }
+          }
+          if (tokenScore === 0) {
+            score = 0
+            break
+          }
+          score += tokenScore
+        }
+        best = Math.max(best, score / tokens.length)
+      }
+      if (best === 0) return 0
+      total += best
+    }
+    return total
+  }
+
+  const suggest = (query: string, limit = 5): SearchSuggestions => {
+    const groups = parseQuery(query)
+    if (groups.length === 0) return { completions: [], products: [] }
+
+    const completions = completionEntries
+      .map((entry) => ({ entry, score: scoreCompletion(entry.tokens, groups) }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || b.entry.count - a.entry.count)
+      .slice(0, limit)
+      .map(({ entry }) => ({ type: entry.type, value: entry.value, count: entry.count }))
+
+    const products = Array.from(search(query))
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([itemId]) => itemsById.get(itemId))
+      .filter((item): item is EnrichedInventoryItem => item !== undefined)
+
+    return { completions, products }
+  }
+
+  return { size: items.length, search, suggest }
+}
@@ -1,12 +1,20 @@
 import type { ParsedShoe } from '../types/inventory'
+import { extractConditionAndPackaging } from './condition'
+import { extractStyleCode } from './style-code'
+import { matchBrandPrefix } from './brands'
 
 /**
  * Parses inconsistent shoe names from Clover inventory
  * Handles formats like "Af1 Ambush 5y/6.5w (7)" and variations
  */
 export function parseShoeName(originalName: string): ParsedShoe {
+  // Pull out condition/packaging first ("VNDS", "Used 8/10", "NO BOX") so they don't hide the size
+  const { name: nameWithoutCondition, condition, packaging } = extractConditionAndPackaging(originalName)
+  // Then the style code ("DD1391-100"), whose digits would otherwise read as a size
+  const { name: nameWithoutStyleCode, styleCode } = extractStyleCode(nameWithoutCondition)
+
   // Remove extra whitespace
-  let name = originalName.trim()
+  let name = nameWithoutStyleCode.trim()
 
   // Extract size information (patterns like "5y/6.5w (7)", "10", "10.5", etc.)
   // More comprehensive size patterns
@@ -19,6 +27,8 @@ export function parseShoeName(originalName: string): ParsedShoe {
     /\s+\d+\.?\d*\s*[mMyYwW]\s*\(/, // " 10M ("
     /\s+Size\s+\d+\.?\d*\s*\(/i, // "Size 10 ("
     /\s+\d+\.?\d*\s*\(/, // " 10 ("
+    /\s+Size\s+\d+\.?\d*\s*[mMyYwW]?\s*$/i, // "Size 11" at the end
+    /\s+\d+\.?\d*\s*[mMyYwW]\s*$/, // " 10M" at the end
     /\s+\(?\d+\.?\d*\)?\s*$/, // "(7)" or "10" at the end
     /\s+\d+\.?\d*\s*$/, // " 10.5" at the end
     /\s+[SMLXL]+$/i, // " L" or " XL" at the end
@@ -49,65 +59,38 @@ export function parseShoeName(originalName: string): ParsedShoe {
       brand: '',
       model: originalName,
       size,
+      styleCode,
+      condition,
+      packaging,
       originalName,
       searchQuery: originalName,
     }
   }
 
-  // Common shoe brand patterns (case-insensitive)
-  const brandPatterns = [
-    /^nike$/i,
-    /^adidas$/i,
-    /^jordan$/i,
-    /^air\s+jordan$/i,
-    /^new\s+balance$/i,
-    /^puma$/i,
-    /^reebok$/i,
-    /^vans$/i,
-    /^converse$/i,
-    /^yeezy$/i,
-    /^dunk$/i,
-    /^af1$/i,
-    /^air\s+force$/i,
-  ]
-
-  // Try to identify brand from first part(s)
+  // Try to identify brand from first part(s): a brand or alias ("New Balance", "NB"),
+  // or a model line that implies one ("Dunk" -> Nike, "Yeezy" -> Adidas)
   let brand = ''
   let modelStartIndex = 0
-
-  // Check if first part is a brand
-  if (parts[0] && brandPatterns.some((p) => p.test(parts[0]))) {
-    brand = parts[0]
-    modelStartIndex = 1
-
-    // Check for two-word brands (e.g., "Air Jordan", "New Balance")
-    if (parts.length > 1) {
-      const twoWordBrand = `${parts[0]} ${parts[1]}`
-      if (brandPatterns.some((p) => p.test(twoWordBrand))) {
-        brand = twoWordBrand
-        modelStartIndex = 2
-      }
+  const brandMatch = matchBrandPrefix(parts)
+
+  if (brandMatch) {
+    brand = brandMatch.brand.name
+    modelStartIndex = brandMatch.wordCount
+    if (brandMatch.modelLine) {
+      // Keep the model line in the model, spelled out ("Af1 Ambush" -> "Air Force 1 Ambush")
+      parts.splice(0, brandMatch.wordCount, ...brandMatch.modelLine.name.split(' '))
+      modelStartIndex = 0
     }
   } else {
-    // If no brand found, check for common abbreviations
+    // If no brand found, check for glued Jordan abbreviations ("AJ4", "J1")
     const firstPart = parts[0]?.toLowerCase() || ''
-    if (firstPart === 'af1' || firstPart === 'af') {
-      brand = 'Nike'
-      modelStartIndex = 1
-      // Add "Air Force 1" to model if it's just "AF1"
-      if (parts.length === 1 || (parts.length > 1 && !parts[1].match(/^\d+$/))) {
-        parts.splice(1, 0, 'Air', 'Force', '1')
-        modelStartIndex = 4
-      }
-    } else if (firstPart.startsWith('aj') || (firstPart === 'j' && parts.length > 1)) {
+    if (/^(aj|j)\d+$/.test(firstPart) || (firstPart === 'j' && parts.length > 1)) {
       brand = 'Jordan'
       modelStartIndex = 1
-    } else if (firstPart === 'nb') {
-      brand = 'New Balance'
-      modelStartIndex = 1
-    } else if (firstPart === 'sb' && parts.length > 1 && parts[1].toLowerCase() === 'dunk') {
-      brand = 'Nike'
-      modelStartIndex = 0 // Keep "Sb Dunk" as part of model
+      const number = firstPart.match(/\d+$/)?.[0]
+      if (number) {
+        parts.splice(1, 0, number)
+      }
     } else {
       // Default: use first part as brand if it looks like one
       brand = parts[0] || ''
@@ -121,10 +104,6 @@ export function parseShoeName(originalName: string): ParsedShoe {
   // Clean up model - remove common words that shouldn't be in search
   model = model
     .replace(/\s+Size\s+/gi, ' ')
-    .replace(/\s+Vnds\s*/gi, '')
-    .replace(/\s+Used\s*/gi, '')
-    .replace(/\s+USED\s*/gi, '')
-    .replace(/\s+NO BOX LABEL\s*/gi, '')
     .replace(/\s+Store Credit\s*/gi, '')
     .trim()
 
@@ -156,6 +135,9 @@ export function parseShoeName(originalName: string): ParsedShoe {
     brand: brand.trim(),
     model: model.trim(),
     size,
+    styleCode,
+    condition,
+    packaging,
     originalName,
     searchQuery,
   }
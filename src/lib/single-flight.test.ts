@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createSingleFlight } from './single-flight'
+
+describe('createSingleFlight', () => {
+  it('shares one in-flight call between callers with the same key', async () => {
+    const flight = createSingleFlight<string>()
+    let finish: (value: string) => void = () => {}
+    const work = vi.fn(() => new Promise<string>((resolve) => (finish = resolve)))
+
+    const first = flight('inventory', work)
+    const second = flight('inventory', work)
+    expect(flight.has('inventory')).toBe(true)
+
+    finish('done')
+    expect(await Promise.all([first, second])).toEqual(['done', 'done'])
+    expect(work).toHaveBeenCalledTimes(1)
+  })
+
+  it('runs different keys separately', async () => {
+    const flight = createSingleFlight<string>()
+
+    expect(await Promise.all([flight('a', async () => 'a'), flight('b', async () => 'b')])).toEqual(['a', 'b'])
+  })
+
+  it('releases the key once the call settles, even when it fails', async () => {
+    const flight = createSingleFlight<string>()
+
+    await expect(flight('item', async () => Promise.reject(new Error('Clover is down')))).rejects.toThrow(
+      'Clover is down'
+    )
+    expect(flight.has('item')).toBe(false)
+    expect(await flight('item', async () => 'retried')).toBe('retried')
+  })
+})
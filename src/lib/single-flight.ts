@@ -0,0 +1,30 @@
+/**
+ * Single-flight request coalescing
+ * Concurrent calls with the same key share one in-flight promise instead of each doing the work
+ */
+
+export type SingleFlight<T> = ((key: string, fn: () => Promise<T>) => Promise<T>) & {
+  has: (key: string) => boolean // Whether work for the key is in flight (a call now would join it)
+}
+
+/**
+ * Create a single-flight group
+ * The key is released once the promise settles, so later calls start fresh work
+ */
+export function createSingleFlight<T>(): SingleFlight<T> {
+  const inFlight = new Map<string, Promise<T>>()
+
+  const run = (key: string, fn: () => Promise<T>): Promise<T> => {
+    const existing = inFlight.get(key)
+    if (existing) {
+      return existing
+    }
+
+    const promise = fn().finally(() => {
+      inFlight.delete(key)
+    })
+    inFlight.set(key, promise)
+    return promise
+  }
+  return Object.assign(run, { has: (key: string) => inFlight.has(key) })
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { convertSize, formatSizeForSystem, getSizeChartBrand } from './size-conversion'
+import { parseSize } from './sizes'
+
+describe('getSizeChartBrand', () => {
+  it('picks the chart from the brand or model', () => {
+    expect(getSizeChartBrand('Adidas', 'Yeezy Boost 350 V2')).toBe('adidas')
+    expect(getSizeChartBrand('', 'Yeezy Slide')).toBe('adidas')
+    expect(getSizeChartBrand('New Balance', '550')).toBe('new-balance')
+    expect(getSizeChartBrand('Jordan', 'Jordan 1')).toBe('nike')
+    expect(getSizeChartBrand('Pop Mart', 'Labubu')).toBe('nike')
+  })
+})
+
+describe('convertSize', () => {
+  it("converts US men's sizes with the brand's chart", () => {
+    expect(convertSize(parseSize('10'), 'Nike', 'Dunk Low')).toEqual({
+      chart: 'nike',
+      usMen: '10',
+      usWomen: '11.5',
+      uk: '9',
+      eu: '44',
+      cm: '28',
+    })
+    expect(convertSize(parseSize('10'), 'Adidas', 'Samba')).toMatchObject({ usWomen: '11', uk: '9.5', eu: '44' })
+  })
+
+  it("converts US women's sizes through the men's chart", () => {
+    expect(convertSize(parseSize('8.5W'), 'Nike', 'Dunk Low')).toMatchObject({ usMen: '7', eu: '40' })
+  })
+
+  it('converts grade school sizes on the men’s chart', () => {
+    expect(convertSize(parseSize('5Y'), 'Jordan', 'Jordan 1')).toMatchObject({ usMen: '5', eu: '37.5' })
+  })
+
+  it('leaves toddler, apparel and off-chart sizes unconverted', () => {
+    expect(convertSize(parseSize('8C'), 'Nike', 'Dunk Low')).toBeUndefined()
+    expect(convertSize(parseSize('XL'), 'Nike', 'Hoodie')).toBeUndefined()
+    expect(convertSize(parseSize('20'), 'Nike', 'Dunk Low')).toBeUndefined()
+    expect(convertSize(undefined, 'Nike', 'Dunk Low')).toBeUndefined()
+  })
+})
+
+describe('formatSizeForSystem', () => {
+  const conversions = convertSize(parseSize('10'), 'Nike', 'Dunk Low')
+
+  it('formats the size in the preferred system', () => {
+    expect(formatSizeForSystem('10', conversions, 'us')).toBe('10')
+    expect(formatSizeForSystem('10', conversions, 'uk')).toBe('UK 9')
+    expect(formatSizeForSystem('10', conversions, 'eu')).toBe('EU 44')
+    expect(formatSizeForSystem('10', conversions, 'cm')).toBe('28 cm')
+  })
+
+  it('falls back to the US label without conversions', () => {
+    expect(formatSizeForSystem('8C', undefined, 'eu')).toBe('8C')
+  })
+})
@@ -0,0 +1,179 @@
+import type { ItemSize, SizeChartBrand, SizeConversions } from '../types/inventory'
+
+/**
+ * Brand-aware sneaker size conversion between US men's/women's, UK, EU and CM
+ * Nike/Jordan, Adidas/Yeezy and New Balance publish different charts, so the brand picks the chart
+ */
+
+export type PreferredSizeSystem = 'us' | 'uk' | 'eu' | 'cm'
+
+export const PREFERRED_SIZE_SYSTEMS: PreferredSizeSystem[] = ['us', 'uk', 'eu', 'cm']
+
+export const PREFERRED_SIZE_SYSTEM_LABELS: Record<PreferredSizeSystem, string> = {
+  us: 'US',
+  uk: 'UK',
+  eu: 'EU',
+  cm: 'CM',
+}
+
+// One row of a men's size chart: [US men's, UK, EU, CM]
+type SizeChartRow = [number, number, string, number]
+
+interface SizeChart {
+  // US women's = US men's + offset
+  womenOffset: number
+  rows: SizeChartRow[]
+}
+
+const SIZE_CHARTS: Record<SizeChartBrand, SizeChart> = {
+  nike: {
+    womenOffset: 1.5,
+    rows: [
+      [3.5, 3, '35.5', 22.5],
+      [4, 3.5, '36', 23],
+      [4.5, 4, '36.5', 23.5],
+      [5, 4.5, '37.5', 23.5],
+      [5.5, 5, '38', 24],
+      [6, 5.5, '38.5', 24],
+      [6.5, 6, '39', 24.5],
+      [7, 6, '40', 25],
+      [7.5, 6.5, '40.5', 25.5],
+      [8, 7, '41', 26],
+      [8.5, 7.5, '42', 26.5],
+      [9, 8, '42.5', 27],
+      [9.5, 8.5, '43', 27.5],
+      [10, 9, '44', 28],
+      [10.5, 9.5, '44.5', 28.5],
+      [11, 10, '45', 29],
+      [11.5, 10.5, '45.5', 29.5],
+      [12, 11, '46', 30],
+      [12.5, 11.5, '47', 30.5],
+      [13, 12, '47.5', 31],
+      [14, 13, '48.5', 32],
+      [15, 14, '49.5', 33],
+    ],
+  },
+  adidas: {
+    womenOffset: 1,
+    rows: [
+      [4, 3.5, '36', 22.5],
+      [4.5, 4, '36 2/3', 23],
+      [5, 4.5, '37 1/3', 23.5],
+      [5.5, 5, '38', 23.5],
+      [6, 5.5, '38 2/3', 24],
+      [6.5, 6, '39 1/3', 24.5],
+      [7, 6.5, '40', 25],
+      [7.5, 7, '40 2/3', 25.5],
+      [8, 7.5, '41 1/3', 26],
+      [8.5, 8, '42', 26.5],
+      [9, 8.5, '42 2/3', 27],
+      [9.5, 9, '43 1/3', 27.5],
+      [10, 9.5, '44', 28],
+      [10.5, 10, '44 2/3', 28.5],
+      [11, 10.5, '45 1/3', 29],
+      [11.5, 11, '46', 29.5],
+      [12, 11.5, '46 2/3', 30],
+      [12.5, 12, '47 1/3', 30.5],
+      [13, 12.5, '48', 31],
+      [14, 13.5, '49 1/3', 32],
+      [15, 14.5, '50 2/3', 33],
+    ],
+  },
+  'new-balance': {
+    womenOffset: 1.5,
+    rows: [
+      [4, 3.5, '36', 22],
+      [4.5, 4, '37', 22.5],
+      [5, 4.5, '37.5', 23],
+      [5.5, 5, '38', 23.5],
+      [6, 5.5, '38.5', 24],
+      [6.5, 6, '39.5', 24.5],
+      [7, 6.5, '40', 25],
+      [7.5, 7, '40.5', 25.5],
+      [8, 7.5, '41.5', 26],
+      [8.5, 8, '42', 26.5],
+      [9, 8.5, '42.5', 27],
+      [9.5, 9, '43', 27.5],
+      [10, 9.5, '44', 28],
+      [10.5, 10, '44.5', 28.5],
+      [11, 10.5, '45', 29],
+      [11.5, 11, '45.5', 29.5],
+      [12, 11.5, '46.5', 30],
+      [12.5, 12, '47', 30.5],
+      [13, 12.5, '47.5', 31],
+      [14, 13.5, '49', 32],
+      [15, 14.5, '50', 33],
+    ],
+  },
+}
+
+/**
+ * Pick the size chart for a brand/model (Nike's chart for anything unknown)
+ */
+export function getSizeChartBrand(brand?: string, model?: string): SizeChartBrand {
+  const text = `${brand || ''} ${model || ''}`.toLowerCase()
+  if (/adidas|yeezy/.test(text)) return 'adidas'
+  if (/new balance|\bnb\b/.test(text)) return 'new-balance'
+  return 'nike'
+}
+
+/**
+ * Convert a sneaker size to US men's/women's, UK, EU and CM
+ * Grade school sizes (3.5Y and up) share the men's chart; toddler, small youth and apparel sizes aren't converted
+ */
+export function convertSize(
+  size: ItemSize | undefined,
+  brand?: string,
+  model?: string
+): SizeConversions | undefined {
+  if (!size || size.value === undefined) return undefined
+
+  const chartBrand = getSizeChartBrand(brand, model)
+  const chart = SIZE_CHARTS[chartBrand]
+
+  let menValue: number
+  switch (size.system) {
+    case 'us-men':
+    case 'youth':
+      menValue = size.value
+      break
+    case 'us-women':
+      menValue = size.value - chart.womenOffset
+      break
+    default:
+      return undefined
+  }
+
+  const row = chart.rows.find(([usMen]) => usMen === menValue)
+  if (!row) return undefined
+
+  const [usMen, uk, eu, cm] = row
+  return {
+    chart: chartBrand,
+    usMen: String(usMen),
+    usWomen: String(usMen + chart.womenOffset),
+    uk: String(uk),
+    eu,
+    cm: String(cm),
+  }
+}
+
+/**
+ * Size label in the shopper's preferred system ("UK 9", "EU 44", "28 cm")
+ * Falls back to the US label when the size can't be converted
+ */
+export function formatSizeForSystem(
+  label: string,
+  conversions: SizeConversions | undefined,
+  system: PreferredSizeSystem
+): string {
+  if (!conversions || system === 'us') return label
+  switch (system) {
+    case 'uk':
+      return `UK ${conversions.uk}`
+    case 'eu':
+      return `EU ${conversions.eu}`
+    case 'cm':
+      return `${conversions.cm} cm`
+  }
+}
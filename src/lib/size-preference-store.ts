@@ -0,0 +1,42 @@
+import { Store } from '@tanstack/store'
+import { PREFERRED_SIZE_SYSTEMS } from './size-conversion'
+import type { PreferredSizeSystem } from './size-conversion'
+
+interface SizePreferenceStore {
+  system: PreferredSizeSystem
+}
+
+export const sizePreferenceStore = new Store<SizePreferenceStore>({ system: 'us' })
+
+// localStorage key for the preferred size system
+const SIZE_SYSTEM_STORAGE_KEY = 'lexii_size_system'
+
+/**
+ * Get the preferred size system from localStorage
+ */
+export function getStoredSizeSystem(): PreferredSizeSystem | null {
+  if (typeof window === 'undefined') {
+    return null
+  }
+  try {
+    const stored = localStorage.getItem(SIZE_SYSTEM_STORAGE_KEY) as PreferredSizeSystem | null
+    return stored && PREFERRED_SIZE_SYSTEMS.includes(stored) ? stored : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Set the preferred size system and remember it in localStorage
+ */
+export function setPreferredSizeSystem(system: PreferredSizeSystem): void {
+  sizePreferenceStore.setState({ system })
+  if (typeof window === 'undefined') {
+    return
+  }
+  try {
+    localStorage.setItem(SIZE_SYSTEM_STORAGE_KEY, system)
+  } catch {
+    // Ignore localStorage errors (e.g., quota exceeded)
+  }
+}
@@ -0,0 +1,111 @@
+import type { ApparelSize, ItemSize, SizeSystem } from '../types/inventory'
+
+/**
+ * Size parsing and ordering
+ * Handles Clover size strings like "10.5", "10M (01)", "6.5W", "5y/6.5w (7)", "8C" and apparel letters
+ */
+
+export const APPAREL_SIZES: ApparelSize[] = ['S', 'M', 'L', 'XL', 'XXL', 'XXXL']
+
+// Order size systems appear in filters
+const SIZE_SYSTEM_ORDER: SizeSystem[] = ['us-men', 'us-women', 'youth', 'toddler', 'apparel']
+
+export const SIZE_SYSTEM_LABELS: Record<SizeSystem, string> = {
+  'us-men': "Men's",
+  'us-women': "Women's",
+  youth: 'Grade School',
+  toddler: 'Toddler',
+  apparel: 'Apparel',
+}
+
+// Spelled-out apparel sizes
+const APPAREL_ALIASES: Record<string, ApparelSize> = {
+  SMALL: 'S',
+  MEDIUM: 'M',
+  LARGE: 'L',
+  XLARGE: 'XL',
+  'X-LARGE': 'XL',
+  '2XL': 'XXL',
+  XXLARGE: 'XXL',
+  '3XL': 'XXXL',
+}
+
+// Suffix after a numeric size -> size system
+const SUFFIX_SYSTEMS: Record<string, SizeSystem> = {
+  '': 'us-men',
+  M: 'us-men',
+  W: 'us-women',
+  Y: 'youth',
+  GS: 'youth',
+  C: 'toddler',
+  T: 'toddler',
+  TD: 'toddler',
+}
+
+/**
+ * Display label for a numeric sneaker size ("10.5", "6.5W", "5Y", "8C")
+ */
+export function formatSizeLabel(system: SizeSystem, value: number): string {
+  switch (system) {
+    case 'us-women':
+      return `${value}W`
+    case 'youth':
+      return `${value}Y`
+    case 'toddler':
+      return `${value}C`
+    default:
+      return String(value)
+  }
+}
+
+/**
+ * Parse a size string into a size model
+ * Dual sizes like "5y/6.5w" use the first size; trailing Clover codes like "(01)" are ignored
+ */
+export function parseSize(raw: string | undefined): ItemSize | undefined {
+  if (!raw) return undefined
+  const original = raw.trim()
+
+  let size = original.replace(/^Size\s+/i, '').trim()
+  // "(7)" on its own is the size; after a size it's a Clover code
+  const withoutCode = size.replace(/\s*\([^)]*\)?\s*$/, '').trim()
+  size = (withoutCode || size.replace(/[()]/g, '')).trim().toUpperCase()
+  if (!size) return undefined
+
+  const apparelSize = APPAREL_ALIASES[size] || APPAREL_SIZES.find((letter) => letter === size)
+  if (apparelSize) {
+    return { system: 'apparel', label: apparelSize, original }
+  }
+
+  const primary = size.split('/')[0].trim()
+  const match = primary.match(/^(\d{1,2}(?:\.\d)?)\s*(M|W|Y|GS|C|TD|T)?$/)
+  if (!match) return undefined
+
+  const value = parseFloat(match[1])
+  const system = SUFFIX_SYSTEMS[match[2] || '']
+  if (!system || value <= 0) return undefined
+
+  return { system, value, label: formatSizeLabel(system, value), original }
+}
+
+/**
+ * Order size labels by system (men, women, GS, toddler, apparel), then by size
+ * Unrecognized labels sort last, alphabetically
+ */
+export function compareSizeLabels(a: string, b: string): number {
+  const sizeA = parseSize(a)
+  const sizeB = parseSize(b)
+  if (!sizeA || !sizeB) {
+    if (sizeA) return -1
+    if (sizeB) return 1
+    return a.localeCompare(b, undefined, { numeric: true })
+  }
+
+  const systemDiff = SIZE_SYSTEM_ORDER.indexOf(sizeA.system) - SIZE_SYSTEM_ORDER.indexOf(sizeB.system)
+  if (systemDiff !== 0) return systemDiff
+
+  if (sizeA.system === 'apparel') {
+    return APPAREL_SIZES.indexOf(sizeA.label as ApparelSize) - APPAREL_SIZES.indexOf(sizeB.label as ApparelSize)
+  }
+  return (sizeA.value || 0) - (sizeB.value || 0)
+}
@@ -0,0 +1,27 @@
+/**
+ * Common sneaker abbreviations used in Clover names and by shoppers
+ * Shared by the AI cleaner prompt and the search index synonyms
+ */
+
+export interface SneakerAbbreviation {
+  abbreviations: string[]
+  expansion: string
+  searchExpansion?: string // Words every listing of it shares, when some drop part of the expansion
+}
+
+export const SNEAKER_ABBREVIATIONS: SneakerAbbreviation[] = [
+  { abbreviations: ['AF1', 'AF'], expansion: 'Air Force 1' },
+  // "Jordan 1 Retro High" listings drop the "Air"
+  { abbreviations: ['AJ'], expansion: 'Air Jordan', searchExpansion: 'Jordan' },
+  { abbreviations: ['SB'], expansion: 'Skateboarding' },
+  { abbreviations: ['NB'], expansion: 'New Balance' },
+]
+
+/**
+ * Prompt-ready description, e.g. "AF1/AF = Air Force 1, AJ = Air Jordan"
+ */
+export function describeSneakerAbbreviations(): string {
+  return SNEAKER_ABBREVIATIONS.map(
+    (entry) => `${entry.abbreviations.join('/')} = ${entry.expansion}`
+  ).join(', ')
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest'
+import { extractStyleCode, getStyleCodeKey, isStyleCodeQuery, parseStyleCode } from './style-code'
+
+describe('style codes', () => {
+  it('pulls Nike, New Balance and Adidas codes out of names', () => {
+    expect(extractStyleCode('Dunk Low Panda DD1391 100 10')).toEqual({ name: 'Dunk Low Panda 10', styleCode: 'DD1391-100' })
+    expect(extractStyleCode('Jordan 1 Chicago 555088101')).toEqual({ name: 'Jordan 1 Chicago', styleCode: '555088-101' })
+    expect(extractStyleCode('New Balance 550 BB550WT1')).toEqual({ name: 'New Balance 550', styleCode: 'BB550WT1' })
+    expect(extractStyleCode('Yeezy 350 Zebra CP9654')).toEqual({ name: 'Yeezy 350 Zebra', styleCode: 'CP9654' })
+  })
+
+  it("doesn't mistake model names for codes", () => {
+    expect(extractStyleCode('Nike Af1 White 10')).toEqual({ name: 'Nike Af1 White 10' })
+  })
+
+  it('compares codes however they were typed', () => {
+    expect(getStyleCodeKey('dd1391 100')).toBe(getStyleCodeKey('DD1391-100'))
+  })
+
+  it('normalizes free-text codes and drops what is not a code', () => {
+    expect(parseStyleCode(' dd1391-100 ')).toBe('DD1391-100')
+    expect(parseStyleCode('hq4540')).toBe('HQ4540')
+    expect(parseStyleCode('ab-12345-x')).toBe('AB-12345-X')
+    expect(parseStyleCode('Panda')).toBeUndefined()
+    expect(parseStyleCode('  ')).toBeUndefined()
+  })
+
+  it('recognizes a query that is only a style code', () => {
+    expect(isStyleCodeQuery('DD1391-100')).toBe(true)
+    expect(isStyleCodeQuery('dunk DD1391-100')).toBe(false)
+  })
+})
@@ -0,0 +1,69 @@
+/**
+ * Style code (SKU) extraction
+ * Staff sometimes type the manufacturer's style code into Clover names, e.g. "Dunk Low Panda DD1391-100 10"
+ */
+
+// Style code formats, most specific first
+const STYLE_CODE_PATTERNS: { pattern: RegExp; format: (match: RegExpMatchArray) => string }[] = [
+  // Nike/Jordan: "DD1391-100", "553558-163" (the dash is sometimes a space or missing)
+  {
+    pattern: /\b([A-Z]{2}\d{4}|\d{6})[-\s]?(\d{3})\b/i,
+    format: (match) => `${match[1]}-${match[2]}`.toUpperCase(),
+  },
+  // New Balance: "BB550WT1", "M990GL6", "U9060GRY"
+  {
+    pattern: /\b((?:BB|ML|MR|WL|GC|PC|M|U|W)\d{3,4}[A-Z]{2,4}\d?)\b/,
+    format: (match) => match[1],
+  },
+  // Adidas/Yeezy: "CP9654", "GW3773", "B37571" (upper case only, so names like "Af1" aren't mistaken)
+  {
+    pattern: /\b([A-Z]{1,2}\d{4,5})\b/,
+    format: (match) => match[1],
+  },
+]
+
+/**
+ * Comparison key for a style code ("dd1391 100" and "DD1391-100" are the same)
+ */
+export function getStyleCodeKey(styleCode: string): string {
+  return styleCode.toUpperCase().replace(/[^A-Z0-9]/g, '')
+}
+
+/**
+ * Pull a style code out of a product name
+ * Returns the name with the code removed
+ */
+export function extractStyleCode(name: string): { name: string; styleCode?: string } {
+  for (const { pattern, format } of STYLE_CODE_PATTERNS) {
+    const match = name.match(pattern)
+    if (match) {
+      return {
+        name: name.replace(pattern, ' ').replace(/\s+/g, ' ').trim(),
+        styleCode: format(match),
+      }
+    }
+  }
+  return { name }
+}
+
+/**
+ * Normalize a style code from free text (e.g. the AI cleaner's "styleCode" field)
+ * Codes in an unknown format are kept as written, upper-cased
+ */
+export function parseStyleCode(value: string | undefined): string | undefined {
+  if (!value) return undefined
+  const trimmed = value.trim()
+  if (!trimmed) return undefined
+
+  const extracted = extractStyleCode(trimmed.toUpperCase())
+  if (extracted.styleCode) return extracted.styleCode
+  return /^[A-Z0-9-]{5,}$/i.test(trimmed) && /\d/.test(trimmed) ? trimmed.toUpperCase() : undefined
+}
+
+/**
+ * Whether a search query is just a style code (so it can be looked up exactly)
+ */
+export function isStyleCodeQuery(query: string): boolean {
+  const extracted = extractStyleCode(query.trim())
+  return Boolean(extracted.styleCode) && extracted.name === ''
+}
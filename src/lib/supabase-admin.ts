@@ -0,0 +1,22 @@
+import { createClient } from '@supabase/supabase-js'
+import { getEnv } from './env'
+
+/**
+ * Server-only Supabase client for the tables only the server writes (caches, enrichment, overrides, product images)
+ * The service-role key bypasses row-level security, so it never gets a VITE_ prefix and this module is only
+ * imported from server code; the tables themselves keep RLS on with no anon policies (see README)
+ */
+
+const supabaseUrl = getEnv('SUPABASE_URL') || getEnv('VITE_SUPABASE_URL')
+const supabaseServiceRoleKey = getEnv('SUPABASE_SERVICE_ROLE_KEY')
+
+if (!supabaseUrl || !supabaseServiceRoleKey) {
+  throw new Error('Missing Supabase environment variables. Please set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY')
+}
+
+export const supabaseAdmin = createClient(supabaseUrl, supabaseServiceRoleKey, {
+  auth: {
+    persistSession: false,
+    autoRefreshToken: false,
+  },
+})
@@ -1,19 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
-
-/**
- * Get environment variable (works in both server and client contexts)
- */
-function getEnv(key: string): string | undefined {
-  // Server-side: use process.env
-  if (typeof process !== 'undefined' && process.env) {
-    return process.env[key]
-  }
-  // Client-side: use import.meta.env
-  if (typeof import.meta !== 'undefined' && import.meta.env) {
-    return import.meta.env[key]
-  }
-  return undefined
-}
+import { getEnv } from './env'
 
 const supabaseUrl = getEnv('VITE_SUPABASE_URL') || getEnv('SUPABASE_URL')
 const supabaseAnonKey = getEnv('VITE_SUPABASE_ANON_KEY') || getEnv('SUPABASE_ANON_KEY')
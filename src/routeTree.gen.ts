@@ -19,19 +19,34 @@ import { Route as DemoStoreRouteImport } from './routes/demo/store'
 import { Route as DemoClerkRouteImport } from './routes/demo/clerk'
 import { Route as ApiInventoryRouteImport } from './routes/api.inventory'
 import { Route as ApiCartRouteImport } from './routes/api.cart'
+import { Route as AdminReviewRouteImport } from './routes/admin.review'
+import { Route as AdminImagesRouteImport } from './routes/admin.images'
 import { Route as DemoStartServerFuncsRouteImport } from './routes/demo/start.server-funcs'
 import { Route as DemoStartApiRequestRouteImport } from './routes/demo/start.api-request'
 import { Route as DemoFormSimpleRouteImport } from './routes/demo/form.simple'
 import { Route as DemoFormAddressRouteImport } from './routes/demo/form.address'
 import { Route as DemoApiTqTodosRouteImport } from './routes/demo/api.tq-todos'
 import { Route as DemoApiNamesRouteImport } from './routes/demo/api.names'
+import { Route as ApiWebhooksCloverRouteImport } from './routes/api.webhooks.clover'
+import { Route as ApiInventorySuggestRouteImport } from './routes/api.inventory.suggest'
 import { Route as ApiInventoryIdRouteImport } from './routes/api.inventory.$id'
 import { Route as ApiCartCartIdRouteImport } from './routes/api.cart.$cartId'
+import { Route as ApiAdminProductImagesRouteImport } from './routes/api.admin.product-images'
+import { Route as ApiAdminNameReviewRouteImport } from './routes/api.admin.name-review'
+import { Route as ApiAdminMatchOverridesRouteImport } from './routes/api.admin.match-overrides'
+import { Route as ApiAdminEnrichmentQueueRouteImport } from './routes/api.admin.enrichment-queue'
+import { Route as ApiAdminEnrichmentBackfillRouteImport } from './routes/api.admin.enrichment-backfill'
+import { Route as ApiAdminCloverWebhookRouteImport } from './routes/api.admin.clover-webhook'
+import { Route as ApiAdminCleaningStatsRouteImport } from './routes/api.admin.cleaning-stats'
 import { Route as DemoStartSsrIndexRouteImport } from './routes/demo/start.ssr.index'
 import { Route as DemoStartSsrSpaModeRouteImport } from './routes/demo/start.ssr.spa-mode'
 import { Route as DemoStartSsrFullSsrRouteImport } from './routes/demo/start.ssr.full-ssr'
 import { Route as DemoStartSsrDataOnlyRouteImport } from './routes/demo/start.ssr.data-only'
+import { Route as ApiInventoryIdGroupRouteImport } from './routes/api.inventory.$id_.group'
 import { Route as ApiCartCartIdItemsRouteImport } from './routes/api.cart.$cartId.items'
+import { Route as ApiAdminProductImagesImageIdRouteImport } from './routes/api.admin.product-images.$imageId'
+import { Route as ApiAdminNameReviewItemIdRouteImport } from './routes/api.admin.name-review.$itemId'
+import { Route as ApiAdminMatchOverridesItemIdRouteImport } from './routes/api.admin.match-overrides.$itemId'
 import { Route as ApiCartCartIdItemsItemIdRouteImport } from './routes/api.cart.$cartId.items.$itemId'
 
 const ShopRoute = ShopRouteImport.update({
@@ -84,6 +99,16 @@ const ApiCartRoute = ApiCartRouteImport.update({
   path: '/api/cart',
   getParentRoute: () => rootRouteImport,
 } as any)
+const AdminReviewRoute = AdminReviewRouteImport.update({
+  id: '/admin/review',
+  path: '/admin/review',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const AdminImagesRoute = AdminImagesRouteImport.update({
+  id: '/admin/images',
+  path: '/admin/images',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const DemoStartServerFuncsRoute = DemoStartServerFuncsRouteImport.update({
   id: '/demo/start/server-funcs',
   path: '/demo/start/server-funcs',
@@ -114,6 +139,16 @@ const DemoApiNamesRoute = DemoApiNamesRouteImport.update({
   path: '/demo/api/names',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiWebhooksCloverRoute = ApiWebhooksCloverRouteImport.update({
+  id: '/api/webhooks/clover',
+  path: '/api/webhooks/clover',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiInventorySuggestRoute = ApiInventorySuggestRouteImport.update({
+  id: '/suggest',
+  path: '/suggest',
+  getParentRoute: () => ApiInventoryRoute,
+} as any)
 const ApiInventoryIdRoute = ApiInventoryIdRouteImport.update({
   id: '/$id',
   path: '/$id',
@@ -124,6 +159,42 @@ const ApiCartCartIdRoute = ApiCartCartIdRouteImport.update({
   path: '/$cartId',
   getParentRoute: () => ApiCartRoute,
 } as any)
+const ApiAdminProductImagesRoute = ApiAdminProductImagesRouteImport.update({
+  id: '/api/admin/product-images',
+  path: '/api/admin/product-images',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAdminNameReviewRoute = ApiAdminNameReviewRouteImport.update({
+  id: '/api/admin/name-review',
+  path: '/api/admin/name-review',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAdminMatchOverridesRoute = ApiAdminMatchOverridesRouteImport.update({
+  id: '/api/admin/match-overrides',
+  path: '/api/admin/match-overrides',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAdminEnrichmentQueueRoute = ApiAdminEnrichmentQueueRouteImport.update({
+  id: '/api/admin/enrichment-queue',
+  path: '/api/admin/enrichment-queue',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAdminEnrichmentBackfillRoute =
+  ApiAdminEnrichmentBackfillRouteImport.update({
+    id: '/api/admin/enrichment-backfill',
+    path: '/api/admin/enrichment-backfill',
+    getParentRoute: () => rootRouteImport,
+  } as any)
+const ApiAdminCloverWebhookRoute = ApiAdminCloverWebhookRouteImport.update({
+  id: '/api/admin/clover-webhook',
+  path: '/api/admin/clover-webhook',
+  getParentRoute: () => rootRouteImport,
+} as any)
+const ApiAdminCleaningStatsRoute = ApiAdminCleaningStatsRouteImport.update({
+  id: '/api/admin/cleaning-stats',
+  path: '/api/admin/cleaning-stats',
+  getParentRoute: () => rootRouteImport,
+} as any)
 const DemoStartSsrIndexRoute = DemoStartSsrIndexRouteImport.update({
   id: '/demo/start/ssr/',
   path: '/demo/start/ssr/',
@@ -144,11 +215,34 @@ const DemoStartSsrDataOnlyRoute = DemoStartSsrDataOnlyRouteImport.update({
   path: '/demo/start/ssr/data-only',
   getParentRoute: () => rootRouteImport,
 } as any)
+const ApiInventoryIdGroupRoute = ApiInventoryIdGroupRouteImport.update({
+  id: '/$id_/group',
+  path: '/$id/group',
+  getParentRoute: () => ApiInventoryRoute,
+} as any)
 const ApiCartCartIdItemsRoute = ApiCartCartIdItemsRouteImport.update({
   id: '/items',
   path: '/items',
   getParentRoute: () => ApiCartCartIdRoute,
 } as any)
+const ApiAdminProductImagesImageIdRoute =
+  ApiAdminProductImagesImageIdRouteImport.update({
+    id: '/$imageId',
+    path: '/$imageId',
+    getParentRoute: () => ApiAdminProductImagesRoute,
+  } as any)
+const ApiAdminNameReviewItemIdRoute =
+  ApiAdminNameReviewItemIdRouteImport.update({
+    id: '/$itemId',
+    path: '/$itemId',
+    getParentRoute: () => ApiAdminNameReviewRoute,
+  } as any)
+const ApiAdminMatchOverridesItemIdRoute =
+  ApiAdminMatchOverridesItemIdRouteImport.update({
+    id: '/$itemId',
+    path: '/$itemId',
+    getParentRoute: () => ApiAdminMatchOverridesRoute,
+  } as any)
 const ApiCartCartIdItemsItemIdRoute =
   ApiCartCartIdItemsItemIdRouteImport.update({
     id: '/$itemId',
@@ -160,6 +254,8 @@ export interface FileRoutesByFullPath {
   '/': typeof IndexRoute
   '/cart': typeof CartRoute
   '/shop': typeof ShopRouteWithChildren
+  '/admin/images': typeof AdminImagesRoute
+  '/admin/review': typeof AdminReviewRoute
   '/api/cart': typeof ApiCartRouteWithChildren
   '/api/inventory': typeof ApiInventoryRouteWithChildren
   '/demo/clerk': typeof DemoClerkRoute
@@ -167,15 +263,28 @@ export interface FileRoutesByFullPath {
   '/demo/tanstack-query': typeof DemoTanstackQueryRoute
   '/shop/$brand': typeof ShopBrandRoute
   '/shop/$id': typeof ShopIdRoute
+  '/api/admin/cleaning-stats': typeof ApiAdminCleaningStatsRoute
+  '/api/admin/clover-webhook': typeof ApiAdminCloverWebhookRoute
+  '/api/admin/enrichment-backfill': typeof ApiAdminEnrichmentBackfillRoute
+  '/api/admin/enrichment-queue': typeof ApiAdminEnrichmentQueueRoute
+  '/api/admin/match-overrides': typeof ApiAdminMatchOverridesRouteWithChildren
+  '/api/admin/name-review': typeof ApiAdminNameReviewRouteWithChildren
+  '/api/admin/product-images': typeof ApiAdminProductImagesRouteWithChildren
   '/api/cart/$cartId': typeof ApiCartCartIdRouteWithChildren
   '/api/inventory/$id': typeof ApiInventoryIdRoute
+  '/api/inventory/suggest': typeof ApiInventorySuggestRoute
+  '/api/webhooks/clover': typeof ApiWebhooksCloverRoute
   '/demo/api/names': typeof DemoApiNamesRoute
   '/demo/api/tq-todos': typeof DemoApiTqTodosRoute
   '/demo/form/address': typeof DemoFormAddressRoute
   '/demo/form/simple': typeof DemoFormSimpleRoute
   '/demo/start/api-request': typeof DemoStartApiRequestRoute
   '/demo/start/server-funcs': typeof DemoStartServerFuncsRoute
+  '/api/admin/match-overrides/$itemId': typeof ApiAdminMatchOverridesItemIdRoute
+  '/api/admin/name-review/$itemId': typeof ApiAdminNameReviewItemIdRoute
+  '/api/admin/product-images/$imageId': typeof ApiAdminProductImagesImageIdRoute
   '/api/cart/$cartId/items': typeof ApiCartCartIdItemsRouteWithChildren
+  '/api/inventory/$id/group': typeof ApiInventoryIdGroupRoute
   '/demo/start/ssr/data-only': typeof DemoStartSsrDataOnlyRoute
   '/demo/start/ssr/full-ssr': typeof DemoStartSsrFullSsrRoute
   '/demo/start/ssr/spa-mode': typeof DemoStartSsrSpaModeRoute
@@ -186,6 +295,8 @@ export interface FileRoutesByTo {
   '/': typeof IndexRoute
   '/cart': typeof CartRoute
   '/shop': typeof ShopRouteWithChildren
+  '/admin/images': typeof AdminImagesRoute
+  '/admin/review': typeof AdminReviewRoute
   '/api/cart': typeof ApiCartRouteWithChildren
   '/api/inventory': typeof ApiInventoryRouteWithChildren
   '/demo/clerk': typeof DemoClerkRoute
@@ -193,15 +304,28 @@ export interface FileRoutesByTo {
   '/demo/tanstack-query': typeof DemoTanstackQueryRoute
   '/shop/$brand': typeof ShopBrandRoute
   '/shop/$id': typeof ShopIdRoute
+  '/api/admin/cleaning-stats': typeof ApiAdminCleaningStatsRoute
+  '/api/admin/clover-webhook': typeof ApiAdminCloverWebhookRoute
+  '/api/admin/enrichment-backfill': typeof ApiAdminEnrichmentBackfillRoute
+  '/api/admin/enrichment-queue': typeof ApiAdminEnrichmentQueueRoute
+  '/api/admin/match-overrides': typeof ApiAdminMatchOverridesRouteWithChildren
+  '/api/admin/name-review': typeof ApiAdminNameReviewRouteWithChildren
+  '/api/admin/product-images': typeof ApiAdminProductImagesRouteWithChildren
   '/api/cart/$cartId': typeof ApiCartCartIdRouteWithChildren
   '/api/inventory/$id': typeof ApiInventoryIdRoute
+  '/api/inventory/suggest': typeof ApiInventorySuggestRoute
+  '/api/webhooks/clover': typeof ApiWebhooksCloverRoute
   '/demo/api/names': typeof DemoApiNamesRoute
   '/demo/api/tq-todos': typeof DemoApiTqTodosRoute
   '/demo/form/address': typeof DemoFormAddressRoute
   '/demo/form/simple': typeof DemoFormSimpleRoute
   '/demo/start/api-request': typeof DemoStartApiRequestRoute
   '/demo/start/server-funcs': typeof DemoStartServerFuncsRoute
+  '/api/admin/match-overrides/$itemId': typeof ApiAdminMatchOverridesItemIdRoute
+  '/api/admin/name-review/$itemId': typeof ApiAdminNameReviewItemIdRoute
+  '/api/admin/product-images/$imageId': typeof ApiAdminProductImagesImageIdRoute
   '/api/cart/$cartId/items': typeof ApiCartCartIdItemsRouteWithChildren
+  '/api/inventory/$id/group': typeof ApiInventoryIdGroupRoute
   '/demo/start/ssr/data-only': typeof DemoStartSsrDataOnlyRoute
   '/demo/start/ssr/full-ssr': typeof DemoStartSsrFullSsrRoute
   '/demo/start/ssr/spa-mode': typeof DemoStartSsrSpaModeRoute
@@ -213,6 +337,8 @@ export interface FileRoutesById {
   '/': typeof IndexRoute
   '/cart': typeof CartRoute
   '/shop': typeof ShopRouteWithChildren
+  '/admin/images': typeof AdminImagesRoute
+  '/admin/review': typeof AdminReviewRoute
   '/api/cart': typeof ApiCartRouteWithChildren
   '/api/inventory': typeof ApiInventoryRouteWithChildren
   '/demo/clerk': typeof DemoClerkRoute
@@ -220,15 +346,28 @@ export interface FileRoutesById {
   '/demo/tanstack-query': typeof DemoTanstackQueryRoute
   '/shop/$brand': typeof ShopBrandRoute
   '/shop/$id': typeof ShopIdRoute
+  '/api/admin/cleaning-stats': typeof ApiAdminCleaningStatsRoute
+  '/api/admin/clover-webhook': typeof ApiAdminCloverWebhookRoute
+  '/api/admin/enrichment-backfill': typeof ApiAdminEnrichmentBackfillRoute
+  '/api/admin/enrichment-queue': typeof ApiAdminEnrichmentQueueRoute
+  '/api/admin/match-overrides': typeof ApiAdminMatchOverridesRouteWithChildren
+  '/api/admin/name-review': typeof ApiAdminNameReviewRouteWithChildren
+  '/api/admin/product-images': typeof ApiAdminProductImagesRouteWithChildren
   '/api/cart/$cartId': typeof ApiCartCartIdRouteWithChildren
   '/api/inventory/$id': typeof ApiInventoryIdRoute
+  '/api/inventory/suggest': typeof ApiInventorySuggestRoute
+  '/api/webhooks/clover': typeof ApiWebhooksCloverRoute
   '/demo/api/names': typeof DemoApiNamesRoute
   '/demo/api/tq-todos': typeof DemoApiTqTodosRoute
   '/demo/form/address': typeof DemoFormAddressRoute
   '/demo/form/simple': typeof DemoFormSimpleRoute
   '/demo/start/api-request': typeof DemoStartApiRequestRoute
   '/demo/start/server-funcs': typeof DemoStartServerFuncsRoute
+  '/api/admin/match-overrides/$itemId': typeof ApiAdminMatchOverridesItemIdRoute
+  '/api/admin/name-review/$itemId': typeof ApiAdminNameReviewItemIdRoute
+  '/api/admin/product-images/$imageId': typeof ApiAdminProductImagesImageIdRoute
   '/api/cart/$cartId/items': typeof ApiCartCartIdItemsRouteWithChildren
+  '/api/inventory/$id_/group': typeof ApiInventoryIdGroupRoute
   '/demo/start/ssr/data-only': typeof DemoStartSsrDataOnlyRoute
   '/demo/start/ssr/full-ssr': typeof DemoStartSsrFullSsrRoute
   '/demo/start/ssr/spa-mode': typeof DemoStartSsrSpaModeRoute
@@ -241,6 +380,8 @@ export interface FileRouteTypes {
     | '/'
     | '/cart'
     | '/shop'
+    | '/admin/images'
+    | '/admin/review'
     | '/api/cart'
     | '/api/inventory'
     | '/demo/clerk'
@@ -248,15 +389,28 @@ export interface FileRouteTypes {
     | '/demo/tanstack-query'
     | '/shop/$brand'
     | '/shop/$id'
+    | '/api/admin/cleaning-stats'
+    | '/api/admin/clover-webhook'
+    | '/api/admin/enrichment-backfill'
+    | '/api/admin/enrichment-queue'
+    | '/api/admin/match-overrides'
+    | '/api/admin/name-review'
+    | '/api/admin/product-images'
     | '/api/cart/$cartId'
     | '/api/inventory/$id'
+    | '/api/inventory/suggest'
+    | '/api/webhooks/clover'
     | '/demo/api/names'
     | '/demo/api/tq-todos'
     | '/demo/form/address'
     | '/demo/form/simple'
     | '/demo/start/api-request'
     | '/demo/start/server-funcs'
+    | '/api/admin/match-overrides/$itemId'
+    | '/api/admin/name-review/$itemId'
+    | '/api/admin/product-images/$imageId'
     | '/api/cart/$cartId/items'
+    | '/api/inventory/$id/group'
     | '/demo/start/ssr/data-only'
     | '/demo/start/ssr/full-ssr'
     | '/demo/start/ssr/spa-mode'
@@ -267,6 +421,8 @@ export interface FileRouteTypes {
     | '/'
     | '/cart'
     | '/shop'
+    | '/admin/images'
+    | '/admin/review'
     | '/api/cart'
     | '/api/inventory'
     | '/demo/clerk'
@@ -274,15 +430,28 @@ export interface FileRouteTypes {
     | '/demo/tanstack-query'
     | '/shop/$brand'
     | '/shop/$id'
+    | '/api/admin/cleaning-stats'
+    | '/api/admin/clover-webhook'
+    | '/api/admin/enrichment-backfill'
+    | '/api/admin/enrichment-queue'
+    | '/api/admin/match-overrides'
+    | '/api/admin/name-review'
+    | '/api/admin/product-images'
     | '/api/cart/$cartId'
     | '/api/inventory/$id'
+    | '/api/inventory/suggest'
+    | '/api/webhooks/clover'
     | '/demo/api/names'
     | '/demo/api/tq-todos'
     | '/demo/form/address'
     | '/demo/form/simple'
     | '/demo/start/api-request'
     | '/demo/start/server-funcs'
+    | '/api/admin/match-overrides/$itemId'
+    | '/api/admin/name-review/$itemId'
+    | '/api/admin/product-images/$imageId'
     | '/api/cart/$cartId/items'
+    | '/api/inventory/$id/group'
     | '/demo/start/ssr/data-only'
     | '/demo/start/ssr/full-ssr'
     | '/demo/start/ssr/spa-mode'
@@ -293,6 +462,8 @@ export interface FileRouteTypes {
     | '/'
     | '/cart'
     | '/shop'
+    | '/admin/images'
+    | '/admin/review'
     | '/api/cart'
     | '/api/inventory'
     | '/demo/clerk'
@@ -300,15 +471,28 @@ export interface FileRouteTypes {
     | '/demo/tanstack-query'
     | '/shop/$brand'
     | '/shop/$id'
+    | '/api/admin/cleaning-stats'
+    | '/api/admin/clover-webhook'
+    | '/api/admin/enrichment-backfill'
+    | '/api/admin/enrichment-queue'
+    | '/api/admin/match-overrides'
+    | '/api/admin/name-review'
+    | '/api/admin/product-images'
     | '/api/cart/$cartId'
     | '/api/inventory/$id'
+    | '/api/inventory/suggest'
+    | '/api/webhooks/clover'
     | '/demo/api/names'
     | '/demo/api/tq-todos'
     | '/demo/form/address'
     | '/demo/form/simple'
     | '/demo/start/api-request'
     | '/demo/start/server-funcs'
+    | '/api/admin/match-overrides/$itemId'
+    | '/api/admin/name-review/$itemId'
+    | '/api/admin/product-images/$imageId'
     | '/api/cart/$cartId/items'
+    | '/api/inventory/$id_/group'
     | '/demo/start/ssr/data-only'
     | '/demo/start/ssr/full-ssr'
     | '/demo/start/ssr/spa-mode'
@@ -320,11 +504,21 @@ export interface RootRouteChildren {
   IndexRoute: typeof IndexRoute
   CartRoute: typeof CartRoute
   ShopRoute: typeof ShopRouteWithChildren
+  AdminImagesRoute: typeof AdminImagesRoute
+  AdminReviewRoute: typeof AdminReviewRoute
   ApiCartRoute: typeof ApiCartRouteWithChildren
   ApiInventoryRoute: typeof ApiInventoryRouteWithChildren
   DemoClerkRoute: typeof DemoClerkRoute
   DemoStoreRoute: typeof DemoStoreRoute
   DemoTanstackQueryRoute: typeof DemoTanstackQueryRoute
+  ApiAdminCleaningStatsRoute: typeof ApiAdminCleaningStatsRoute
+  ApiAdminCloverWebhookRoute: typeof ApiAdminCloverWebhookRoute
+  ApiAdminEnrichmentBackfillRoute: typeof ApiAdminEnrichmentBackfillRoute
+  ApiAdminEnrichmentQueueRoute: typeof ApiAdminEnrichmentQueueRoute
+  ApiAdminMatchOverridesRoute: typeof ApiAdminMatchOverridesRouteWithChildren
+  ApiAdminNameReviewRoute: typeof ApiAdminNameReviewRouteWithChildren
+  ApiAdminProductImagesRoute: typeof ApiAdminProductImagesRouteWithChildren
+  ApiWebhooksCloverRoute: typeof ApiWebhooksCloverRoute
   DemoApiNamesRoute: typeof DemoApiNamesRoute
   DemoApiTqTodosRoute: typeof DemoApiTqTodosRoute
   DemoFormAddressRoute: typeof DemoFormAddressRoute
@@ -409,6 +603,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiCartRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/admin/review': {
+      id: '/admin/review'
+      path: '/admin/review'
+      fullPath: '/admin/review'
+      preLoaderRoute: typeof AdminReviewRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/admin/images': {
+      id: '/admin/images'
+      path: '/admin/images'
+      fullPath: '/admin/images'
+      preLoaderRoute: typeof AdminImagesRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/demo/start/server-funcs': {
       id: '/demo/start/server-funcs'
       path: '/demo/start/server-funcs'
@@ -451,6 +659,20 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DemoApiNamesRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/webhooks/clover': {
+      id: '/api/webhooks/clover'
+      path: '/api/webhooks/clover'
+      fullPath: '/api/webhooks/clover'
+      preLoaderRoute: typeof ApiWebhooksCloverRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/inventory/suggest': {
+      id: '/api/inventory/suggest'
+      path: '/suggest'
+      fullPath: '/api/inventory/suggest'
+      preLoaderRoute: typeof ApiInventorySuggestRouteImport
+      parentRoute: typeof ApiInventoryRoute
+    }
     '/api/inventory/$id': {
       id: '/api/inventory/$id'
       path: '/$id'
@@ -465,6 +687,55 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiCartCartIdRouteImport
       parentRoute: typeof ApiCartRoute
     }
+    '/api/admin/product-images': {
+      id: '/api/admin/product-images'
+      path: '/api/admin/product-images'
+      fullPath: '/api/admin/product-images'
+      preLoaderRoute: typeof ApiAdminProductImagesRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/admin/name-review': {
+      id: '/api/admin/name-review'
+      path: '/api/admin/name-review'
+      fullPath: '/api/admin/name-review'
+      preLoaderRoute: typeof ApiAdminNameReviewRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/admin/match-overrides': {
+      id: '/api/admin/match-overrides'
+      path: '/api/admin/match-overrides'
+      fullPath: '/api/admin/match-overrides'
+      preLoaderRoute: typeof ApiAdminMatchOverridesRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/admin/enrichment-queue': {
+      id: '/api/admin/enrichment-queue'
+      path: '/api/admin/enrichment-queue'
+      fullPath: '/api/admin/enrichment-queue'
+      preLoaderRoute: typeof ApiAdminEnrichmentQueueRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/admin/enrichment-backfill': {
+      id: '/api/admin/enrichment-backfill'
+      path: '/api/admin/enrichment-backfill'
+      fullPath: '/api/admin/enrichment-backfill'
+      preLoaderRoute: typeof ApiAdminEnrichmentBackfillRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/admin/clover-webhook': {
+      id: '/api/admin/clover-webhook'
+      path: '/api/admin/clover-webhook'
+      fullPath: '/api/admin/clover-webhook'
+      preLoaderRoute: typeof ApiAdminCloverWebhookRouteImport
+      parentRoute: typeof rootRouteImport
+    }
+    '/api/admin/cleaning-stats': {
+      id: '/api/admin/cleaning-stats'
+      path: '/api/admin/cleaning-stats'
+      fullPath: '/api/admin/cleaning-stats'
+      preLoaderRoute: typeof ApiAdminCleaningStatsRouteImport
+      parentRoute: typeof rootRouteImport
+    }
     '/demo/start/ssr/': {
       id: '/demo/start/ssr/'
       path: '/demo/start/ssr'
@@ -493,6 +764,13 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof DemoStartSsrDataOnlyRouteImport
       parentRoute: typeof rootRouteImport
     }
+    '/api/inventory/$id_/group': {
+      id: '/api/inventory/$id_/group'
+      path: '/$id/group'
+      fullPath: '/api/inventory/$id/group'
+      preLoaderRoute: typeof ApiInventoryIdGroupRouteImport
+      parentRoute: typeof ApiInventoryRoute
+    }
     '/api/cart/$cartId/items': {
       id: '/api/cart/$cartId/items'
       path: '/items'
@@ -500,6 +778,27 @@ declare module '@tanstack/react-router' {
       preLoaderRoute: typeof ApiCartCartIdItemsRouteImport
       parentRoute: typeof ApiCartCartIdRoute
     }
+    '/api/admin/product-images/$imageId': {
+      id: '/api/admin/product-images/$imageId'
+      path: '/$imageId'
+      fullPath: '/api/admin/product-images/$imageId'
+      preLoaderRoute: typeof ApiAdminProductImagesImageIdRouteImport
+      parentRoute: typeof ApiAdminProductImagesRoute
+    }
+    '/api/admin/name-review/$itemId': {
+      id: '/api/admin/name-review/$itemId'
+      path: '/$itemId'
+      fullPath: '/api/admin/name-review/$itemId'
+      preLoaderRoute: typeof ApiAdminNameReviewItemIdRouteImport
+      parentRoute: typeof ApiAdminNameReviewRoute
+    }
+    '/api/admin/match-overrides/$itemId': {
+      id: '/api/admin/match-overrides/$itemId'
+      path: '/$itemId'
+      fullPath: '/api/admin/match-overrides/$itemId'
+      preLoaderRoute: typeof ApiAdminMatchOverridesItemIdRouteImport
+      parentRoute: typeof ApiAdminMatchOverridesRoute
+    }
     '/api/cart/$cartId/items/$itemId': {
       id: '/api/cart/$cartId/items/$itemId'
       path: '/$itemId'
@@ -558,25 +857,77 @@ const ApiCartRouteWithChildren =
 
 interface ApiInventoryRouteChildren {
   ApiInventoryIdRoute: typeof ApiInventoryIdRoute
+  ApiInventorySuggestRoute: typeof ApiInventorySuggestRoute
+  ApiInventoryIdGroupRoute: typeof ApiInventoryIdGroupRoute
 }
 
 const ApiInventoryRouteChildren: ApiInventoryRouteChildren = {
   ApiInventoryIdRoute: ApiInventoryIdRoute,
+  ApiInventorySuggestRoute: ApiInventorySuggestRoute,
+  ApiInventoryIdGroupRoute: ApiInventoryIdGroupRoute,
 }
 
 const ApiInventoryRouteWithChildren = ApiInventoryRoute._addFileChildren(
   ApiInventoryRouteChildren,
 )
 
+interface ApiAdminMatchOverridesRouteChildren {
+  ApiAdminMatchOverridesItemIdRoute: typeof ApiAdminMatchOverridesItemIdRoute
+}
+
+const ApiAdminMatchOverridesRouteChildren: ApiAdminMatchOverridesRouteChildren =
+  {
+    ApiAdminMatchOverridesItemIdRoute: ApiAdminMatchOverridesItemIdRoute,
+  }
+
+const ApiAdminMatchOverridesRouteWithChildren =
+  ApiAdminMatchOverridesRoute._addFileChildren(
+    ApiAdminMatchOverridesRouteChildren,
+  )
+
+interface ApiAdminNameReviewRouteChildren {
+  ApiAdminNameReviewItemIdRoute: typeof ApiAdminNameReviewItemIdRoute
+}
+
+const ApiAdminNameReviewRouteChildren: ApiAdminNameReviewRouteChildren = {
+  ApiAdminNameReviewItemIdRoute: ApiAdminNameReviewItemIdRoute,
+}
+
+const ApiAdminNameReviewRouteWithChildren =
+  ApiAdminNameReviewRoute._addFileChildren(ApiAdminNameReviewRouteChildren)
+
+interface ApiAdminProductImagesRouteChildren {
+  ApiAdminProductImagesImageIdRoute: typeof ApiAdminProductImagesImageIdRoute
+}
+
+const ApiAdminProductImagesRouteChildren: ApiAdminProductImagesRouteChildren = {
+  ApiAdminProductImagesImageIdRoute: ApiAdminProductImagesImageIdRoute,
+}
+
+const ApiAdminProductImagesRouteWithChildren =
+  ApiAdminProductImagesRoute._addFileChildren(
+    ApiAdminProductImagesRouteChildren,
+  )
+
 const rootRouteChildren: RootRouteChildren = {
   IndexRoute: IndexRoute,
   CartRoute: CartRoute,
   ShopRoute: ShopRouteWithChildren,
+  AdminImagesRoute: AdminImagesRoute,
+  AdminReviewRoute: AdminReviewRoute,
   ApiCartRoute: ApiCartRouteWithChildren,
   ApiInventoryRoute: ApiInventoryRouteWithChildren,
   DemoClerkRoute: DemoClerkRoute,
   DemoStoreRoute: DemoStoreRoute,
   DemoTanstackQueryRoute: DemoTanstackQueryRoute,
+  ApiAdminCleaningStatsRoute: ApiAdminCleaningStatsRoute,
+  ApiAdminCloverWebhookRoute: ApiAdminCloverWebhookRoute,
+  ApiAdminEnrichmentBackfillRoute: ApiAdminEnrichmentBackfillRoute,
+  ApiAdminEnrichmentQueueRoute: ApiAdminEnrichmentQueueRoute,
+  ApiAdminMatchOverridesRoute: ApiAdminMatchOverridesRouteWithChildren,
+  ApiAdminNameReviewRoute: ApiAdminNameReviewRouteWithChildren,
+  ApiAdminProductImagesRoute: ApiAdminProductImagesRouteWithChildren,
+  ApiWebhooksCloverRoute: ApiWebhooksCloverRoute,
   DemoApiNamesRoute: DemoApiNamesRoute,
   DemoApiTqTodosRoute: DemoApiTqTodosRoute,
   DemoFormAddressRoute: DemoFormAddressRoute,
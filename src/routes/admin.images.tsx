@@ -0,0 +1,222 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { Loader2, AlertCircle, ArrowUp, ArrowDown, Star, Trash2, Upload } from 'lucide-react'
+import type { ProductGroup } from '../types/inventory'
+import type { ProductImage, ProductImageOwnerType } from '../lib/product-images'
+
+export const Route = createFileRoute('/admin/images')({
+  validateSearch: (search: Record<string, unknown>) => ({
+    itemId: typeof search.itemId === 'string' ? search.itemId : undefined,
+  }),
+  component: ImageManagerPage,
+})
+
+async function readError(response: Response): Promise<string> {
+  const data = await response.json().catch(() => null)
+  return data?.message || data?.error || `Request failed: ${response.status}`
+}
+
+function ImageManagerPage() {
+  const { itemId: initialItemId } = Route.useSearch()
+  const [itemIdInput, setItemIdInput] = useState(initialItemId || '')
+  const [itemId, setItemId] = useState(initialItemId || '')
+  const [ownerType, setOwnerType] = useState<ProductImageOwnerType>('group')
+
+  // The item's product group, for its name and sizes
+  const { data: product, error: productError, isLoading: productLoading } = useQuery<ProductGroup>({
+    queryKey: ['product-group', itemId],
+    queryFn: async () => {
+      const response = await fetch(`/api/inventory/${encodeURIComponent(itemId)}/group`)
+      if (!response.ok) throw new Error(await readError(response))
+      return response.json()
+    },
+    enabled: itemId !== '',
+  })
+
+  // Group photos are addressed through any size of the product
+  const ownerId = product ? itemId : undefined
+  const imagesKey = ['product-images', ownerType, ownerId]
+  const queryClient = useQueryClient()
+
+  const { data: images, error: imagesError } = useQuery<ProductImage[]>({
+    queryKey: imagesKey,
+    queryFn: async () => {
+      const params = new URLSearchParams({ ownerType, ownerId: ownerId! })
+      const response = await fetch(`/api/admin/product-images?${params}`)
+      if (!response.ok) throw new Error(await readError(response))
+      return (await response.json()).images
+    },
+    enabled: Boolean(ownerId),
+  })
+
+  const onSettled = () => queryClient.invalidateQueries({ queryKey: imagesKey })
+  const onError = (err: Error) => alert(err.message)
+
+  const upload = useMutation({
+    mutationFn: async (files: FileList) => {
+      const form = new FormData()
+      form.set('ownerType', ownerType)
+      form.set('ownerId', ownerId!)
+      Array.from(files).forEach((file) => form.append('file', file))
+      const response = await fetch('/api/admin/product-images', { method: 'POST', body: form })
+      if (!response.ok) throw new Error(await readError(response))
+    },
+    onSettled,
+    onError,
+  })
+
+  const arrange = useMutation({
+    mutationFn: async ({ order, primaryId }: { order: string[]; primaryId?: string }) => {
+      const response = await fetch('/api/admin/product-images', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ownerType, ownerId, order, primaryId }),
+      })
+      if (!response.ok) throw new Error(await readError(response))
+    },
+    onSettled,
+    onError,
+  })
+
+  const remove = useMutation({
+    mutationFn: async (imageId: string) => {
+      const response = await fetch(`/api/admin/product-images/${encodeURIComponent(imageId)}`, {
+        method: 'DELETE',
+      })
+      if (!response.ok) throw new Error(await readError(response))
+    },
+    onSettled,
+    onError,
+  })
+
+  const isSaving = upload.isPending || arrange.isPending || remove.isPending
+
+  const move = (index: number, offset: number) => {
+    if (!images) return
+    const order = images.map((image) => image.id)
+    const [moved] = order.splice(index, 1)
+    order.splice(index + offset, 0, moved)
+    // The first image is always the primary one
+    arrange.mutate({ order, primaryId: order[0] })
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="max-w-5xl mx-auto px-4 md:px-16 py-12">
+        <h1 className="text-3xl font-bold mb-2">Product images</h1>
+        <p className="text-gray-400 mb-8">
+          Photos uploaded here are shown instead of catalog images.
+        </p>
+
+        <form
+          className="flex gap-2 mb-6"
+          onSubmit={(e) => {
+            e.preventDefault()
+            setItemId(itemIdInput.trim())
+          }}
+        >
+          <input
+            className="flex-1 bg-gray-900 border border-gray-700 rounded px-3 py-2"
+            placeholder="Clover item ID"
+            value={itemIdInput}
+            onChange={(e) => setItemIdInput(e.target.value)}
+          />
+          <button className="px-4 py-2 bg-white text-black rounded" type="submit">
+            Load
+          </button>
+        </form>
+
+        {productLoading && <Loader2 className="w-8 h-8 animate-spin text-gray-400" />}
+
+        {(productError || imagesError) && (
+          <p className="flex items-center gap-2 text-red-400 mb-6">
+            <AlertCircle className="w-5 h-5" />
+            {(productError || imagesError)?.message}
+          </p>
+        )}
+
+        {product && (
+          <>
+            <div className="mb-6">
+              <p className="text-xl font-semibold">{product.name}</p>
+              <div className="flex gap-4 mt-3 text-sm">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={ownerType === 'group'}
+                    onChange={() => setOwnerType('group')}
+                  />
+                  All sizes ({product.sizes.length})
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={ownerType === 'item'}
+                    onChange={() => setOwnerType('item')}
+                  />
+                  This item only
+                </label>
+              </div>
+            </div>
+
+            <label className="inline-flex items-center gap-2 px-4 py-2 border border-gray-600 rounded cursor-pointer mb-6">
+              <Upload className="w-4 h-4" />
+              Upload photos
+              <input
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                disabled={isSaving}
+                onChange={(e) => {
+                  if (e.target.files?.length) upload.mutate(e.target.files)
+                  e.target.value = ''
+                }}
+              />
+            </label>
+            {isSaving && <Loader2 className="inline w-5 h-5 ml-3 animate-spin text-gray-400" />}
+
+            {images && images.length === 0 && (
+              <p className="text-gray-400">
+                No uploaded photos{ownerType === 'item' ? ' for this item (group photos apply)' : ''}.
+              </p>
+            )}
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {images?.map((image, index) => (
+                <div key={image.id} className="border border-gray-800 rounded-lg overflow-hidden">
+                  <img src={image.url} alt="" className="w-full aspect-square object-cover bg-gray-900" />
+                  <div className="flex items-center justify-between p-2">
+                    <button
+                      title="Make primary"
+                      disabled={isSaving || image.isPrimary}
+                      onClick={() => arrange.mutate({ order: [], primaryId: image.id })}
+                    >
+                      <Star className={`w-4 h-4 ${image.isPrimary ? 'fill-yellow-400 text-yellow-400' : 'text-gray-400'}`} />
+                    </button>
+                    <div className="flex gap-2">
+                      <button title="Move earlier" disabled={isSaving || index === 0} onClick={() => move(index, -1)}>
+                        <ArrowUp className="w-4 h-4 text-gray-400" />
+                      </button>
+                      <button
+                        title="Move later"
+                        disabled={isSaving || index === images.length - 1}
+                        onClick={() => move(index, 1)}
+                      >
+                        <ArrowDown className="w-4 h-4 text-gray-400" />
+                      </button>
+                      <button title="Delete" disabled={isSaving} onClick={() => remove.mutate(image.id)}>
+                        <Trash2 className="w-4 h-4 text-gray-400" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,297 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { useState } from 'react'
+import { Loader2, AlertCircle, Ban, Check, Pencil, X } from 'lucide-react'
+import type { NameReviewItem } from '../lib/name-review'
+import type { NameReviewDecision, ReviewedNameFields } from '../lib/name-overrides'
+
+export const Route = createFileRoute('/admin/review')({
+  component: NameReviewPage,
+})
+
+interface NameReviewResponse {
+  items: NameReviewItem[]
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+}
+
+const EDITABLE_FIELDS: (keyof ReviewedNameFields)[] = ['cleanedName', 'brand', 'model', 'colorway', 'size', 'variant']
+
+const FIELD_LABELS: Record<keyof ReviewedNameFields, string> = {
+  cleanedName: 'Name',
+  brand: 'Brand',
+  model: 'Model',
+  colorway: 'Colorway',
+  size: 'Size',
+  variant: 'Variant',
+}
+
+/**
+ * Starting point for an edit: the AI suggestion, or the regex parse when there is none
+ */
+function getInitialFields(item: NameReviewItem): ReviewedNameFields {
+  const { suggestion, regex } = item
+  return {
+    cleanedName: suggestion?.cleanedName || item.current.name,
+    brand: suggestion?.brand || regex.brand,
+    model: suggestion?.model || regex.model,
+    colorway: suggestion?.colorway || '',
+    size: suggestion?.size || regex.size || '',
+    variant: suggestion?.variant || '',
+  }
+}
+
+async function readError(response: Response): Promise<string> {
+  const data = await response.json().catch(() => null)
+  return data?.message || data?.error || `Request failed: ${response.status}`
+}
+
+function NameReviewPage() {
+  const [page, setPage] = useState(1)
+  const queryClient = useQueryClient()
+
+  const { data, isLoading, error } = useQuery<NameReviewResponse>({
+    queryKey: ['name-review', page],
+    queryFn: async () => {
+      const response = await fetch(`/api/admin/name-review?page=${page}`)
+      if (!response.ok) throw new Error(await readError(response))
+      return response.json()
+    },
+  })
+
+  const { mutate: saveReview, isPending, variables } = useMutation({
+    mutationFn: async (review: {
+      item: NameReviewItem
+      decision: NameReviewDecision
+      fields?: ReviewedNameFields
+    }) => {
+      const response = await fetch(`/api/admin/name-review/${encodeURIComponent(review.item.itemId)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          decision: review.decision,
+          fields: review.fields,
+          suggestion: review.item.suggestion,
+        }),
+      })
+      if (!response.ok) throw new Error(await readError(response))
+      return response.json()
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['name-review'] }),
+    onError: (err) => alert(err instanceof Error ? err.message : 'Failed to save review'),
+  })
+
+  // Unmatched items the catalog will never have (Labubus, keychains) get a "not in the catalog" match override
+  const { mutate: dismissUnmatched, isPending: isDismissing, variables: dismissed } = useMutation({
+    mutationFn: async (item: NameReviewItem) => {
+      const response = await fetch(`/api/admin/match-overrides/${encodeURIComponent(item.itemId)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ productId: null }),
+      })
+      if (!response.ok) throw new Error(await readError(response))
+      return response.json()
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['name-review'] }),
+    onError: (err) => alert(err instanceof Error ? err.message : 'Failed to dismiss item'),
+  })
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-black text-white flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="w-12 h-12 animate-spin mx-auto mb-4 text-white" />
+          <p className="text-gray-400 text-lg">Loading review queue...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-black text-white flex items-center justify-center">
+        <div className="text-center">
+          <AlertCircle className="w-12 h-12 mx-auto mb-4 text-red-500" />
+          <p className="text-gray-400 text-lg">{error?.message || 'Failed to load review queue'}</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="max-w-7xl mx-auto px-4 md:px-16 py-12">
+        <h1 className="text-3xl font-bold mb-2">Name review</h1>
+        <p className="text-gray-400 mb-8">
+          {data.total} item{data.total === 1 ? '' : 's'} with a low-confidence name or no catalog match
+        </p>
+
+        {data.items.length === 0 ? (
+          <p className="text-gray-400">Nothing to review.</p>
+        ) : (
+          <div className="space-y-4">
+            {data.items.map((item) => (
+              <ReviewRow
+                key={item.itemId}
+                item={item}
+                isSaving={
+                  (isPending && variables?.item.itemId === item.itemId) ||
+                  (isDismissing && dismissed?.itemId === item.itemId)
+                }
+                onReview={(decision, fields) => saveReview({ item, decision, fields })}
+                onDismiss={() => dismissUnmatched(item)}
+              />
+            ))}
+          </div>
+        )}
+
+        {data.totalPages > 1 && (
+          <div className="flex items-center gap-4 mt-8">
+            <button
+              className="px-4 py-2 border border-gray-700 rounded disabled:opacity-40"
+              disabled={page <= 1}
+              onClick={() => setPage(page - 1)}
+            >
+              Previous
+            </button>
+            <span className="text-gray-400">
+              Page {data.page} of {data.totalPages}
+            </span>
+            <button
+              className="px-4 py-2 border border-gray-700 rounded disabled:opacity-40"
+              disabled={page >= data.totalPages}
+              onClick={() => setPage(page + 1)}
+            >
+              Next
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
+
+function ReviewRow({
+  item,
+  isSaving,
+  onReview,
+  onDismiss,
+}: {
+  item: NameReviewItem
+  isSaving: boolean
+  onReview: (decision: NameReviewDecision, fields?: ReviewedNameFields) => void
+  onDismiss: () => void
+}) {
+  const [fields, setFields] = useState<ReviewedNameFields>(() => getInitialFields(item))
+  const { suggestion, regex } = item
+
+  return (
+    <div className="border border-gray-800 rounded-lg p-4">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <p className="font-mono text-sm">{item.name}</p>
+        <span className="text-xs uppercase tracking-wide text-gray-400">{item.reason}</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+        <div>
+          <h2 className="text-gray-400 mb-2">Regex parse</h2>
+          <dl className="space-y-1">
+            <Field label="Brand" value={regex.brand} />
+            <Field label="Model" value={regex.model} />
+            <Field label="Size" value={regex.size} />
+            <Field label="Style code" value={regex.styleCode} />
+          </dl>
+        </div>
+
+        <div>
+          <h2 className="text-gray-400 mb-2">
+            AI suggestion{suggestion ? ` (${suggestion.confidence} confidence)` : ''}
+          </h2>
+          {suggestion ? (
+            <dl className="space-y-1">
+              <Field label="Name" value={suggestion.cleanedName} />
+              <Field label="Brand" value={suggestion.brand} />
+              <Field label="Model" value={suggestion.model} />
+              <Field label="Colorway" value={suggestion.colorway} />
+              <Field label="Size" value={suggestion.size} />
+              <Field label="Variant" value={suggestion.variant} />
+            </dl>
+          ) : (
+            <p className="text-gray-500">No suggestion</p>
+          )}
+        </div>
+
+        <div>
+          <h2 className="text-gray-400 mb-2">Edit</h2>
+          <div className="space-y-1">
+            {EDITABLE_FIELDS.map((field) => (
+              <label key={field} className="flex items-center gap-2">
+                <span className="w-20 text-gray-500">{FIELD_LABELS[field]}</span>
+                <input
+                  className="flex-1 bg-gray-900 border border-gray-700 rounded px-2 py-1"
+                  value={fields[field] || ''}
+                  onChange={(e) => setFields({ ...fields, [field]: e.target.value })}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex gap-2 mt-4">
+        <button
+          className="inline-flex items-center gap-1 px-3 py-1.5 bg-white text-black rounded disabled:opacity-40"
+          disabled={isSaving || !suggestion}
+          onClick={() =>
+            suggestion &&
+            onReview('accepted', {
+              cleanedName: suggestion.cleanedName,
+              brand: suggestion.brand,
+              model: suggestion.model,
+              colorway: suggestion.colorway,
+              size: suggestion.size,
+              variant: suggestion.variant,
+            })
+          }
+        >
+          <Check className="w-4 h-4" /> Accept suggestion
+        </button>
+        <button
+          className="inline-flex items-center gap-1 px-3 py-1.5 border border-gray-600 rounded disabled:opacity-40"
+          disabled={isSaving}
+          onClick={() => onReview('edited', fields)}
+        >
+          <Pencil className="w-4 h-4" /> Save edit
+        </button>
+        <button
+          className="inline-flex items-center gap-1 px-3 py-1.5 border border-gray-600 rounded disabled:opacity-40"
+          disabled={isSaving}
+          onClick={() => onReview('rejected')}
+        >
+          <X className="w-4 h-4" /> Reject
+        </button>
+        {item.reason === 'unmatched' && (
+          <button
+            className="inline-flex items-center gap-1 px-3 py-1.5 border border-gray-600 rounded disabled:opacity-40"
+            disabled={isSaving}
+            onClick={onDismiss}
+          >
+            <Ban className="w-4 h-4" /> Not in catalog
+          </button>
+        )}
+        {isSaving && <Loader2 className="w-5 h-5 animate-spin text-gray-400" />}
+      </div>
+    </div>
+  )
+}
+
+function Field({ label, value }: { label: string; value?: string }) {
+  return (
+    <div className="flex gap-2">
+      <dt className="w-20 text-gray-500">{label}</dt>
+      <dd>{value || '-'}</dd>
+    </div>
+  )
+}
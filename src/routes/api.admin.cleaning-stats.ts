@@ -0,0 +1,36 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { getCleaningStats } from '../lib/ai-product-cleaner'
+import { getProductNameCleaner } from '../lib/product-name-cleaner'
+import { authorizeAdmin } from '../lib/auth-helper'
+
+export const Route = createFileRoute('/api/admin/cleaning-stats')({
+  server: {
+    handlers: {
+      GET: async ({ request }) => {
+        try {
+          const admin = await authorizeAdmin(request)
+          if ('error' in admin) {
+            return json({ error: admin.error }, { status: admin.status })
+          }
+
+          const stats = getCleaningStats()
+          const rejected = Object.values(stats.rejected).reduce((sum, count) => sum + count, 0)
+          const total = stats.accepted + rejected
+          return json({
+            provider: getProductNameCleaner().provider,
+            ...stats,
+            totalRejected: rejected,
+            rejectionRate: total > 0 ? rejected / total : 0,
+          })
+        } catch (error) {
+          console.error('Error getting cleaning stats:', error)
+          return json(
+            { error: 'Failed to get cleaning stats', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
@@ -0,0 +1,32 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { getCloverVerificationCode } from '../lib/clover-webhooks'
+import { authorizeAdmin } from '../lib/auth-helper'
+
+export const Route = createFileRoute('/api/admin/clover-webhook')({
+  server: {
+    handlers: {
+      // The verification code Clover sent when the webhook URL was registered, to paste into the Clover dashboard
+      GET: async ({ request }) => {
+        try {
+          const admin = await authorizeAdmin(request)
+          if ('error' in admin) {
+            return json({ error: admin.error }, { status: admin.status })
+          }
+
+          const verification = await getCloverVerificationCode()
+          if (!verification) {
+            return json({ error: 'No verification code received in the past hour' }, { status: 404 })
+          }
+          return json(verification)
+        } catch (error) {
+          console.error('Error getting Clover verification code:', error)
+          return json(
+            { error: 'Failed to get verification code', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
@@ -0,0 +1,56 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { backfillEnrichments } from '../lib/inventory-service'
+import { countStoredEnrichments } from '../lib/enrichment-store'
+import { getProductNameCleaner } from '../lib/product-name-cleaner'
+import { authorizeAdmin } from '../lib/auth-helper'
+
+// Items re-enriched per request, to keep each call well within AI and catalog rate limits
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+export const Route = createFileRoute('/api/admin/enrichment-backfill')({
+  server: {
+    handlers: {
+      // Current cleaner version and how many stored enrichments predate it
+      GET: async ({ request }) => {
+        try {
+          const admin = await authorizeAdmin(request)
+          if ('error' in admin) {
+            return json({ error: admin.error }, { status: admin.status })
+          }
+
+          const { version } = getProductNameCleaner()
+          return json({ version, ...(await countStoredEnrichments(version)) })
+        } catch (error) {
+          console.error('Error counting stored enrichments:', error)
+          return json(
+            { error: 'Failed to count stored enrichments', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+      // Re-enrich one chunk of stale items (?limit=, default 50); repeat until stale is 0
+      POST: async ({ request }) => {
+        try {
+          const admin = await authorizeAdmin(request)
+          if ('error' in admin) {
+            return json({ error: admin.error }, { status: admin.status })
+          }
+
+          const url = new URL(request.url)
+          const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(url.searchParams.get('limit') || '', 10) || DEFAULT_LIMIT))
+
+          const result = await backfillEnrichments(limit)
+          return json({ ...result, ...(await countStoredEnrichments(result.version)) })
+        } catch (error) {
+          console.error('Error backfilling enrichments:', error)
+          return json(
+            { error: 'Failed to backfill enrichments', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
@@ -0,0 +1,55 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { getEnrichmentQueue, processEnrichmentQueue } from '../lib/enrichment-queue'
+import { authorizeAdmin } from '../lib/auth-helper'
+
+// Most recent failures shown with the counts
+const FAILURE_LIMIT = 20
+
+export const Route = createFileRoute('/api/admin/enrichment-queue')({
+  server: {
+    handlers: {
+      // Queued/running/done/failed job counts and the latest failures
+      GET: async ({ request }) => {
+        try {
+          const admin = await authorizeAdmin(request)
+          if ('error' in admin) {
+            return json({ error: admin.error }, { status: admin.status })
+          }
+
+          const { store } = getEnrichmentQueue()
+          const [counts, failures] = await Promise.all([store.getCounts(), store.listFailed(FAILURE_LIMIT)])
+          return json({ counts, failures })
+        } catch (error) {
+          console.error('Error getting enrichment queue status:', error)
+          return json(
+            { error: 'Failed to get enrichment queue status', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+      // Work through due jobs now (?retryFailed=true queues failed jobs again first)
+      POST: async ({ request }) => {
+        try {
+          const admin = await authorizeAdmin(request)
+          if ('error' in admin) {
+            return json({ error: admin.error }, { status: admin.status })
+          }
+
+          const url = new URL(request.url)
+          const { store } = getEnrichmentQueue()
+          const requeued = url.searchParams.get('retryFailed') === 'true' ? await store.retryFailed() : 0
+
+          const run = await processEnrichmentQueue()
+          return json({ requeued, ...run, counts: await store.getCounts() })
+        } catch (error) {
+          console.error('Error processing enrichment queue:', error)
+          return json(
+            { error: 'Failed to process enrichment queue', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
@@ -0,0 +1,103 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { getRawInventory, getCatalogCandidates, invalidateItemEnrichment } from '../lib/inventory-service'
+import { getCachedEnrichment } from '../lib/inventory-cache'
+import { getKicksDBProduct } from '../lib/kicksdb-api'
+import { getMatchOverride, setMatchOverride, deleteMatchOverride } from '../lib/match-overrides'
+import { authorizeAdmin } from '../lib/auth-helper'
+
+export const Route = createFileRoute('/api/admin/match-overrides/$itemId')({
+  server: {
+    handlers: {
+      // Current match, override and scored catalog candidates for an item
+      GET: async ({ request, params }) => {
+        try {
+          const admin = await authorizeAdmin(request)
+          if ('error' in admin) {
+            return json({ error: admin.error }, { status: admin.status })
+          }
+
+          const itemId = decodeURIComponent(params.itemId)
+          const rawItems = await getRawInventory()
+          const rawItem = rawItems.find((item) => item.id === itemId)
+          if (!rawItem) {
+            return json({ error: 'Item not found', itemId }, { status: 404 })
+          }
+
+          const [override, enriched, candidates] = await Promise.all([
+            getMatchOverride(itemId),
+            getCachedEnrichment(itemId),
+            getCatalogCandidates(rawItem),
+          ])
+
+          return json({
+            itemId,
+            name: rawItem.name,
+            catalogMatch: enriched?.catalogMatch ?? null,
+            override,
+            candidates,
+          })
+        } catch (error) {
+          console.error('Error fetching match candidates:', error)
+          return json(
+            { error: 'Failed to fetch match candidates', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+      // Body: { productId: string } to pin a catalog product, or { productId: null } for "not in the catalog"
+      PUT: async ({ request, params }) => {
+        try {
+          const admin = await authorizeAdmin(request)
+          if ('error' in admin) {
+            return json({ error: admin.error }, { status: admin.status })
+          }
+
+          const itemId = decodeURIComponent(params.itemId)
+          const body = await request.json()
+          const { productId } = body
+
+          if (productId !== null && (typeof productId !== 'string' || !productId.trim())) {
+            return json({ error: 'productId must be a catalog product ID or null' }, { status: 400 })
+          }
+
+          const product = productId === null ? null : await getKicksDBProduct(productId)
+          if (productId !== null && !product) {
+            return json({ error: 'Catalog product not found', productId }, { status: 400 })
+          }
+
+          const override = await setMatchOverride(itemId, product, admin.userId)
+          await invalidateItemEnrichment(itemId)
+
+          return json(override)
+        } catch (error) {
+          console.error('Error saving match override:', error)
+          return json(
+            { error: 'Failed to save match override', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+      DELETE: async ({ request, params }) => {
+        try {
+          const admin = await authorizeAdmin(request)
+          if ('error' in admin) {
+            return json({ error: admin.error }, { status: admin.status })
+          }
+
+          const itemId = decodeURIComponent(params.itemId)
+          await deleteMatchOverride(itemId)
+          await invalidateItemEnrichment(itemId)
+
+          return json({ success: true, itemId })
+        } catch (error) {
+          console.error('Error deleting match override:', error)
+          return json(
+            { error: 'Failed to delete match override', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
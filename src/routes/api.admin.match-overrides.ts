@@ -0,0 +1,28 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { listMatchOverrides } from '../lib/match-overrides'
+import { authorizeAdmin } from '../lib/auth-helper'
+
+export const Route = createFileRoute('/api/admin/match-overrides')({
+  server: {
+    handlers: {
+      GET: async ({ request }) => {
+        try {
+          const admin = await authorizeAdmin(request)
+          if ('error' in admin) {
+            return json({ error: admin.error }, { status: admin.status })
+          }
+
+          const overrides = await listMatchOverrides()
+          return json({ overrides, total: overrides.length })
+        } catch (error) {
+          console.error('Error listing match overrides:', error)
+          return json(
+            { error: 'Failed to list match overrides', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
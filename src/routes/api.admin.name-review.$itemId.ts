@@ -0,0 +1,75 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { z } from 'zod'
+import { getRawInventory, invalidateItemEnrichment } from '../lib/inventory-service'
+import { nameReviewSchema } from '../lib/name-review'
+import { deleteNameOverride, setNameOverride } from '../lib/name-overrides'
+import { authorizeAdmin } from '../lib/auth-helper'
+
+export const Route = createFileRoute('/api/admin/name-review/$itemId')({
+  server: {
+    handlers: {
+      // Body: { decision: 'accepted' | 'edited' | 'rejected', fields?, suggestion? }
+      // fields are the name to use (required unless rejected); suggestion is the AI suggestion that was shown
+      PUT: async ({ request, params }) => {
+        try {
+          const admin = await authorizeAdmin(request)
+          if ('error' in admin) {
+            return json({ error: admin.error }, { status: admin.status })
+          }
+
+          const itemId = decodeURIComponent(params.itemId)
+          const review = nameReviewSchema.safeParse(await request.json())
+          if (!review.success) {
+            return json({ error: 'Invalid review', message: z.prettifyError(review.error) }, { status: 400 })
+          }
+
+          const rawItem = (await getRawInventory()).find((item) => item.id === itemId)
+          if (!rawItem) {
+            return json({ error: 'Item not found', itemId }, { status: 404 })
+          }
+
+          const { decision, fields, suggestion } = review.data
+          const override = await setNameOverride({
+            itemId,
+            originalName: rawItem.name,
+            decision,
+            fields: decision === 'rejected' ? null : fields!,
+            suggestion,
+            reviewedBy: admin.userId,
+          })
+          await invalidateItemEnrichment(itemId)
+
+          return json(override)
+        } catch (error) {
+          console.error('Error saving name review:', error)
+          return json(
+            { error: 'Failed to save name review', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+      // Undo a review, putting the item back in the queue
+      DELETE: async ({ request, params }) => {
+        try {
+          const admin = await authorizeAdmin(request)
+          if ('error' in admin) {
+            return json({ error: admin.error }, { status: admin.status })
+          }
+
+          const itemId = decodeURIComponent(params.itemId)
+          await deleteNameOverride(itemId)
+          await invalidateItemEnrichment(itemId)
+
+          return json({ success: true, itemId })
+        } catch (error) {
+          console.error('Error deleting name review:', error)
+          return json(
+            { error: 'Failed to delete name review', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
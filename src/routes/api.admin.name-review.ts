@@ -0,0 +1,48 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { buildNameReviewItems, listNameReviewCandidates } from '../lib/name-review'
+import { authorizeAdmin } from '../lib/auth-helper'
+
+// Names without a cached AI suggestion are cleaned when listed, so pages stay small
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 50
+
+export const Route = createFileRoute('/api/admin/name-review')({
+  server: {
+    handlers: {
+      // Low-confidence and unmatched items with their regex parse and AI suggestion (?page=, ?pageSize=)
+      GET: async ({ request }) => {
+        try {
+          const admin = await authorizeAdmin(request)
+          if ('error' in admin) {
+            return json({ error: admin.error }, { status: admin.status })
+          }
+
+          const url = new URL(request.url)
+          const page = Math.max(1, parseInt(url.searchParams.get('page') || '1', 10) || 1)
+          const pageSize = Math.min(
+            MAX_PAGE_SIZE,
+            Math.max(1, parseInt(url.searchParams.get('pageSize') || '', 10) || DEFAULT_PAGE_SIZE)
+          )
+
+          const candidates = await listNameReviewCandidates()
+          const items = await buildNameReviewItems(candidates.slice((page - 1) * pageSize, page * pageSize))
+
+          return json({
+            items,
+            total: candidates.length,
+            page,
+            pageSize,
+            totalPages: Math.ceil(candidates.length / pageSize),
+          })
+        } catch (error) {
+          console.error('Error listing names for review:', error)
+          return json(
+            { error: 'Failed to list names for review', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
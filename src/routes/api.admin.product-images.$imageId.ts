@@ -0,0 +1,33 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { deleteProductImage } from '../lib/product-images'
+import { authorizeAdmin } from '../lib/auth-helper'
+
+export const Route = createFileRoute('/api/admin/product-images/$imageId')({
+  server: {
+    handlers: {
+      DELETE: async ({ request, params }) => {
+        try {
+          const admin = await authorizeAdmin(request)
+          if ('error' in admin) {
+            return json({ error: admin.error }, { status: admin.status })
+          }
+
+          const imageId = decodeURIComponent(params.imageId)
+          const owner = await deleteProductImage(imageId)
+          if (!owner) {
+            return json({ error: 'Image not found', imageId }, { status: 404 })
+          }
+
+          return json({ success: true, imageId, ...owner })
+        } catch (error) {
+          console.error('Error deleting product image:', error)
+          return json(
+            { error: 'Failed to delete product image', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
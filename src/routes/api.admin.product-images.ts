@@ -0,0 +1,152 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { getInventoryCatalogItems, getRawInventoryWithAge } from '../lib/inventory-service'
+import { findProductItems } from '../lib/product-groups'
+import {
+  MAX_PRODUCT_IMAGE_BYTES,
+  arrangeProductImages,
+  findProductImageGroupId,
+  listProductImages,
+  recordProductImageGroup,
+  uploadProductImage,
+} from '../lib/product-images'
+import type { ProductImageOwner } from '../lib/product-images'
+import { authorizeAdmin } from '../lib/auth-helper'
+
+/**
+ * Owner from ownerType ("item" or "group") and ownerId (a Clover item ID; for "group", any size of the product),
+ * or null when either is missing or invalid
+ */
+function parseOwner(ownerType: unknown, ownerId: unknown): ProductImageOwner | null {
+  if ((ownerType !== 'item' && ownerType !== 'group') || typeof ownerId !== 'string' || !ownerId.trim()) {
+    return null
+  }
+  return { ownerType, ownerId }
+}
+
+/**
+ * Where a product's photos are kept: its image group, found from the sizes of the item's product
+ * find only reads; record also adds sizes the group doesn't know yet, and create makes the group on first upload
+ * Null when the product has no group photos yet (and create isn't set)
+ */
+async function resolveOwner(
+  owner: ProductImageOwner,
+  mode: 'find' | 'record' | 'create'
+): Promise<ProductImageOwner | null> {
+  if (owner.ownerType === 'item') return owner
+
+  const productItems = findProductItems(await getInventoryCatalogItems(await getRawInventoryWithAge()), owner.ownerId)
+  const itemIds = productItems ? productItems.map((item) => item.id) : [owner.ownerId]
+  const groupId =
+    mode === 'find' ? await findProductImageGroupId(itemIds) : await recordProductImageGroup(itemIds, mode === 'create')
+  return groupId ? { ownerType: 'group', ownerId: groupId } : null
+}
+
+export const Route = createFileRoute('/api/admin/product-images')({
+  server: {
+    handlers: {
+      // Images of an item or product group (?ownerType=item|group&ownerId=), primary first
+      GET: async ({ request }) => {
+        try {
+          const admin = await authorizeAdmin(request)
+          if ('error' in admin) {
+            return json({ error: admin.error }, { status: admin.status })
+          }
+
+          const url = new URL(request.url)
+          const owner = parseOwner(url.searchParams.get('ownerType'), url.searchParams.get('ownerId'))
+          if (!owner) {
+            return json({ error: 'ownerType must be "item" or "group", with an ownerId' }, { status: 400 })
+          }
+
+          const resolved = await resolveOwner(owner, 'find')
+          return json({ ...owner, images: resolved ? await listProductImages(resolved) : [] })
+        } catch (error) {
+          console.error('Error listing product images:', error)
+          return json(
+            { error: 'Failed to list product images', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+      // Multipart form: ownerType, ownerId and one or more "file" fields
+      POST: async ({ request }) => {
+        try {
+          const admin = await authorizeAdmin(request)
+          if ('error' in admin) {
+            return json({ error: admin.error }, { status: admin.status })
+          }
+
+          const form = await request.formData()
+          const owner = parseOwner(form.get('ownerType'), form.get('ownerId'))
+          if (!owner) {
+            return json({ error: 'ownerType must be "item" or "group", with an ownerId' }, { status: 400 })
+          }
+
+          const files = form.getAll('file').filter((file): file is File => file instanceof File)
+          if (files.length === 0) {
+            return json({ error: 'No file uploaded' }, { status: 400 })
+          }
+          const invalid = files.find((file) => !file.type.startsWith('image/') || file.size > MAX_PRODUCT_IMAGE_BYTES)
+          if (invalid) {
+            return json(
+              { error: `${invalid.name} must be an image of at most ${MAX_PRODUCT_IMAGE_BYTES / 1024 / 1024} MB` },
+              { status: 400 }
+            )
+          }
+
+          const resolved = (await resolveOwner(owner, 'create'))!
+          const createdBy = admin.userId
+          const uploaded = []
+          for (const file of files) {
+            uploaded.push(await uploadProductImage(resolved, file, createdBy))
+          }
+
+          return json({ ...owner, uploaded, images: await listProductImages(resolved) })
+        } catch (error) {
+          console.error('Error uploading product images:', error)
+          return json(
+            { error: 'Failed to upload product images', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+      // Body: { ownerType, ownerId, order: string[] (image IDs, first shown first), primaryId?: string }
+      PUT: async ({ request }) => {
+        try {
+          const admin = await authorizeAdmin(request)
+          if ('error' in admin) {
+            return json({ error: admin.error }, { status: admin.status })
+          }
+
+          const body = await request.json()
+          const owner = parseOwner(body.ownerType, body.ownerId)
+          if (!owner) {
+            return json({ error: 'ownerType must be "item" or "group", with an ownerId' }, { status: 400 })
+          }
+          const { order = [], primaryId } = body
+          if (
+            !Array.isArray(order) ||
+            !order.every((imageId) => typeof imageId === 'string') ||
+            (primaryId !== undefined && typeof primaryId !== 'string')
+          ) {
+            return json({ error: 'order must be a list of image IDs and primaryId an image ID' }, { status: 400 })
+          }
+
+          const resolved = await resolveOwner(owner, 'record')
+          if (!resolved) {
+            return json({ error: 'This product has no photos to arrange' }, { status: 404 })
+          }
+
+          return json({ ...owner, images: await arrangeProductImages(resolved, order, primaryId) })
+        } catch (error) {
+          console.error('Error arranging product images:', error)
+          return json(
+            { error: 'Failed to arrange product images', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
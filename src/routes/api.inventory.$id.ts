@@ -1,7 +1,14 @@
 import { createFileRoute } from '@tanstack/react-router'
 import { json } from '@tanstack/react-start'
-import { getRawInventory, enrichItemsBatch } from '../lib/inventory-service'
+import {
+  getRawInventory,
+  getRawInventoryWithAge,
+  enrichItemsBatch,
+  getInventoryCatalogItems,
+  withManagedImages,
+} from '../lib/inventory-service'
 import { getCachedEnrichment } from '../lib/inventory-cache'
+import { convertSize } from '../lib/size-conversion'
 
 export const Route = createFileRoute('/api/inventory/$id')({
   server: {
@@ -14,7 +21,7 @@ export const Route = createFileRoute('/api/inventory/$id')({
           const decodedId = decodeURIComponent(id)
 
           // Check if this specific item is already enriched and cached
-          let product = getCachedEnrichment(decodedId) || getCachedEnrichment(id)
+          let product = (await getCachedEnrichment(decodedId)) || (await getCachedEnrichment(id))
           
           if (!product) {
             // Get raw inventory and find the item
@@ -48,7 +55,13 @@ export const Route = createFileRoute('/api/inventory/$id')({
             )
           }
 
-          return json(product)
+          // Staff photos of the item, or of its product (any size)
+          const [shown] = await withManagedImages([product], await getInventoryCatalogItems(await getRawInventoryWithAge()))
+
+          return json({
+            ...shown,
+            sizeConversions: convertSize(product.sizeInfo, product.brand, product.model),
+          })
         } catch (error) {
           console.error('Error fetching product:', error)
           return json(
@@ -0,0 +1,54 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import {
+  getRawInventoryWithAge,
+  enrichItemsBatch,
+  getInventoryCatalogItems,
+  withManagedImages,
+} from '../lib/inventory-service'
+import { findProductItems, buildProductGroup, getProductGroupKey } from '../lib/product-groups'
+import type { CloverItem } from '../types/inventory'
+
+export const Route = createFileRoute('/api/inventory/$id_/group')({
+  server: {
+    handlers: {
+      GET: async ({ params }) => {
+        try {
+          const decodedId = decodeURIComponent(params.id)
+
+          const inventory = await getRawInventoryWithAge()
+
+          // Find the other sizes using the same item view as the shop listing; only in-stock sizes can be picked
+          const catalogItems = (await getInventoryCatalogItems(inventory)).filter((item) => {
+            return item.stockCount === undefined || item.stockCount === null || item.stockCount > 0
+          })
+          const groupItems = findProductItems(catalogItems, decodedId)
+          if (!groupItems) {
+            return json(
+              { error: 'Product not found', id: decodedId },
+              { status: 404 }
+            )
+          }
+
+          // Enrich every size of this product (usually a handful of items)
+          const rawItemsById = new Map(inventory.items.map((item) => [item.id, item]))
+          const enrichedItems = await enrichItemsBatch(
+            groupItems
+              .map((item) => rawItemsById.get(item.id))
+              .filter((item): item is CloverItem => item !== undefined)
+          )
+
+          return json(
+            buildProductGroup(await withManagedImages(enrichedItems, catalogItems), getProductGroupKey(groupItems[0]))
+          )
+        } catch (error) {
+          console.error('Error fetching product group:', error)
+          return json(
+            { error: 'Failed to fetch product', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
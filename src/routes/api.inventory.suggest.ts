@@ -0,0 +1,49 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { getRawInventoryWithAge, getInventorySearchIndex } from '../lib/inventory-service'
+
+// Upper bound on completions/products per request
+const MAX_SUGGESTION_LIMIT = 10
+
+export const Route = createFileRoute('/api/inventory/suggest')({
+  server: {
+    handlers: {
+      GET: async ({ request }) => {
+        try {
+          const url = new URL(request.url)
+          const q = url.searchParams.get('q')?.trim() || ''
+          const limitParam = parseInt(url.searchParams.get('limit') || '5', 10)
+          const limit = Math.min(Math.max(isNaN(limitParam) ? 5 : limitParam, 1), MAX_SUGGESTION_LIMIT)
+
+          if (!q) {
+            return json({ query: q, completions: [], products: [] })
+          }
+
+          // Served from the cached catalog through the search index - never triggers AI cleaning
+          const searchIndex = await getInventorySearchIndex(await getRawInventoryWithAge())
+          const { completions, products } = searchIndex.suggest(q, limit)
+
+          return json({
+            query: q,
+            completions,
+            products: products.map((item) => ({
+              id: item.id,
+              name: item.name,
+              brand: item.brand,
+              model: item.model,
+              size: item.size,
+              price: item.price,
+              imageUrl: item.imageUrl,
+            })),
+          })
+        } catch (error) {
+          console.error('Error fetching search suggestions:', error)
+          return json(
+            { error: 'Failed to fetch suggestions', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
@@ -1,8 +1,22 @@
 import { createFileRoute } from '@tanstack/react-router'
 import { json } from '@tanstack/react-start'
-import { getRawInventory, enrichItemsBatch } from '../lib/inventory-service'
-import { parseShoeName } from '../lib/shoe-parser'
-import type { EnrichedInventoryItem } from '../types/inventory'
+import {
+  getRawInventoryWithAge,
+  enrichItemsBatch,
+  getInventoryCatalogItems,
+  getInventorySearchIndex,
+  withManagedImages,
+} from '../lib/inventory-service'
+import {
+  parseInventoryQuery,
+  hasInventoryFilters,
+  applyInventoryQuery,
+  filterInventoryItems,
+  computeInventoryFacets,
+} from '../lib/inventory-query'
+import { enqueueEnrichment } from '../lib/enrichment-queue'
+import { clusterProductItems, buildProductGroup, getProductGroupKey } from '../lib/product-groups'
+import type { EnrichedInventoryItem, ProductGroup } from '../types/inventory'
 import type { CloverItem } from '../types/inventory'
 
 interface PaginatedResponse {
@@ -14,6 +28,15 @@ interface PaginatedResponse {
   hasMore: boolean
 }
 
+interface PaginatedGroupResponse {
+  groups: ProductGroup[]
+  total: number
+  page: number
+  pageSize: number
+  totalPages: number
+  hasMore: boolean
+}
+
 export const Route = createFileRoute('/api/inventory')({
   server: {
     handlers: {
@@ -23,56 +46,127 @@ export const Route = createFileRoute('/api/inventory')({
           const page = parseInt(url.searchParams.get('page') || '1', 10)
           const pageSize = parseInt(url.searchParams.get('pageSize') || '50', 10)
           const getAll = url.searchParams.get('all') === 'true' // For filters/metadata
+          const groupBySize = url.searchParams.get('group') === 'true' // One entry per product, sizes grouped
+
+          // Get raw inventory (fast, cached, no enrichment - may be a stale snapshot while refreshing)
+          const inventory = await getRawInventoryWithAge()
+          const { items: rawItems, fetchedAt } = inventory
+
+          // Let the frontend show how fresh the data is ("updated N minutes ago")
+          const headers = new Headers()
+          headers.set('X-Inventory-Age', String(Math.max(0, Math.floor((Date.now() - fetchedAt) / 1000))))
 
-          // Get raw inventory (fast, cached, no enrichment)
-          const rawItems = await getRawInventory()
+          const query = parseInventoryQuery(url.searchParams)
 
-          // If requesting metadata only (for filters), return summary from raw items
+          // Fuzzy, typo-tolerant search scores (index is rebuilt when the raw snapshot refreshes)
+          const searchScores = query.q
+            ? (await getInventorySearchIndex(inventory)).search(query.q)
+            : undefined
+
+          // If requesting metadata only (for filters), return facet counts under the applied filters
+          // Uses the same item view as search/filtering below, so counts match what the shop lists
           if (getAll) {
-            // Parse brands and sizes from raw items (fast, no API calls)
-            const brands = new Set<string>()
-            const sizes = new Set<string>()
-            
-            rawItems.forEach((item) => {
-              const parsed = parseShoeName(item.name)
-              if (parsed.brand) brands.add(parsed.brand)
-              if (parsed.size) sizes.add(parsed.size)
-            })
+            const catalogItems = await getInventoryCatalogItems(inventory)
+            const facets = computeInventoryFacets(catalogItems, query, searchScores)
 
             return json({
-              total: rawItems.length,
-              brands: Array.from(brands).sort(),
-              sizes: Array.from(sizes).sort(),
-            })
+              total: filterInventoryItems(catalogItems, query, searchScores).length,
+              catalogTotal: catalogItems.length,
+              brands: facets.brand.map((facet) => facet.value),
+              sizes: facets.size.map((facet) => facet.value),
+              facets,
+            }, { headers })
+          }
+
+          // Paginate products (all sizes of a shoe grouped) instead of individual Clover items
+          if (groupBySize) {
+            const rawItemsById = new Map(rawItems.map((item) => [item.id, item]))
+            const allCatalogItems = await getInventoryCatalogItems(inventory)
+            const catalogItems = applyInventoryQuery(allCatalogItems, query, searchScores)
+            const clusters = clusterProductItems(
+              catalogItems.filter((item) => {
+                return item.stockCount === undefined || item.stockCount === null || item.stockCount > 0
+              })
+            )
+
+            const startIndex = (page - 1) * pageSize
+            const pageClusters = clusters.slice(startIndex, startIndex + pageSize)
+            const totalPages = Math.ceil(clusters.length / pageSize)
+
+            // Enrich every size on this page, then rebuild groups from the enriched items
+            const toRawItems = (items: EnrichedInventoryItem[]) =>
+              items
+                .map((item) => rawItemsById.get(item.id))
+                .filter((item): item is CloverItem => item !== undefined)
+            // Staff photos are looked up against every size, not just the ones matching the filters
+            const enrichedItems = await withManagedImages(
+              await enrichItemsBatch(toRawItems(pageClusters.flat())),
+              allCatalogItems
+            )
+            const enrichedById = new Map(enrichedItems.map((item) => [item.id, item]))
+            // Group IDs stay the keys of the catalog view the clusters came from
+            const groups = pageClusters.map((cluster) =>
+              buildProductGroup(cluster.map((item) => enrichedById.get(item.id) || item), getProductGroupKey(cluster[0]))
+            )
+
+            // Queue the next page for background enrichment
+            if (page < totalPages) {
+              const nextPageClusters = clusters.slice(startIndex + pageSize, startIndex + pageSize * 2)
+              await enqueueEnrichment(toRawItems(nextPageClusters.flat())).catch((err) => {
+                console.warn('Queueing background enrichment failed:', err)
+              })
+            }
+
+            const response: PaginatedGroupResponse = {
+              groups,
+              total: clusters.length,
+              page,
+              pageSize,
+              totalPages,
+              hasMore: page < totalPages,
+            }
+
+            return json(response, { headers })
+          }
+
+          // Search, filter and sort the full catalog before paginating
+          // (uses cached enrichment or a regex parse - never triggers AI cleaning)
+          const allCatalogItems = await getInventoryCatalogItems(inventory)
+          let matchingRawItems: CloverItem[] = rawItems
+          if (hasInventoryFilters(query) || query.sort !== 'relevance') {
+            const rawItemsById = new Map(rawItems.map((item) => [item.id, item]))
+            const catalogItems = applyInventoryQuery(allCatalogItems, query, searchScores)
+            matchingRawItems = catalogItems
+              .map((item) => rawItemsById.get(item.id))
+              .filter((item): item is CloverItem => item !== undefined)
           }
 
           // Paginate raw items first (fast)
           const startIndex = (page - 1) * pageSize
           const endIndex = startIndex + pageSize
-          const paginatedRawItems = rawItems.slice(startIndex, endIndex)
-          const totalPages = Math.ceil(rawItems.length / pageSize)
+          const paginatedRawItems = matchingRawItems.slice(startIndex, endIndex)
+          const totalPages = Math.ceil(matchingRawItems.length / pageSize)
 
-          // Enrich ONLY the items for this page (lazy loading!)
-          const enrichedItems = await enrichItemsBatch(paginatedRawItems)
+          // Enrich ONLY the items for this page (lazy loading!), with staff photos of their products
+          const enrichedItems = await withManagedImages(await enrichItemsBatch(paginatedRawItems), allCatalogItems)
 
           // Filter out items that are out of stock after enrichment
           const inStockItems = enrichedItems.filter((item) => {
             return item.stockCount === undefined || item.stockCount === null || item.stockCount > 0
           })
 
-          // Optionally pre-enrich next page in background (non-blocking)
+          // Queue the next page for background enrichment
           if (page < totalPages) {
             const nextPageStart = endIndex
-            const nextPageEnd = Math.min(nextPageStart + pageSize, rawItems.length)
-            const nextPageItems = rawItems.slice(nextPageStart, nextPageEnd)
-            // Don't await - let it run in background
-            enrichItemsBatch(nextPageItems).catch((err) => {
-              console.warn('Background enrichment failed:', err)
+            const nextPageEnd = Math.min(nextPageStart + pageSize, matchingRawItems.length)
+            const nextPageItems = matchingRawItems.slice(nextPageStart, nextPageEnd)
+            await enqueueEnrichment(nextPageItems).catch((err) => {
+              console.warn('Queueing background enrichment failed:', err)
             })
           }
 
           // Recalculate total based on in-stock items only
-          const totalInStock = rawItems.filter((item) => {
+          const totalInStock = matchingRawItems.filter((item) => {
             return item.stockCount === undefined || item.stockCount === null || item.stockCount > 0
           }).length
 
@@ -85,7 +179,7 @@ export const Route = createFileRoute('/api/inventory')({
             hasMore: page < Math.ceil(totalInStock / pageSize),
           }
 
-          return json(response)
+          return json(response, { headers })
         } catch (error) {
           console.error('Error fetching inventory:', error)
           return json(
@@ -0,0 +1,51 @@
+import { createFileRoute } from '@tanstack/react-router'
+import { json } from '@tanstack/react-start'
+import { verifyCloverWebhook, parseCloverItemChanges, saveCloverVerificationCode } from '../lib/clover-webhooks'
+import type { CloverWebhookPayload } from '../lib/clover-webhooks'
+import { refreshInventoryItems } from '../lib/inventory-service'
+
+export const Route = createFileRoute('/api/webhooks/clover')({
+  server: {
+    handlers: {
+      POST: async ({ request }) => {
+        try {
+          const rawBody = await request.text()
+
+          let payload: CloverWebhookPayload
+          try {
+            payload = JSON.parse(rawBody)
+          } catch {
+            return json({ error: 'Invalid JSON body' }, { status: 400 })
+          }
+
+          // Clover sends a one-time verification code when the webhook URL is registered
+          // It proves ownership of the app, so it's kept for admins (GET /api/admin/clover-webhook), not echoed back
+          if (typeof payload.verificationCode === 'string' && !payload.merchants) {
+            await saveCloverVerificationCode(payload.verificationCode)
+            return json({ success: true })
+          }
+
+          const isValid = await verifyCloverWebhook(request, rawBody)
+          if (!isValid) {
+            return json({ error: 'Invalid webhook signature' }, { status: 401 })
+          }
+
+          const { changedIds, deletedIds } = parseCloverItemChanges(payload)
+          if (changedIds.length === 0 && deletedIds.length === 0) {
+            return json({ success: true, updated: 0, removed: 0 })
+          }
+
+          const result = await refreshInventoryItems(changedIds, deletedIds)
+
+          return json({ success: true, ...result })
+        } catch (error) {
+          console.error('Error processing Clover webhook:', error)
+          return json(
+            { error: 'Failed to process webhook', message: error instanceof Error ? error.message : 'Unknown error' },
+            { status: 500 }
+          )
+        }
+      },
+    },
+  },
+})
@@ -3,6 +3,9 @@ import { useInfiniteQuery } from '@tanstack/react-query'
 import React, { useState, useMemo, useEffect } from 'react'
 import type { EnrichedInventoryItem } from '../types/inventory'
 import { ShoppingBag, Loader2, AlertCircle, Search, Filter, X, ArrowLeft } from 'lucide-react'
+import { compareSizeLabels } from '../lib/sizes'
+import { findBrand, getCanonicalBrand } from '../lib/brands'
+import ConditionBadges from '../components/ConditionBadges'
 
 export const Route = createFileRoute('/shop/$brand')({
   beforeLoad: ({ params }) => {
@@ -27,7 +30,9 @@ type SortOption = 'price-low' | 'price-high' | 'name-asc' | 'name-desc' | 'newes
 
 function BrandShopPage() {
   const { brand: brandParam } = Route.useParams()
-  const brand = decodeURIComponent(brandParam)
+  // "/shop/Air Jordan" and "/shop/Jordan" show the same page
+  const brand = getCanonicalBrand(decodeURIComponent(brandParam))
+  const brandLogoUrl = findBrand(brand)?.logoUrl
   const navigate = useNavigate()
 
   // For brand page, we need all items to filter by brand
@@ -81,7 +86,7 @@ function BrandShopPage() {
       inventory
         .map((item) => item.brand)
         .filter((b): b is string => Boolean(b))
-        .map((b) => b.toLowerCase())
+        .map((b) => getCanonicalBrand(b).toLowerCase())
     )
     return brands
   }, [inventory])
@@ -109,37 +114,13 @@ function BrandShopPage() {
   const [sortBy, setSortBy] = useState<SortOption>('newest')
   const [showFilters, setShowFilters] = useState(false)
 
-  // Map model names and variations to their parent brands
-  const brandNormalization: Record<string, string> = {
-    'af1': 'Nike',
-    'air force': 'Nike',
-    'air force 1': 'Nike',
-    'dunk': 'Nike',
-    'sb dunk': 'Nike',
-    'lebron': 'Nike',
-    'jumpman': 'Jordan',
-    'yeezy': 'Adidas',
-    'bapestas': 'Bape',
-    'bapesta': 'Bape',
-  }
-
-  // Normalize brand name
-  const normalizeBrand = (itemBrand: string): string => {
-    const lowerBrand = itemBrand.toLowerCase().trim()
-    if (brandNormalization[lowerBrand]) {
-      return brandNormalization[lowerBrand]
-    }
-    return itemBrand
-  }
-
-  // Filter items by brand (including normalized model names)
+  // Filter items by brand (including brand aliases and model lines, e.g. "Dunk" is Nike)
   const brandItems = useMemo(() => {
     if (!inventory) return []
     const normalizedTargetBrand = brand.toLowerCase()
     return inventory.filter((item) => {
       if (!item.brand) return false
-      const normalizedItemBrand = normalizeBrand(item.brand).toLowerCase()
-      return normalizedItemBrand === normalizedTargetBrand
+      return getCanonicalBrand(item.brand).toLowerCase() === normalizedTargetBrand
     })
   }, [inventory, brand])
 
@@ -150,7 +131,7 @@ function BrandShopPage() {
         .map((item) => item.size)
         .filter((size): size is string => Boolean(size))
     )
-    return Array.from(uniqueSizes).sort()
+    return Array.from(uniqueSizes).sort(compareSizeLabels)
   }, [brandItems])
 
   // Filter and sort items
@@ -274,6 +255,7 @@ function BrandShopPage() {
           </div>
           <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-6 mb-6">
             <div>
+              {brandLogoUrl && <img src={brandLogoUrl} alt={`${brand} logo`} className="h-12 w-auto mb-4" />}
               <h1 className="text-5xl md:text-6xl font-black mb-3 uppercase tracking-tight">
                 {brand}
               </h1>
@@ -451,7 +433,7 @@ function ProductCard({ item }: { item: EnrichedInventoryItem }) {
             <ShoppingBag className="w-24 h-24 text-gray-600" />
           </div>
         )}
-        {!item.matched && (
+        {!item.imageUrl && (
           <div className="absolute top-3 right-3 bg-yellow-500 text-black text-xs px-2 py-1 rounded font-bold">
             No Image
           </div>
@@ -473,6 +455,7 @@ function ProductCard({ item }: { item: EnrichedInventoryItem }) {
         <h3 className="font-bold text-lg mb-2 line-clamp-2 text-white group-hover:text-gray-200 transition-colors">
           {item.model || item.name}
         </h3>
+        <ConditionBadges condition={item.condition} packaging={item.packaging} className="mb-2" />
         {item.size && (
           <p className="text-gray-500 text-sm mb-3">
             Size: <span className="text-white font-medium">{item.size}</span>
@@ -1,8 +1,16 @@
 import { createFileRoute, Link } from '@tanstack/react-router'
 import { useQuery } from '@tanstack/react-query'
-import type { EnrichedInventoryItem } from '../types/inventory'
-import { ArrowLeft, ShoppingBag, Loader2, AlertCircle, Calendar } from 'lucide-react'
+import { useState } from 'react'
+import type { ProductGroup } from '../types/inventory'
+import { ArrowLeft, ShoppingBag, Loader2, AlertCircle, Calendar, Tag } from 'lucide-react'
 import AddToCartButton from '../components/AddToCartButton'
+import ConditionBadges from '../components/ConditionBadges'
+import {
+  PREFERRED_SIZE_SYSTEMS,
+  PREFERRED_SIZE_SYSTEM_LABELS,
+  formatSizeForSystem,
+} from '../lib/size-conversion'
+import { useSizePreference } from '../hooks/useSizePreference'
 
 export const Route = createFileRoute('/shop/$id')({
   component: ProductDetailPage,
@@ -13,15 +21,20 @@ function ProductDetailPage() {
   
   console.log('[ProductDetailPage] Loading product:', { id })
   
-  const { data: product, isLoading, error } = useQuery<EnrichedInventoryItem>({
-    queryKey: ['product', id],
+  // Size the shopper picked (defaults to the item in the URL)
+  const [selectedItemId, setSelectedItemId] = useState<string | null>(null)
+  const { sizeSystem, setSizeSystem } = useSizePreference()
+
+  // Load the product with all of its sizes (each size is its own Clover item)
+  const { data: product, isLoading, error } = useQuery<ProductGroup>({
+    queryKey: ['product-group', id],
     queryFn: async () => {
       try {
         // Decode the ID first in case it's double-encoded
         const decodedId = decodeURIComponent(id)
         // Encode the ID to handle special characters in URLs
         const encodedId = encodeURIComponent(decodedId)
-        const response = await fetch(`/api/inventory/${encodedId}`)
+        const response = await fetch(`/api/inventory/${encodedId}/group`)
         
         if (!response.ok) {
           const errorText = await response.text()
@@ -41,7 +54,7 @@ function ProductDetailPage() {
         }
         
         const data = await response.json()
-        if (!data || !data.id) {
+        if (!data || !data.id || !Array.isArray(data.sizes)) {
           throw new Error('Invalid product data received')
         }
         return data
@@ -106,6 +119,12 @@ function ProductDetailPage() {
     )
   }
 
+  // Selected size maps to the Clover item that goes into the cart
+  const decodedId = decodeURIComponent(id)
+  const selectedSize =
+    product.sizes.find((size) => size.itemId === (selectedItemId || decodedId)) || product.sizes[0]
+  const price = selectedSize?.price
+
   const images = product.images && product.images.length > 0 
     ? product.images 
     : product.imageUrl 
@@ -183,12 +202,14 @@ function ProductDetailPage() {
                 </p>
               )}
 
+              <ConditionBadges condition={product.condition} packaging={selectedSize?.packaging} />
+
               {/* Price */}
               <div className="pt-4 border-t border-gray-800">
-                {product.price !== undefined ? (
+                {price !== undefined ? (
                   <div className="flex items-baseline gap-4">
                     <p className="text-5xl font-black text-white">
-                      ${(product.price / 100).toFixed(2)}
+                      ${(price / 100).toFixed(2)}
                     </p>
                     {product.retailPrice && product.retailPrice > 0 && (
                       <p className="text-xl text-gray-500 line-through">
@@ -203,19 +224,67 @@ function ProductDetailPage() {
 
               {/* Product Details */}
               <div className="space-y-4 pt-4 border-t border-gray-800">
-                {product.size && (
-                  <div className="flex items-center gap-3">
-                    <span className="text-gray-400 font-medium min-w-[80px]">Size:</span>
-                    <span className="text-white font-bold text-lg">{product.size}</span>
+                {product.sizes.length > 0 && (
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <span className="text-gray-400 font-medium">
+                        Size:{' '}
+                        <span className="text-white font-bold">
+                          {selectedSize && formatSizeForSystem(selectedSize.size, selectedSize.conversions, sizeSystem)}
+                        </span>
+                      </span>
+                      <div className="flex gap-1">
+                        {PREFERRED_SIZE_SYSTEMS.map((system) => (
+                          <button
+                            key={system}
+                            type="button"
+                            onClick={() => setSizeSystem(system)}
+                            className={`px-2 py-0.5 text-xs rounded font-medium transition-colors ${
+                              sizeSystem === system ? 'bg-white text-black' : 'text-gray-400 hover:text-white'
+                            }`}
+                          >
+                            {PREFERRED_SIZE_SYSTEM_LABELS[system]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {product.sizes.map((size) => {
+                        const isSelected = size.itemId === selectedSize?.itemId
+                        const isSoldOut = size.stockCount === 0
+                        return (
+                          <button
+                            key={size.itemId}
+                            type="button"
+                            onClick={() => setSelectedItemId(size.itemId)}
+                            disabled={isSoldOut}
+                            className={`min-w-[64px] px-4 py-2 rounded-lg border-2 font-bold transition-colors disabled:opacity-40 disabled:cursor-not-allowed disabled:line-through ${
+                              isSelected
+                                ? 'border-white bg-white text-black'
+                                : 'border-gray-700 text-white hover:border-gray-400'
+                            }`}
+                          >
+                            {formatSizeForSystem(size.size, size.conversions, sizeSystem)}
+                          </button>
+                        )
+                      })}
+                    </div>
                   </div>
                 )}
 
-                {product.stockCount !== undefined && (
+                {selectedSize?.conversions && (
+                  <p className="text-sm text-gray-500">
+                    US M {selectedSize.conversions.usMen} · US W {selectedSize.conversions.usWomen} · UK{' '}
+                    {selectedSize.conversions.uk} · EU {selectedSize.conversions.eu} · {selectedSize.conversions.cm} cm
+                  </p>
+                )}
+
+                {selectedSize?.stockCount !== undefined && (
                   <div className="flex items-center gap-3">
                     <span className="text-gray-400 font-medium min-w-[80px]">Stock:</span>
-                    {product.stockCount > 0 ? (
+                    {selectedSize.stockCount > 0 ? (
                       <span className="text-green-400 font-bold">
-                        {product.stockCount} {product.stockCount === 1 ? 'item' : 'items'} available
+                        {selectedSize.stockCount} {selectedSize.stockCount === 1 ? 'item' : 'items'} available
                       </span>
                     ) : (
                       <span className="text-red-400 font-bold">Out of Stock</span>
@@ -230,13 +299,21 @@ function ProductDetailPage() {
                     <span className="text-white">{product.releaseDate}</span>
                   </div>
                 )}
+
+                {product.styleCode && (
+                  <div className="flex items-center gap-3">
+                    <Tag className="w-5 h-5 text-gray-400" />
+                    <span className="text-gray-400 font-medium min-w-[80px]">Style:</span>
+                    <span className="text-white font-mono">{product.styleCode}</span>
+                  </div>
+                )}
               </div>
 
               {/* Action Buttons */}
               <div className="pt-6 space-y-4">
                 <AddToCartButton
-                  productId={product.id}
-                  disabled={product.stockCount === 0}
+                  productId={selectedSize?.itemId || decodedId}
+                  disabled={!selectedSize || selectedSize.stockCount === 0}
                   className="w-full text-lg"
                 />
                 
@@ -1,29 +1,74 @@
 import { createFileRoute, Link, Outlet, useMatchRoute } from '@tanstack/react-router'
-import { useQuery, useInfiniteQuery } from '@tanstack/react-query'
+import { useQuery, useInfiniteQuery, keepPreviousData } from '@tanstack/react-query'
 import { useState, useMemo, useEffect, useCallback } from 'react'
-import type { EnrichedInventoryItem } from '../types/inventory'
-import { ShoppingBag, Loader2, AlertCircle, Search, Filter, X } from 'lucide-react'
+import type { ConditionType, Packaging, ProductGroup, SizeConversions, SizeSystem } from '../types/inventory'
+import { ShoppingBag, Loader2, AlertCircle, Filter, X } from 'lucide-react'
 import AddToCartButton from '../components/AddToCartButton'
+import SearchTypeahead from '../components/SearchTypeahead'
+import ConditionBadges from '../components/ConditionBadges'
+import { SIZE_SYSTEM_LABELS } from '../lib/sizes'
+import { CONDITION_LABELS, PACKAGING_LABELS } from '../lib/condition'
+import {
+  PREFERRED_SIZE_SYSTEMS,
+  PREFERRED_SIZE_SYSTEM_LABELS,
+  formatSizeForSystem,
+} from '../lib/size-conversion'
+import { useSizePreference } from '../hooks/useSizePreference'
+
+interface ShopSearch {
+  q?: string
+}
 
 export const Route = createFileRoute('/shop')({
+  // ?q= lets the header search link straight into shop results
+  validateSearch: (search: Record<string, unknown>): ShopSearch => ({
+    q: typeof search.q === 'string' && search.q.trim() ? search.q : undefined,
+  }),
   component: ProductsPage,
 })
 
-type SortOption = 'price-low' | 'price-high' | 'name-asc' | 'name-desc' | 'newest'
+type SortOption = 'relevance' | 'price-low' | 'price-high' | 'name-asc' | 'name-desc' | 'newest'
 
 interface PaginatedResponse {
-  items: EnrichedInventoryItem[]
+  groups: ProductGroup[] // One entry per product, with its sizes grouped
   total: number
   page: number
   pageSize: number
   totalPages: number
   hasMore: boolean
+  inventoryAge?: number // Seconds since the server last synced with Clover (X-Inventory-Age)
+}
+
+interface FacetValue {
+  value: string
+  count: number
+}
+
+interface SizeFacetValue extends FacetValue {
+  system?: SizeSystem
+  conversions?: SizeConversions
+}
+
+interface PriceBucketFacet {
+  label: string
+  min: number
+  max?: number
+  count: number
 }
 
 interface MetadataResponse {
   total: number
+  catalogTotal: number
   brands: string[]
   sizes: string[]
+  facets: {
+    brand: FacetValue[]
+    size: SizeFacetValue[]
+    variant: FacetValue[]
+    condition: FacetValue[]
+    packaging: FacetValue[]
+    price: PriceBucketFacet[]
+  }
 }
 
 function ProductsPage() {
@@ -33,16 +78,65 @@ function ProductsPage() {
 
   const pageSize = 50
 
-  // Fetch metadata (brands, sizes) separately - lightweight
+  const { q: initialSearch } = Route.useSearch()
+  const [searchQuery, setSearchQuery] = useState(initialSearch || '')
+  const [debouncedSearchQuery, setDebouncedSearchQuery] = useState(initialSearch?.trim() || '')
+  const [selectedBrand, setSelectedBrand] = useState<string>('')
+  const [selectedSize, setSelectedSize] = useState<string>('')
+  const [selectedVariant, setSelectedVariant] = useState<string>('')
+  const [selectedCondition, setSelectedCondition] = useState<string>('')
+  const [selectedPackaging, setSelectedPackaging] = useState<string>('')
+  const [minPrice, setMinPrice] = useState<number | ''>('')
+  const [maxPrice, setMaxPrice] = useState<number | ''>('')
+  const [sortBy, setSortBy] = useState<SortOption>('relevance')
+  const [showFilters, setShowFilters] = useState(false)
+  const { sizeSystem, setSizeSystem } = useSizePreference()
+
+  // Pick up searches submitted from the header while already on /shop
+  useEffect(() => {
+    if (initialSearch !== undefined) setSearchQuery(initialSearch)
+  }, [initialSearch])
+
+  // Debounce search input so we don't hit the API on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearchQuery(searchQuery.trim()), 300)
+    return () => clearTimeout(timeout)
+  }, [searchQuery])
+
+  // Filters are applied server-side across the full catalog, before pagination
+  const filterParams = useMemo(() => {
+    const params = new URLSearchParams()
+    if (debouncedSearchQuery) params.set('q', debouncedSearchQuery)
+    if (selectedBrand) params.set('brand', selectedBrand)
+    if (selectedSize) params.set('size', selectedSize)
+    if (selectedVariant) params.set('variant', selectedVariant)
+    if (selectedCondition) params.set('condition', selectedCondition)
+    if (selectedPackaging) params.set('packaging', selectedPackaging)
+    if (minPrice !== '') params.set('minPrice', String(minPrice))
+    if (maxPrice !== '') params.set('maxPrice', String(maxPrice))
+    return params.toString()
+  }, [
+    debouncedSearchQuery,
+    selectedBrand,
+    selectedSize,
+    selectedVariant,
+    selectedCondition,
+    selectedPackaging,
+    minPrice,
+    maxPrice,
+  ])
+
+  // Fetch facet counts (brands, sizes, variants, conditions, packaging, price ranges) under the current filters - lightweight
   const { data: metadata } = useQuery<MetadataResponse>({
-    queryKey: ['inventory-metadata'],
+    queryKey: filterParams ? ['inventory-metadata', filterParams] : ['inventory-metadata'],
     queryFn: async () => {
-      const response = await fetch('/api/inventory?all=true')
+      const response = await fetch(`/api/inventory?all=true&${filterParams}`)
       if (!response.ok) {
         throw new Error('Failed to fetch inventory metadata')
       }
       return response.json()
     },
+    placeholderData: keepPreviousData,
   })
 
   // Fetch products with infinite scroll
@@ -54,42 +148,60 @@ function ProductsPage() {
     isLoading,
     error,
   } = useInfiniteQuery<PaginatedResponse>({
-    queryKey: ['inventory-paginated'],
+    queryKey: ['inventory-paginated', filterParams, sortBy],
     queryFn: async ({ pageParam = 1 }) => {
-      const response = await fetch(`/api/inventory?page=${pageParam}&pageSize=${pageSize}`)
+      const response = await fetch(
+        `/api/inventory?page=${pageParam}&pageSize=${pageSize}&group=true&sort=${sortBy}&${filterParams}`
+      )
       if (!response.ok) {
         throw new Error('Failed to fetch inventory')
       }
-      return response.json()
+      const inventoryAge = response.headers.get('X-Inventory-Age')
+      const page = await response.json()
+      return { ...page, inventoryAge: inventoryAge !== null ? Number(inventoryAge) : undefined }
     },
     getNextPageParam: (lastPage) => {
       return lastPage.hasMore ? lastPage.page + 1 : undefined
     },
     initialPageParam: 1,
+    // Keep showing current results while a new filter combination loads
+    placeholderData: keepPreviousData,
   })
 
-  // Flatten all loaded pages into a single array
-  const inventory = useMemo(() => {
+  // Flatten all loaded pages into a single array (already filtered and sorted by the server)
+  const productGroups = useMemo(() => {
     if (!data) return []
-    return data.pages.flatMap((page) => page.items)
+    return data.pages.flatMap((page) => page.groups)
   }, [data])
 
-  const [searchQuery, setSearchQuery] = useState('')
-  const [selectedBrand, setSelectedBrand] = useState<string>('')
-  const [selectedSize, setSelectedSize] = useState<string>('')
-  const [minPrice, setMinPrice] = useState<number | ''>('')
-  const [maxPrice, setMaxPrice] = useState<number | ''>('')
-  const [sortBy, setSortBy] = useState<SortOption>('newest')
-  const [showFilters, setShowFilters] = useState(false)
-
-  // Use metadata for brands and sizes (more efficient than computing from loaded items)
-  const brands = useMemo(() => {
-    return metadata?.brands || []
-  }, [metadata])
-
-  const sizes = useMemo(() => {
-    return metadata?.sizes || []
-  }, [metadata])
+  // Products matching the current filters, across all pages
+  const matchingTotal = data?.pages[0]?.total || 0
+
+  // Freshness of the most recently loaded page
+  const inventoryAge = data?.pages[data.pages.length - 1]?.inventoryAge
+
+  // Use facets for filter options (counts reflect the other applied filters)
+  const brandFacets = metadata?.facets?.brand || []
+  const sizeFacets = metadata?.facets?.size || []
+  const variantFacets = metadata?.facets?.variant || []
+  const conditionFacets = metadata?.facets?.condition || []
+  const packagingFacets = metadata?.facets?.packaging || []
+  const priceFacets = metadata?.facets?.price || []
+
+  // Size options grouped by size system (Men's, Women's, Grade School, ...), already sorted by the server
+  const sizeFacetGroups = useMemo(() => {
+    const groups: { label: string; facets: SizeFacetValue[] }[] = []
+    for (const facet of sizeFacets) {
+      const label = facet.system ? SIZE_SYSTEM_LABELS[facet.system] : 'Other'
+      const last = groups[groups.length - 1]
+      if (last && last.label === label) {
+        last.facets.push(facet)
+      } else {
+        groups.push({ label, facets: [facet] })
+      }
+    }
+    return groups
+  }, [sizeFacets])
 
   // Infinite scroll: load more when user scrolls near bottom
   useEffect(() => {
@@ -107,66 +219,26 @@ function ProductsPage() {
     return () => window.removeEventListener('scroll', handleScroll)
   }, [hasNextPage, isFetchingNextPage, fetchNextPage])
 
-  // Filter and sort items
-  const filteredAndSortedItems = useMemo(() => {
-    if (!inventory) return []
-
-    let filtered = inventory.filter((item) => {
-      // Search filter
-      if (searchQuery) {
-        const query = searchQuery.toLowerCase()
-        const matchesSearch =
-          item.name.toLowerCase().includes(query) ||
-          item.brand?.toLowerCase().includes(query) ||
-          item.model?.toLowerCase().includes(query) ||
-          item.colorway?.toLowerCase().includes(query)
-        if (!matchesSearch) return false
-      }
-
-      // Brand filter
-      if (selectedBrand && item.brand !== selectedBrand) return false
-
-      // Size filter
-      if (selectedSize && item.size !== selectedSize) return false
-
-      // Price filters
-      if (item.price !== undefined) {
-        if (minPrice !== '' && item.price < minPrice * 100) return false
-        if (maxPrice !== '' && item.price > maxPrice * 100) return false
-      }
-
-      return true
-    })
-
-    // Sort items
-    filtered.sort((a, b) => {
-      switch (sortBy) {
-        case 'price-low':
-          return (a.price || 0) - (b.price || 0)
-        case 'price-high':
-          return (b.price || 0) - (a.price || 0)
-        case 'name-asc':
-          return (a.name || '').localeCompare(b.name || '')
-        case 'name-desc':
-          return (b.name || '').localeCompare(a.name || '')
-        case 'newest':
-        default:
-          return 0 // Keep original order for now
-      }
-    })
-
-    return filtered
-  }, [inventory, searchQuery, selectedBrand, selectedSize, minPrice, maxPrice, sortBy])
-
   const clearFilters = () => {
     setSearchQuery('')
     setSelectedBrand('')
     setSelectedSize('')
+    setSelectedVariant('')
+    setSelectedCondition('')
+    setSelectedPackaging('')
     setMinPrice('')
     setMaxPrice('')
   }
 
-  const hasActiveFilters = selectedBrand || selectedSize || minPrice !== '' || maxPrice !== '' || searchQuery
+  const hasActiveFilters =
+    selectedBrand ||
+    selectedSize ||
+    selectedVariant ||
+    selectedCondition ||
+    selectedPackaging ||
+    minPrice !== '' ||
+    maxPrice !== '' ||
+    searchQuery
 
   if (isLoading) {
     return (
@@ -199,8 +271,6 @@ function ProductsPage() {
     )
   }
 
-  const items = inventory || []
-
   // If we're on a product detail page or brand page, render the Outlet for child routes
   if (isProductDetailPage || isBrandPage) {
     return <Outlet />
@@ -217,8 +287,12 @@ function ProductsPage() {
                 Shop
               </h1>
               <p className="text-gray-400 text-lg">
-                {filteredAndSortedItems.length} of {items.length} {items.length === 1 ? 'item' : 'items'}
+                {matchingTotal} {matchingTotal === 1 ? 'product' : 'products'}
+                {metadata && ` (${metadata.total} of ${metadata.catalogTotal} items)`}
               </p>
+              {inventoryAge !== undefined && (
+                <p className="text-gray-500 text-sm mt-1">{formatInventoryAge(inventoryAge)}</p>
+              )}
             </div>
             <Link
               to="/"
@@ -229,16 +303,13 @@ function ProductsPage() {
           </div>
 
           {/* Search Bar */}
-          <div className="relative mb-4">
-            <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
-            <input
-              type="text"
-              placeholder="Search by name, brand, or model..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
-              className="w-full pl-12 pr-4 py-4 bg-gray-900 border border-gray-800 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-gray-600 transition-colors"
-            />
-          </div>
+          <SearchTypeahead
+            value={searchQuery}
+            onChange={setSearchQuery}
+            onSubmit={(value) => setDebouncedSearchQuery(value.trim())}
+            className="mb-4"
+            inputClassName="py-4"
+          />
 
           {/* Filter Toggle and Sort */}
           <div className="flex flex-wrap items-center gap-4">
@@ -260,6 +331,7 @@ function ProductsPage() {
               onChange={(e) => setSortBy(e.target.value as SortOption)}
               className="px-6 py-3 bg-gray-900 border border-gray-800 rounded-lg text-white focus:outline-none focus:border-gray-600 transition-colors cursor-pointer"
             >
+              <option value="relevance">Best Match</option>
               <option value="newest">Newest First</option>
               <option value="price-low">Price: Low to High</option>
               <option value="price-high">Price: High to Low</option>
@@ -293,9 +365,9 @@ function ProductsPage() {
                     className="w-full px-4 py-3 bg-black border border-gray-800 rounded-lg text-white focus:outline-none focus:border-gray-600 transition-colors cursor-pointer"
                   >
                     <option value="">All Brands</option>
-                    {brands.map((brand) => (
-                      <option key={brand} value={brand}>
-                        {brand}
+                    {brandFacets.map((facet) => (
+                      <option key={facet.value} value={facet.value}>
+                        {facet.value} ({facet.count})
                       </option>
                     ))}
                   </select>
@@ -303,23 +375,105 @@ function ProductsPage() {
 
                 {/* Size Filter */}
                 <div>
-                  <label className="block text-sm font-medium text-gray-400 mb-2 uppercase tracking-wider">
-                    Size
-                  </label>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-sm font-medium text-gray-400 uppercase tracking-wider">
+                      Size
+                    </label>
+                    <div className="flex gap-1">
+                      {PREFERRED_SIZE_SYSTEMS.map((system) => (
+                        <button
+                          key={system}
+                          onClick={() => setSizeSystem(system)}
+                          className={`px-2 py-0.5 text-xs rounded font-medium transition-colors ${
+                            sizeSystem === system
+                              ? 'bg-white text-black'
+                              : 'text-gray-400 hover:text-white'
+                          }`}
+                        >
+                          {PREFERRED_SIZE_SYSTEM_LABELS[system]}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
                   <select
                     value={selectedSize}
                     onChange={(e) => setSelectedSize(e.target.value)}
                     className="w-full px-4 py-3 bg-black border border-gray-800 rounded-lg text-white focus:outline-none focus:border-gray-600 transition-colors cursor-pointer"
                   >
                     <option value="">All Sizes</option>
-                    {sizes.map((size) => (
-                      <option key={size} value={size}>
-                        {size}
+                    {sizeFacetGroups.map((group) => (
+                      <optgroup key={group.label} label={group.label}>
+                        {group.facets.map((facet) => (
+                          <option key={facet.value} value={facet.value}>
+                            {formatSizeForSystem(facet.value, facet.conversions, sizeSystem)} ({facet.count})
+                          </option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Variant Filter (only shown when the catalog has variant items) */}
+                {variantFacets.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-2 uppercase tracking-wider">
+                      Variant
+                    </label>
+                    <select
+                      value={selectedVariant}
+                      onChange={(e) => setSelectedVariant(e.target.value)}
+                      className="w-full px-4 py-3 bg-black border border-gray-800 rounded-lg text-white focus:outline-none focus:border-gray-600 transition-colors cursor-pointer"
+                    >
+                      <option value="">All Variants</option>
+                      {variantFacets.map((facet) => (
+                        <option key={facet.value} value={facet.value}>
+                          {facet.value} ({facet.count})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {/* Condition Filter */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-400 mb-2 uppercase tracking-wider">
+                    Condition
+                  </label>
+                  <select
+                    value={selectedCondition}
+                    onChange={(e) => setSelectedCondition(e.target.value)}
+                    className="w-full px-4 py-3 bg-black border border-gray-800 rounded-lg text-white focus:outline-none focus:border-gray-600 transition-colors cursor-pointer"
+                  >
+                    <option value="">All Conditions</option>
+                    {conditionFacets.map((facet) => (
+                      <option key={facet.value} value={facet.value}>
+                        {CONDITION_LABELS[facet.value as ConditionType] || facet.value} ({facet.count})
                       </option>
                     ))}
                   </select>
                 </div>
 
+                {/* Packaging Filter (only shown when some pairs list their packaging) */}
+                {packagingFacets.length > 0 && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-400 mb-2 uppercase tracking-wider">
+                      Packaging
+                    </label>
+                    <select
+                      value={selectedPackaging}
+                      onChange={(e) => setSelectedPackaging(e.target.value)}
+                      className="w-full px-4 py-3 bg-black border border-gray-800 rounded-lg text-white focus:outline-none focus:border-gray-600 transition-colors cursor-pointer"
+                    >
+                      <option value="">Any Packaging</option>
+                      {packagingFacets.map((facet) => (
+                        <option key={facet.value} value={facet.value}>
+                          {PACKAGING_LABELS[facet.value as Packaging] || facet.value} ({facet.count})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
                 {/* Min Price */}
                 <div>
                   <label className="block text-sm font-medium text-gray-400 mb-2 uppercase tracking-wider">
@@ -348,6 +502,26 @@ function ProductsPage() {
                   />
                 </div>
               </div>
+
+              {/* Price Ranges */}
+              {priceFacets.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-6">
+                  {priceFacets.map((bucket) => (
+                    <button
+                      key={bucket.label}
+                      onClick={() => {
+                        setMinPrice(bucket.min)
+                        // Bucket max is exclusive, the max price filter is inclusive
+                        setMaxPrice(bucket.max !== undefined ? bucket.max - 0.01 : '')
+                      }}
+                      disabled={bucket.count === 0}
+                      className="px-4 py-2 bg-black border border-gray-800 rounded-lg text-sm text-gray-300 hover:border-gray-600 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                    >
+                      {bucket.label} ({bucket.count})
+                    </button>
+                  ))}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -356,7 +530,7 @@ function ProductsPage() {
       {/* Products Grid */}
       <div className="py-12 px-4 md:px-16">
         <div className="max-w-7xl mx-auto">
-          {filteredAndSortedItems.length === 0 ? (
+          {productGroups.length === 0 ? (
             <div className="text-center py-20">
               <ShoppingBag className="w-16 h-16 mx-auto mb-4 text-gray-600" />
               <h2 className="text-2xl font-bold mb-2 text-gray-400">
@@ -379,8 +553,8 @@ function ProductsPage() {
           ) : (
             <>
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                {filteredAndSortedItems.map((item) => (
-                  <ProductCard key={item.id} item={item} />
+                {productGroups.map((group) => (
+                  <ProductCard key={group.sizes[0]?.itemId || group.id} group={group} />
                 ))}
               </div>
               {isFetchingNextPage && (
@@ -389,10 +563,10 @@ function ProductsPage() {
                   <p className="ml-4 text-gray-400">Loading more products...</p>
                 </div>
               )}
-              {!hasNextPage && filteredAndSortedItems.length > 0 && (
+              {!hasNextPage && productGroups.length > 0 && (
                 <div className="text-center py-12">
                   <p className="text-gray-400">
-                    Showing all {filteredAndSortedItems.length} of {metadata?.total || 0} products
+                    Showing all {productGroups.length} {productGroups.length === 1 ? 'product' : 'products'}
                   </p>
                 </div>
               )}
@@ -404,25 +578,46 @@ function ProductsPage() {
   )
 }
 
-function ProductCard({ item }: { item: EnrichedInventoryItem }) {
+/**
+ * Human-readable inventory freshness ("Updated 3 minutes ago")
+ */
+function formatInventoryAge(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 1) return 'Updated just now'
+  return `Updated ${minutes} ${minutes === 1 ? 'minute' : 'minutes'} ago`
+}
+
+function ProductCard({ group }: { group: ProductGroup }) {
+  const { sizeSystem } = useSizePreference()
   const handleAddToCartClick = (e: React.MouseEvent) => {
     e.preventDefault()
     e.stopPropagation()
   }
 
+  // Link to the first size; the product page lets shoppers switch sizes
+  const defaultItemId = group.sizes[0].itemId
+  const hasPriceRange =
+    group.minPrice !== undefined && group.maxPrice !== undefined && group.minPrice !== group.maxPrice
+  const visibleSizes = group.sizes.slice(0, 6)
+  // Packaging badge only when every size ships the same way
+  const packaging = group.sizes.every((size) => size.packaging === group.sizes[0].packaging)
+    ? group.sizes[0].packaging
+    : undefined
+
   return (
     <div className="bg-gray-900 rounded-lg overflow-hidden border border-gray-800 hover:border-gray-600 transition-all duration-300 group hover:shadow-2xl hover:shadow-white/10">
       <Link
-        to={`/shop/${item.id}`}
+        to="/shop/$id"
+        params={{ id: defaultItemId }}
         className="block"
       >
       {/* Image */}
       <div className="aspect-square bg-gray-800 relative overflow-hidden">
-        {item.imageUrl ? (
+        {group.imageUrl ? (
           <>
             <img
-              src={item.imageUrl}
-              alt={item.name}
+              src={group.imageUrl}
+              alt={group.name}
               className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-500"
               loading="lazy"
               decoding="async"
@@ -436,12 +631,12 @@ function ProductCard({ item }: { item: EnrichedInventoryItem }) {
             <ShoppingBag className="w-24 h-24 text-gray-600" />
           </div>
         )}
-        {!item.matched && (
+        {!group.imageUrl && (
           <div className="absolute top-3 right-3 bg-yellow-500 text-black text-xs px-2 py-1 rounded font-bold">
             No Image
           </div>
         )}
-        {item.stockCount !== undefined && item.stockCount > 0 && (
+        {group.totalStock !== undefined && group.totalStock > 0 && (
           <div className="absolute top-3 left-3 bg-green-500 text-white text-xs px-2 py-1 rounded font-bold">
             In Stock
           </div>
@@ -450,40 +645,66 @@ function ProductCard({ item }: { item: EnrichedInventoryItem }) {
 
       {/* Details */}
       <div className="p-5">
-        {item.brand && (
+        {group.brand && (
           <p className="text-gray-400 text-xs uppercase tracking-wider mb-1 font-medium">
-            {item.brand}
+            {group.brand}
           </p>
         )}
         <h3 className="font-bold text-lg mb-2 line-clamp-2 text-white group-hover:text-gray-200 transition-colors">
-          {item.model || item.name}
+          {group.model || group.name}
         </h3>
-        {item.size && (
-          <p className="text-gray-500 text-sm mb-3">
-            Size: <span className="text-white font-medium">{item.size}</span>
-          </p>
+        {group.colorway && (
+          <p className="text-gray-400 text-sm mb-2 line-clamp-1">{group.colorway}</p>
         )}
-        {item.price !== undefined ? (
+        <ConditionBadges condition={group.condition} packaging={packaging} className="mb-2" />
+        {group.sizes.length > 0 && (
+          <div className="flex flex-wrap gap-1 mb-3">
+            {visibleSizes.map((size) => (
+              <span key={size.itemId} className="text-xs text-white bg-gray-800 px-2 py-0.5 rounded">
+                {formatSizeForSystem(size.size, size.conversions, sizeSystem)}
+              </span>
+            ))}
+            {group.sizes.length > visibleSizes.length && (
+              <span className="text-xs text-gray-500 px-1 py-0.5">
+                +{group.sizes.length - visibleSizes.length} more
+              </span>
+            )}
+          </div>
+        )}
+        {group.minPrice !== undefined ? (
           <p className="text-white text-2xl font-black mb-1">
-            ${(item.price / 100).toFixed(2)}
+            {hasPriceRange && <span className="text-sm text-gray-400 font-medium mr-1">From</span>}
+            ${(group.minPrice / 100).toFixed(2)}
           </p>
         ) : (
           <p className="text-gray-500 text-sm">Price not available</p>
         )}
-        {item.stockCount !== undefined && (
-          <p className={`text-xs mt-2 font-medium ${item.stockCount > 0 ? 'text-green-400' : 'text-red-400'}`}>
-            {item.stockCount > 0 ? `${item.stockCount} in stock` : 'Out of stock'}
+        {group.totalStock !== undefined && (
+          <p className={`text-xs mt-2 font-medium ${group.totalStock > 0 ? 'text-green-400' : 'text-red-400'}`}>
+            {group.totalStock > 0
+              ? `${group.sizes.length} ${group.sizes.length === 1 ? 'size' : 'sizes'} in stock`
+              : 'Out of stock'}
           </p>
         )}
       </div>
       </Link>
-      <div className="p-5 pt-0" onClick={handleAddToCartClick}>
-        <AddToCartButton
-          productId={item.id}
-          disabled={item.stockCount === 0}
-          className="w-full"
-          variant="outline"
-        />
+      <div className="p-5 pt-0" onClick={group.sizes.length === 1 ? handleAddToCartClick : undefined}>
+        {group.sizes.length === 1 ? (
+          <AddToCartButton
+            productId={group.sizes[0].itemId}
+            disabled={group.sizes[0].stockCount === 0}
+            className="w-full"
+            variant="outline"
+          />
+        ) : (
+          <Link
+            to="/shop/$id"
+            params={{ id: defaultItemId }}
+            className="w-full px-6 py-3 font-bold rounded-lg transition-all duration-300 uppercase tracking-wider flex items-center justify-center gap-2 border-2 border-white hover:bg-white hover:text-black text-white"
+          >
+            Select Size
+          </Link>
+        )}
       </div>
     </div>
   )
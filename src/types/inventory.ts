@@ -10,6 +10,7 @@ export interface CloverItem {
   isRevenue?: boolean
   stockCount?: number
   modifiedTime?: number
+  deleted?: boolean
   [key: string]: unknown
 }
 
@@ -18,6 +19,9 @@ export interface ParsedShoe {
   brand: string
   model: string
   size?: string
+  styleCode?: string
+  condition?: ItemCondition
+  packaging?: Packaging
   originalName: string
   searchQuery: string
 }
@@ -28,6 +32,7 @@ export interface KicksDBProduct {
   name?: string
   brand?: string
   model?: string
+  sku?: string // Style code, e.g. "DD1391-100"
   colorway?: string
   imageUrl?: string
   images?: string[]
@@ -42,23 +47,120 @@ export interface KicksDBSearchResponse {
   [key: string]: unknown
 }
 
+// Catalog match confidence
+export type MatchReasonType = 'brand' | 'model' | 'colorway' | 'sku' | 'silhouette' | 'override'
+
+export interface MatchReason {
+  type: MatchReasonType
+  points: number // Contribution to the score (negative for penalties)
+  detail: string // e.g. "3 of 4 model words found"
+}
+
+export interface CatalogMatch {
+  productId?: string // KicksDB product ID (unset when an override says there's no catalog product)
+  score: number // 0-1
+  reasons: MatchReason[]
+  source: 'auto' | 'override'
+}
+
+// Sizing
+// Sneakers keep their real size in their own system; letter sizes are only used for apparel
+export type SizeSystem = 'us-men' | 'us-women' | 'youth' | 'toddler' | 'apparel'
+
+export type ApparelSize = 'S' | 'M' | 'L' | 'XL' | 'XXL' | 'XXXL'
+
+export interface ItemSize {
+  system: SizeSystem
+  value?: number // Numeric size for sneakers (e.g. 10.5)
+  label: string // Display/filter label, e.g. "10.5", "6.5W", "5Y", "8C", "XL"
+  original: string // Size as written in the Clover name, e.g. "5y/6.5w (7)"
+}
+
+// Condition and packaging (written into Clover names as "VNDS", "Used 8/10", "NO BOX", ...)
+export type ConditionType = 'DS' | 'VNDS' | 'Used'
+
+export interface ItemCondition {
+  type: ConditionType
+  grade?: number // Used pairs graded out of 10, e.g. 8 for "Used 8/10"
+  label: string // "DS", "VNDS", "Used 8/10"
+}
+
+export type Packaging = 'original-box' | 'no-lid' | 'no-label' | 'no-box'
+
+// Size charts differ by brand (Nike/Jordan, Adidas/Yeezy, New Balance)
+export type SizeChartBrand = 'nike' | 'adidas' | 'new-balance'
+
+// One sneaker size in every system (EU may be fractional, e.g. "42 2/3")
+export interface SizeConversions {
+  chart: SizeChartBrand
+  usMen: string
+  usWomen: string
+  uk: string
+  eu: string
+  cm: string
+}
+
+// How an item's name was cleaned: by the AI, by staff in the review queue,
+// or left as-is because the AI was unsure or unavailable
+export type NameCleaningStatus = 'ai' | 'reviewed' | 'low-confidence' | 'unavailable'
+
 // Enriched Inventory Item (Final Display Format)
+
 export interface EnrichedInventoryItem {
   id: string
   name: string
   originalName: string
   brand: string
   model: string
-  size?: 'S' | 'M' | 'L' | 'XL' | 'XXL' | 'XXXL'
+  size?: string // Size label (same as sizeInfo.label)
+  sizeInfo?: ItemSize
+  sizeConversions?: SizeConversions // Added by the product API (not cached)
+  styleCode?: string // Manufacturer style code, e.g. "DD1391-100"
+  condition?: ItemCondition
+  packaging?: Packaging
   variant?: string // For non-apparel items (e.g., "Macaron", "Strawberry")
   price?: number
   stockCount?: number
+  modifiedTime?: number // When the Clover item last changed (ms), for the "newest" sort
   imageUrl?: string
   images?: string[]
   colorway?: string
   retailPrice?: number
   releaseDate?: string
-  matched: boolean
+  catalogMatch?: CatalogMatch
+  matched: boolean // True when a catalog product is attached (confident automatic match or admin override)
+  catalogLookupFailed?: boolean // KicksDB couldn't be searched, so matched: false isn't a real "no match"
+  cleaning?: NameCleaningStatus // Unset for regex-only fallback items
   searchQuery: string
 }
 
+// One size of a grouped product (each size is its own Clover item)
+export interface ProductGroupSize {
+  itemId: string
+  size: string
+  conversions?: SizeConversions
+  packaging?: Packaging
+  price?: number
+  stockCount?: number
+}
+
+// Product grouped across sizes (same brand + model + colorway)
+export interface ProductGroup {
+  id: string
+  name: string
+  brand: string
+  model: string
+  colorway?: string
+  variant?: string
+  styleCode?: string
+  condition?: ItemCondition
+  imageUrl?: string
+  images?: string[]
+  retailPrice?: number
+  releaseDate?: string
+  matched: boolean
+  minPrice?: number
+  maxPrice?: number
+  totalStock?: number
+  sizes: ProductGroupSize[]
+}